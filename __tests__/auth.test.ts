@@ -0,0 +1,122 @@
+import { jest, describe, beforeEach, test, expect } from '@jest/globals';
+import type { Request, Response } from 'express';
+import { ApiKeyStore, createApiKeyAuthMiddleware, getRequestedModels, hashApiKey } from '../src/auth';
+import { Logger } from '../src/logger';
+import { AuthConfigSchema } from '../src/types';
+
+// Mock logger for testing
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warning: jest.fn(),
+  error: jest.fn(),
+  critical: jest.fn(),
+} as unknown as Logger;
+
+const store = new ApiKeyStore(AuthConfigSchema.parse({
+  keys: [
+    { name: 'open', keyHash: hashApiKey('sk-open') },
+    { name: 'haiku-only', keyHash: hashApiKey('sk-haiku'), models: ['claude-*haiku*'] },
+    { name: 'count-only', keyHash: hashApiKey('sk-count'), routes: ['/v1/messages/count_tokens'] },
+  ],
+}));
+
+function createRequest(headers: Record<string, string>, path: string, body?: unknown): Request {
+  return {
+    requestId: 'test-request-id',
+    method: 'POST',
+    baseUrl: '/v1',
+    path,
+    body,
+    ip: '127.0.0.1',
+    get: (name: string) => headers[name.toLowerCase()],
+  } as unknown as Request;
+}
+
+function createResponse() {
+  const res = { status: jest.fn(), json: jest.fn() };
+  res.status.mockReturnValue(res);
+  return res;
+}
+
+async function runMiddleware(req: Request) {
+  const res = createResponse();
+  const next = jest.fn();
+  await createApiKeyAuthMiddleware(store, mockLogger)(req, res as unknown as Response, next);
+  return { res, next };
+}
+
+describe('API Key Authentication', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should hash keys and reject malformed hashes in the config', () => {
+    expect(hashApiKey('sk-open')).toMatch(/^sha256:[0-9a-f]{64}$/);
+    expect(AuthConfigSchema.safeParse({ keys: [{ name: 'a', keyHash: 'sk-plaintext' }] }).success).toBe(false);
+    expect(AuthConfigSchema.safeParse({
+      keys: [{ name: 'a', keyHash: hashApiKey('x') }, { name: 'a', keyHash: hashApiKey('y') }],
+    }).success).toBe(false);
+  });
+
+  test('should only report admin keys that are configured', () => {
+    expect(store.hasAdminKeys).toBe(false);
+    expect(new ApiKeyStore(AuthConfigSchema.parse({
+      keys: [{ name: 'ops', keyHash: hashApiKey('sk-ops'), admin: true }],
+    })).hasAdminKeys).toBe(true);
+  });
+
+  test('should accept x-api-key and bearer tokens and attach the key to the request', async () => {
+    const req = createRequest({ 'x-api-key': 'sk-open' }, '/messages', { model: 'claude-opus-4-1' });
+    const { next } = await runMiddleware(req);
+    expect(next).toHaveBeenCalled();
+    expect((req as Request & { apiKey?: { name: string } }).apiKey?.name).toBe('open');
+
+    const bearer = await runMiddleware(createRequest({ authorization: 'Bearer sk-open' }, '/models'));
+    expect(bearer.next).toHaveBeenCalled();
+  });
+
+  test('should return authentication_error for missing or unknown keys', async () => {
+    const missing = await runMiddleware(createRequest({}, '/messages'));
+    expect(missing.next).not.toHaveBeenCalled();
+    expect(missing.res.status).toHaveBeenCalledWith(401);
+    expect(missing.res.json).toHaveBeenCalledWith({
+      type: 'error',
+      error: { type: 'authentication_error', message: 'x-api-key header is required' },
+    });
+
+    const unknown = await runMiddleware(createRequest({ 'x-api-key': 'sk-wrong' }, '/messages'));
+    expect(unknown.res.status).toHaveBeenCalledWith(401);
+    expect(unknown.res.json).toHaveBeenCalledWith(expect.objectContaining({
+      error: expect.objectContaining({ message: 'invalid x-api-key' }),
+    }));
+  });
+
+  test('should return permission_error for routes and models outside the key policy', async () => {
+    const wrongModel = await runMiddleware(createRequest({ 'x-api-key': 'sk-haiku' }, '/messages', { model: 'claude-opus-4-1' }));
+    expect(wrongModel.res.status).toHaveBeenCalledWith(403);
+    expect(wrongModel.res.json).toHaveBeenCalledWith(expect.objectContaining({
+      error: expect.objectContaining({ type: 'permission_error' }),
+    }));
+
+    const allowedModel = await runMiddleware(createRequest({ 'x-api-key': 'sk-haiku' }, '/messages', { model: 'claude-3-5-haiku-20241022' }));
+    expect(allowedModel.next).toHaveBeenCalled();
+
+    const wrongRoute = await runMiddleware(createRequest({ 'x-api-key': 'sk-count' }, '/messages', { model: 'claude-3-5-haiku-20241022' }));
+    expect(wrongRoute.res.status).toHaveBeenCalledWith(403);
+    expect(mockLogger.warning).toHaveBeenCalledWith(expect.objectContaining({ event: 'permission_denied' }));
+  });
+
+  test('should check the model of every request in a batch', async () => {
+    const body = {
+      requests: [
+        { custom_id: 'a', params: { model: 'claude-3-5-haiku-20241022' } },
+        { custom_id: 'b', params: { model: 'claude-sonnet-4-20250514' } },
+      ],
+    };
+    expect(getRequestedModels(body)).toEqual(['claude-3-5-haiku-20241022', 'claude-sonnet-4-20250514']);
+
+    const { res } = await runMiddleware(createRequest({ 'x-api-key': 'sk-haiku' }, '/messages/batches', body));
+    expect(res.status).toHaveBeenCalledWith(403);
+  });
+});
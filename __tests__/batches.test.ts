@@ -0,0 +1,241 @@
+import { jest, describe, beforeEach, afterEach, test, expect } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { APIError, APIUserAbortError } from 'openai';
+import { MessageBatchStore, MessageBatchProcessor, BatchRequestExecutor, BatchOwner } from '../src/batches';
+import { MessageBatch, MessageBatchRequest, MessagesRequest, MessagesResponse } from '../src/types';
+import { Logger } from '../src/logger';
+
+// Mock logger for testing
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warning: jest.fn(),
+  error: jest.fn(),
+  critical: jest.fn(),
+} as unknown as Logger;
+
+function batchRequest(customId: string, text: string = 'Hello'): MessageBatchRequest {
+  return {
+    custom_id: customId,
+    params: {
+      model: 'claude-3-5-sonnet-20241022',
+      max_tokens: 100,
+      messages: [{ role: 'user', content: text }],
+      stream: false,
+    },
+  };
+}
+
+function echoMessage(params: MessagesRequest): MessagesResponse {
+  return {
+    id: 'msg_test',
+    type: 'message',
+    role: 'assistant',
+    model: params.model,
+    content: [{ type: 'text', text: String(params.messages[0].content) }],
+    stop_reason: 'end_turn',
+    stop_sequence: null,
+    usage: { input_tokens: 5, output_tokens: 3 },
+  };
+}
+
+async function waitForEnded(processor: MessageBatchProcessor, batchId: string, owner: BatchOwner = null): Promise<MessageBatch> {
+  for (let i = 0; i < 200; i++) {
+    const batch = processor.get(batchId, owner);
+    if (batch?.processing_status === 'ended') {
+      return batch;
+    }
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+  throw new Error(`Batch ${batchId} did not end`);
+}
+
+describe('Message Batches', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'anthropic-proxy-batches-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('should process every request and record succeeded and errored results', async () => {
+    const executor: BatchRequestExecutor = async params => {
+      if (params.messages[0].content === 'fail') {
+        throw APIError.generate(400, { error: { message: 'bad request' } }, 'bad request', {});
+      }
+      return echoMessage(params);
+    };
+    const processor = new MessageBatchProcessor(new MessageBatchStore(directory), executor, mockLogger, 2);
+
+    const created = processor.create([batchRequest('a'), batchRequest('b', 'fail'), batchRequest('c')], null);
+    expect(created.id).toMatch(/^msgbatch_/);
+    expect(created.processing_status).toBe('in_progress');
+    expect(created.request_counts.processing).toBe(3);
+
+    const ended = await waitForEnded(processor, created.id);
+    expect(ended.request_counts).toEqual({ processing: 0, succeeded: 2, errored: 1, canceled: 0, expired: 0 });
+    expect(ended.ended_at).not.toBeNull();
+
+    const results = processor.getResults(created.id);
+    const errored = results.find(result => result.custom_id === 'b')!;
+    expect(errored.result).toEqual({
+      type: 'errored',
+      error: { type: 'error', error: { type: 'invalid_request_error', message: expect.any(String) } },
+    });
+    const succeeded = results.find(result => result.custom_id === 'a')!;
+    expect(succeeded.result.type).toBe('succeeded');
+  });
+
+  test('should never run more requests than the configured concurrency', async () => {
+    let active = 0;
+    let maxActive = 0;
+    const executor: BatchRequestExecutor = async params => {
+      active += 1;
+      maxActive = Math.max(maxActive, active);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      active -= 1;
+      return echoMessage(params);
+    };
+    const processor = new MessageBatchProcessor(new MessageBatchStore(directory), executor, mockLogger, 2);
+
+    const created = processor.create(['a', 'b', 'c', 'd', 'e'].map(id => batchRequest(id)), null);
+    await waitForEnded(processor, created.id);
+
+    expect(maxActive).toBe(2);
+  });
+
+  test('should cancel queued requests and let in-flight requests finish', async () => {
+    let release: () => void = () => undefined;
+    const executor: BatchRequestExecutor = params => new Promise(resolve => {
+      release = () => resolve(echoMessage(params));
+    });
+    const processor = new MessageBatchProcessor(new MessageBatchStore(directory), executor, mockLogger, 1);
+
+    const created = processor.create([batchRequest('a'), batchRequest('b'), batchRequest('c')], null);
+    const canceling = processor.cancel(created.id, null)!;
+    expect(canceling.processing_status).toBe('canceling');
+    expect(canceling.cancel_initiated_at).not.toBeNull();
+
+    release();
+    const ended = await waitForEnded(processor, created.id);
+    expect(ended.request_counts).toEqual({ processing: 0, succeeded: 1, errored: 0, canceled: 2, expired: 0 });
+  });
+
+  test('should cancel requests that are still waiting to call upstream', async () => {
+    const executor: BatchRequestExecutor = (_params, _requestId, _owner, signal) => new Promise((_resolve, reject) => {
+      signal.addEventListener('abort', () => reject(new APIUserAbortError()), { once: true });
+    });
+    const processor = new MessageBatchProcessor(new MessageBatchStore(directory), executor, mockLogger, 2);
+
+    const created = processor.create([batchRequest('a'), batchRequest('b'), batchRequest('c')], null);
+    processor.cancel(created.id, null);
+
+    const ended = await waitForEnded(processor, created.id);
+    expect(ended.request_counts).toEqual({ processing: 0, succeeded: 0, errored: 0, canceled: 3, expired: 0 });
+    expect(mockLogger.warning).not.toHaveBeenCalled();
+  });
+
+  test('should resume unfinished batches from disk after a restart', async () => {
+    const store = new MessageBatchStore(directory);
+    const neverSettles: BatchRequestExecutor = () => new Promise(() => undefined);
+    const created = new MessageBatchProcessor(store, neverSettles, mockLogger, 1)
+      .create([batchRequest('a'), batchRequest('b')], 'team-a');
+    store.appendResult(created.id, { custom_id: 'a', result: { type: 'succeeded', message: echoMessage(batchRequest('a').params) } });
+
+    const executor = jest.fn<BatchRequestExecutor>(async params => echoMessage(params));
+    const restarted = new MessageBatchProcessor(new MessageBatchStore(directory), executor, mockLogger, 1);
+    restarted.resume();
+
+    const ended = await waitForEnded(restarted, created.id, 'team-a');
+    expect(executor).toHaveBeenCalledTimes(1);
+    expect(executor).toHaveBeenCalledWith(expect.anything(), expect.any(String), 'team-a', expect.anything());
+    expect(ended.request_counts).toEqual({ processing: 0, succeeded: 2, errored: 0, canceled: 0, expired: 0 });
+  });
+
+  test('should list batches newest first with cursor pagination', () => {
+    const store = new MessageBatchStore(directory);
+    const ids = ['01', '02', '03'].map(suffix => {
+      const batch: MessageBatch = {
+        id: `msgbatch_${suffix}`,
+        type: 'message_batch',
+        processing_status: 'ended',
+        request_counts: { processing: 0, succeeded: 1, errored: 0, canceled: 0, expired: 0 },
+        created_at: `2025-01-${suffix}T00:00:00.000Z`,
+        expires_at: `2025-01-${suffix}T23:00:00.000Z`,
+        ended_at: `2025-01-${suffix}T01:00:00.000Z`,
+        cancel_initiated_at: null,
+        archived_at: null,
+        results_url: null,
+      };
+      store.create(batch, [batchRequest('a')], null);
+      return batch.id;
+    });
+    const processor = new MessageBatchProcessor(store, async params => echoMessage(params), mockLogger);
+
+    const firstPage = processor.list({ limit: 2 }, null);
+    expect(firstPage.data.map(batch => batch.id)).toEqual([ids[2], ids[1]]);
+    expect(firstPage.has_more).toBe(true);
+
+    const secondPage = processor.list({ limit: 2, after_id: firstPage.last_id! }, null);
+    expect(secondPage.data.map(batch => batch.id)).toEqual([ids[0]]);
+    expect(secondPage.has_more).toBe(false);
+
+    const previousPage = processor.list({ limit: 2, before_id: ids[0] }, null);
+    expect(previousPage.data.map(batch => batch.id)).toEqual([ids[2], ids[1]]);
+    expect(previousPage.has_more).toBe(false);
+  });
+
+  test('should only show a batch to the key that created it', async () => {
+    const executor = jest.fn<BatchRequestExecutor>(async params => echoMessage(params));
+    const processor = new MessageBatchProcessor(new MessageBatchStore(directory), executor, mockLogger, 1);
+
+    const teamA = processor.create([batchRequest('a')], 'team-a');
+    const teamB = processor.create([batchRequest('b')], 'team-b');
+    await waitForEnded(processor, teamA.id, 'team-a');
+    await waitForEnded(processor, teamB.id, 'team-b');
+
+    expect(executor).toHaveBeenCalledWith(expect.anything(), expect.any(String), 'team-a', expect.anything());
+    expect(processor.list({ limit: 20 }, 'team-a').data.map(batch => batch.id)).toEqual([teamA.id]);
+    expect(processor.list({ limit: 20 }, null).data).toEqual([]);
+    expect(processor.get(teamB.id, 'team-a')).toBeUndefined();
+    expect(processor.cancel(teamB.id, 'team-a')).toBeUndefined();
+    expect(processor.get(teamB.id, 'team-b')?.id).toBe(teamB.id);
+  });
+
+  test('should keep processing when the batch store cannot be written', async () => {
+    const store = new MessageBatchStore(directory);
+    const executor = jest.fn<BatchRequestExecutor>(async params => {
+      fs.rmSync(directory, { recursive: true, force: true });
+      return echoMessage(params);
+    });
+    const processor = new MessageBatchProcessor(store, executor, mockLogger, 1);
+
+    processor.create([batchRequest('a'), batchRequest('b')], null);
+    const hasEnded = () => (mockLogger.info as jest.Mock).mock.calls.some(([entry]) => (entry as { event: string }).event === 'batch_ended');
+    for (let i = 0; i < 200 && !hasEnded(); i++) {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+
+    expect(executor).toHaveBeenCalledTimes(2);
+    expect(mockLogger.error).toHaveBeenCalledWith(expect.objectContaining({ event: 'batch_store_failed' }), expect.anything());
+    expect(mockLogger.info).toHaveBeenCalledWith(expect.objectContaining({
+      event: 'batch_ended',
+      data: expect.objectContaining({ request_counts: expect.objectContaining({ processing: 0, succeeded: 2 }) }),
+    }));
+  });
+
+  test('should not let another key cancel a batch that is still running', () => {
+    const neverSettles: BatchRequestExecutor = () => new Promise(() => undefined);
+    const processor = new MessageBatchProcessor(new MessageBatchStore(directory), neverSettles, mockLogger, 1);
+    const created = processor.create([batchRequest('a'), batchRequest('b')], 'team-a');
+
+    expect(processor.cancel(created.id, 'team-b')).toBeUndefined();
+    expect(processor.get(created.id, 'team-a')?.processing_status).toBe('in_progress');
+  });
+});
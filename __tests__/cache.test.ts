@@ -0,0 +1,223 @@
+import { jest, describe, beforeEach, afterEach, test, expect } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { ChatCompletion, ChatCompletionChunk } from 'openai/resources/chat/completions';
+import { ResponseCache, MemoryCacheStore, DiskCacheStore, computeCacheKey, CacheEntry } from '../src/cache';
+import { MessagesPipeline } from '../src/pipeline';
+import { ProviderRegistry } from '../src/providers';
+import { UpstreamClient } from '../src/upstream';
+import { Logger } from '../src/logger';
+import { CacheConfigSchema, Config, MessagesRequest } from '../src/types';
+
+// Mock logger for testing
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warning: jest.fn(),
+  error: jest.fn(),
+  critical: jest.fn(),
+} as unknown as Logger;
+
+const config: Config = {
+  host: '127.0.0.1',
+  port: 8080,
+  baseUrl: 'http://localhost:4000',
+  openaiApiKey: 'sk-test',
+  bigModelName: 'big-model',
+  smallModelName: 'small-model',
+  referrerUrl: 'http://localhost:8080/AnthropicProxy',
+  logLevel: 'INFO',
+  reload: false,
+  appName: 'AnthropicProxy',
+  appVersion: '1.0.0',
+};
+
+const completion = {
+  id: 'chatcmpl-1',
+  object: 'chat.completion',
+  created: 1700000000,
+  model: 'big-model',
+  choices: [{ index: 0, message: { role: 'assistant', content: 'Hello!', refusal: null }, finish_reason: 'stop', logprobs: null }],
+  usage: { prompt_tokens: 10, completion_tokens: 2, total_tokens: 12 },
+} as ChatCompletion;
+
+function createChunk(delta: ChatCompletionChunk.Choice['delta'], finishReason: 'stop' | null = null): ChatCompletionChunk {
+  return {
+    id: 'chatcmpl-1',
+    object: 'chat.completion.chunk',
+    created: 1700000000,
+    model: 'big-model',
+    choices: [{ index: 0, delta, finish_reason: finishReason }],
+  };
+}
+
+function createRequest(overrides: Partial<MessagesRequest> = {}): MessagesRequest {
+  return {
+    model: 'claude-sonnet-4-20250514',
+    max_tokens: 100,
+    temperature: 0,
+    messages: [{ role: 'user', content: 'Say hello' }],
+    ...overrides,
+  };
+}
+
+async function collect(stream: AsyncIterable<ChatCompletionChunk>): Promise<ChatCompletionChunk[]> {
+  const chunks: ChatCompletionChunk[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+describe('Response Cache', () => {
+  const cacheConfig = CacheConfigSchema.parse({ enabled: true });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should key requests on a canonical hash independent of property order', () => {
+    const key = computeCacheKey('default', { model: 'gpt-4o', temperature: 0, messages: [{ role: 'user', content: 'Hi' }] });
+    expect(key).toMatch(/^[0-9a-f]{64}$/);
+    expect(computeCacheKey('default', { messages: [{ content: 'Hi', role: 'user' }], temperature: 0, model: 'gpt-4o' })).toBe(key);
+    expect(computeCacheKey('openrouter', { model: 'gpt-4o', temperature: 0, messages: [{ role: 'user', content: 'Hi' }] }))
+      .not.toBe(key);
+    expect(computeCacheKey('default', { model: 'gpt-4o', temperature: 0.5, messages: [{ role: 'user', content: 'Hi' }] }))
+      .not.toBe(key);
+    expect(computeCacheKey('default', { model: 'gpt-4o', temperature: 0, messages: [{ role: 'user', content: 'Hi' }], user: 'u1' }))
+      .toBe(key);
+  });
+
+  test('should only cache temperature 0 requests unless configured otherwise', () => {
+    const cache = new ResponseCache(new MemoryCacheStore(10, Infinity), cacheConfig, mockLogger);
+    expect(cache.isCacheable({ model: 'gpt-4o', messages: [], temperature: 0 })).toBe(true);
+    expect(cache.isCacheable({ model: 'gpt-4o', messages: [], temperature: 0.7 })).toBe(false);
+    expect(cache.isCacheable({ model: 'gpt-4o', messages: [] })).toBe(false);
+
+    const cacheAll = new ResponseCache(new MemoryCacheStore(10, Infinity), { ...cacheConfig, deterministicOnly: false }, mockLogger);
+    expect(cacheAll.isCacheable({ model: 'gpt-4o', messages: [] })).toBe(true);
+  });
+
+  test('should expire entries after the TTL', () => {
+    let now = 0;
+    const cache = new ResponseCache(new MemoryCacheStore(10, Infinity), { ...cacheConfig, ttlSeconds: 60 }, mockLogger, () => now);
+    cache.set('key', { type: 'completion', completion }, 'req-1');
+
+    now = 60000;
+    expect(cache.get('key', 'req-2')).toEqual({ type: 'completion', completion });
+    now = 60001;
+    expect(cache.get('key', 'req-3')).toBeUndefined();
+  });
+
+  test('should evict the least recently used memory entries beyond the limits', () => {
+    const entry: CacheEntry = { createdAt: 0, response: { type: 'completion', completion } };
+    const store = new MemoryCacheStore(2, Infinity);
+    store.set('a', entry);
+    store.set('b', entry);
+    store.get('a');
+    store.set('c', entry);
+    expect(store.get('a')).toBeDefined();
+    expect(store.get('b')).toBeUndefined();
+    expect(store.get('c')).toBeDefined();
+
+    const entrySize = Buffer.byteLength(JSON.stringify(entry));
+    const sizeLimited = new MemoryCacheStore(10, entrySize * 1.5);
+    sizeLimited.set('a', entry);
+    sizeLimited.set('b', entry);
+    expect(sizeLimited.get('a')).toBeUndefined();
+    expect(sizeLimited.get('b')).toBeDefined();
+  });
+
+  describe('Disk Store', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'cache-test-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    test('should persist entries across instances and remove the oldest beyond the limits', () => {
+      const entry: CacheEntry = { createdAt: 0, response: { type: 'completion', completion } };
+      const store = new DiskCacheStore(path.join(directory, 'cache'), 2, Infinity);
+      store.set('a', entry);
+      fs.utimesSync(path.join(directory, 'cache', 'a.json'), new Date(1000), new Date(1000));
+      store.set('b', entry);
+      store.set('c', entry);
+
+      const reopened = new DiskCacheStore(path.join(directory, 'cache'), 2, Infinity);
+      expect(reopened.get('a')).toBeUndefined();
+      expect(reopened.get('b')).toEqual(entry);
+      expect(reopened.get('c')).toEqual(entry);
+    });
+  });
+
+  describe('Pipeline', () => {
+    let client: { createChatCompletion: jest.Mock; createChatCompletionStream: jest.Mock };
+    let pipeline: MessagesPipeline;
+
+    beforeEach(() => {
+      client = {
+        createChatCompletion: jest.fn(async () => completion),
+        createChatCompletionStream: jest.fn(async () => (async function* () {
+          yield createChunk({ role: 'assistant', content: 'Hel' });
+          yield createChunk({ content: 'lo!' });
+          yield createChunk({}, 'stop');
+        })()),
+      };
+      const providers = new ProviderRegistry(config, mockLogger);
+      jest.spyOn(providers, 'getClient').mockReturnValue(client as unknown as UpstreamClient);
+      const cache = new ResponseCache(new MemoryCacheStore(10, Infinity), cacheConfig, mockLogger);
+      pipeline = new MessagesPipeline(config, providers, mockLogger, undefined, cache);
+    });
+
+    test('should return cached non-streaming responses without calling upstream', async () => {
+      const first = await pipeline.createMessage(pipeline.prepare(createRequest(), 'req-1'), 'req-1');
+      const second = await pipeline.createMessage(pipeline.prepare(createRequest(), 'req-2'), 'req-2');
+
+      expect(first.cacheStatus).toBe('miss');
+      expect(second.cacheStatus).toBe('hit');
+      expect(second.message.content).toEqual(first.message.content);
+      expect(client.createChatCompletion).toHaveBeenCalledTimes(1);
+    });
+
+    test('should share entries between requests that only differ in metadata.user_id', async () => {
+      const first = await pipeline.createMessage(
+        pipeline.prepare(createRequest({ metadata: { user_id: 'user_abc_session_1' } }), 'req-1'), 'req-1'
+      );
+      const second = await pipeline.createMessage(
+        pipeline.prepare(createRequest({ metadata: { user_id: 'user_abc_session_2' } }), 'req-2'), 'req-2'
+      );
+
+      expect(first.cacheStatus).toBe('miss');
+      expect(second.cacheStatus).toBe('hit');
+      expect(client.createChatCompletion).toHaveBeenCalledTimes(1);
+      expect(client.createChatCompletion).toHaveBeenCalledWith(
+        expect.objectContaining({ user: 'user_abc_session_1' }), 'req-1', undefined
+      );
+    });
+
+    test('should replay recorded streams once they have finished', async () => {
+      const miss = await pipeline.createChatCompletionStream(pipeline.prepare(createRequest({ stream: true }), 'req-1'), 'req-1');
+      expect(miss.cacheStatus).toBe('miss');
+      const upstreamChunks = await collect(miss.result);
+
+      const hit = await pipeline.createChatCompletionStream(pipeline.prepare(createRequest({ stream: true }), 'req-2'), 'req-2');
+      expect(hit.cacheStatus).toBe('hit');
+      expect(await collect(hit.result)).toEqual(upstreamChunks);
+      expect(client.createChatCompletionStream).toHaveBeenCalledTimes(1);
+      expect(client.createChatCompletion).not.toHaveBeenCalled();
+    });
+
+    test('should bypass the cache for sampled requests', async () => {
+      const result = await pipeline.createMessage(pipeline.prepare(createRequest({ temperature: 1 }), 'req-1'), 'req-1');
+      await pipeline.createMessage(pipeline.prepare(createRequest({ temperature: 1 }), 'req-2'), 'req-2');
+
+      expect(result.cacheStatus).toBeUndefined();
+      expect(client.createChatCompletion).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,228 @@
+import { jest, describe, beforeEach, afterEach, test, expect } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { APIError } from 'openai';
+import type { Response } from 'express';
+import type { ChatCompletion, ChatCompletionChunk, ChatCompletionCreateParams } from 'openai/resources/chat/completions';
+import { RecordingClient, ReplayClient, loadCassetteFixture } from '../src/cassette';
+import { UpstreamClient } from '../src/upstream';
+import { handleAnthropicStreamingResponseFromOpenAIStream } from '../src/streaming';
+import { Logger } from '../src/logger';
+
+// Mock logger for testing
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warning: jest.fn(),
+  error: jest.fn(),
+  critical: jest.fn(),
+} as unknown as Logger;
+
+const FIXTURES_DIRECTORY = path.join(process.cwd(), '__tests__', 'fixtures', 'cassettes');
+
+const params: ChatCompletionCreateParams = {
+  model: 'gpt-4o',
+  messages: [{ role: 'user', content: 'Say hello' }],
+  max_tokens: 100,
+  temperature: 0,
+};
+
+const completion = {
+  id: 'chatcmpl-1',
+  object: 'chat.completion',
+  created: 1700000000,
+  model: 'gpt-4o',
+  choices: [{ index: 0, message: { role: 'assistant', content: 'Hello!', refusal: null }, finish_reason: 'stop', logprobs: null }],
+} as ChatCompletion;
+
+function createChunk(content: string, finishReason: 'stop' | null = null): ChatCompletionChunk {
+  return {
+    id: 'chatcmpl-1',
+    object: 'chat.completion.chunk',
+    created: 1700000000,
+    model: 'gpt-4o',
+    choices: [{ index: 0, delta: { content }, finish_reason: finishReason }],
+  };
+}
+
+async function collect(stream: AsyncIterable<ChatCompletionChunk>): Promise<ChatCompletionChunk[]> {
+  const chunks: ChatCompletionChunk[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+// Collects the SSE events written by the streaming handler
+function createSSEResponse(): { res: Response; events: () => Array<{ event: string; data: Record<string, unknown> }> } {
+  let body = '';
+  const res = {
+    writeHead: jest.fn(),
+    write: (text: string) => {
+      body += text;
+      return true;
+    },
+    end: jest.fn(),
+  } as unknown as Response;
+  const events = () => body.trim().split('\n\n').map(block => {
+    const [eventLine, dataLine] = block.split('\n');
+    return { event: eventLine.replace('event: ', ''), data: JSON.parse(dataLine.replace('data: ', '')) };
+  });
+  return { res, events };
+}
+
+describe('Cassettes', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'cassette-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('should replay recorded completions and streams', async () => {
+    const upstream = {
+      createChatCompletion: jest.fn(async () => completion),
+      createChatCompletionStream: jest.fn(async () => (async function* () {
+        yield createChunk('Hel');
+        yield createChunk('lo!', 'stop');
+      })()),
+      listModels: jest.fn(async () => [{ id: 'gpt-4o', created: 1700000000 }]),
+    } as unknown as UpstreamClient;
+    const recorder = new RecordingClient(upstream, 'default', directory, mockLogger);
+
+    await recorder.createChatCompletion(params, 'req-1');
+    const recordedChunks = await collect(await recorder.createChatCompletionStream({ ...params, stream: true }, 'req-2'));
+    await recorder.listModels();
+
+    const fixtures = fs.readdirSync(directory).filter(name => !name.endsWith('.models.json'));
+    expect(fixtures).toHaveLength(2);
+    const streamFixture = fixtures.map(name => loadCassetteFixture(path.join(directory, name)))
+      .find(fixture => fixture.response.type === 'stream');
+    expect(streamFixture?.request).toEqual({ provider: 'default', params: { ...params, stream: true } });
+    expect(streamFixture?.response).toMatchObject({ chunks: [{ delay_ms: expect.any(Number) }, { delay_ms: expect.any(Number) }] });
+
+    const replay = new ReplayClient('default', directory, mockLogger);
+    expect(await replay.createChatCompletion(params, 'req-3')).toEqual(completion);
+    expect(await collect(await replay.createChatCompletionStream({ ...params, stream: true }, 'req-4'))).toEqual(recordedChunks);
+    expect(await replay.listModels()).toEqual([{ id: 'gpt-4o', created: 1700000000 }]);
+  });
+
+  test('should match fixtures regardless of the per-session user and replay scaled chunk delays', async () => {
+    const upstream = {
+      createChatCompletionStream: jest.fn(async () => (async function* () {
+        yield createChunk('Hel');
+        await new Promise(resolve => setTimeout(resolve, 100));
+        yield createChunk('lo!', 'stop');
+      })()),
+    } as unknown as UpstreamClient;
+    const recorder = new RecordingClient(upstream, 'default', directory, mockLogger);
+    await collect(await recorder.createChatCompletionStream({ ...params, stream: true, user: 'session-1' }, 'req-1'));
+
+    const nextSession = { ...params, stream: true, user: 'session-2' };
+    let startTime = Date.now();
+    await collect(await new ReplayClient('default', directory, mockLogger).createChatCompletionStream(nextSession, 'req-2'));
+    expect(Date.now() - startTime).toBeGreaterThanOrEqual(90);
+
+    startTime = Date.now();
+    await collect(await new ReplayClient('default', directory, mockLogger, 0).createChatCompletionStream(nextSession, 'req-3'));
+    expect(Date.now() - startTime).toBeLessThan(90);
+  });
+
+  test('should replay recorded upstream errors', async () => {
+    const upstream = {
+      createChatCompletion: jest.fn(async () => {
+        throw APIError.generate(429, { error: { message: 'Rate limit reached' } }, 'Rate limit reached', { 'retry-after': '2' });
+      }),
+    } as unknown as UpstreamClient;
+    const recorder = new RecordingClient(upstream, 'default', directory, mockLogger);
+    await expect(recorder.createChatCompletion(params, 'req-1')).rejects.toThrow('Rate limit reached');
+
+    const replayed = await new ReplayClient('default', directory, mockLogger).createChatCompletion(params, 'req-2')
+      .catch(error => error);
+    expect(replayed).toBeInstanceOf(APIError);
+    expect(replayed.status).toBe(429);
+    expect(replayed.headers['retry-after']).toBe('2');
+  });
+
+  test('should fail unmatched requests in replay mode', async () => {
+    const replay = new ReplayClient('default', directory, mockLogger);
+    const error = await replay.createChatCompletion(params, 'req-1').catch(error => error);
+
+    expect(error).toBeInstanceOf(APIError);
+    expect(error.status).toBe(404);
+    expect(error.message).toContain(`No recorded fixture in '${directory}' matches this request to provider 'default'`);
+    expect(mockLogger.warning).toHaveBeenCalledWith(expect.objectContaining({ event: 'cassette_miss' }));
+  });
+
+  describe('Recorded Streams', () => {
+    const fixtures = fs.readdirSync(FIXTURES_DIRECTORY).map(name => loadCassetteFixture(path.join(FIXTURES_DIRECTORY, name)));
+
+    test.each(fixtures.map(fixture => [fixture.request.params.model, fixture] as const))(
+      'should translate the recorded %s stream into ordered Anthropic events',
+      async (_model, fixture) => {
+        const replay = new ReplayClient(fixture.request.provider, FIXTURES_DIRECTORY, mockLogger, 0);
+        const stream = await replay.createChatCompletionStream(fixture.request.params, 'req-1');
+        const { res, events } = createSSEResponse();
+
+        await handleAnthropicStreamingResponseFromOpenAIStream(
+          stream, 'claude-sonnet-4-20250514', 10, 'req-1', Date.now(), res, mockLogger
+        );
+
+        const sequence = events();
+        expect(sequence[0].event).toBe('message_start');
+        expect(sequence.slice(-2).map(({ event }) => event)).toEqual(['message_delta', 'message_stop']);
+        expect(sequence.some(({ event }) => event === 'error')).toBe(false);
+
+        // Every delta falls between its block's start and stop, and blocks are numbered in order
+        const openBlocks = new Set<number>();
+        let nextIndex = 0;
+        for (const { event, data } of sequence) {
+          const index = data.index as number;
+          if (event === 'content_block_start') {
+            expect(index).toBe(nextIndex++);
+            openBlocks.add(index);
+          } else if (event === 'content_block_delta') {
+            expect(openBlocks.has(index)).toBe(true);
+          } else if (event === 'content_block_stop') {
+            expect(openBlocks.delete(index)).toBe(true);
+          }
+        }
+        expect(openBlocks.size).toBe(0);
+      }
+    );
+
+    test('should reassemble tool call arguments split across deltas', async () => {
+      const fixture = fixtures.find(fixture => fixture.request.params.tools)!;
+      const replay = new ReplayClient('default', FIXTURES_DIRECTORY, mockLogger, 0);
+      const { res, events } = createSSEResponse();
+
+      const result = await handleAnthropicStreamingResponseFromOpenAIStream(
+        await replay.createChatCompletionStream(fixture.request.params, 'req-1'),
+        'claude-sonnet-4-20250514', 10, 'req-1', Date.now(), res, mockLogger
+      );
+
+      const sequence = events();
+      const toolInputs = sequence
+        .filter(({ event }) => event === 'content_block_start')
+        .map(({ data }) => {
+          const index = data.index;
+          const json = sequence
+            .filter(({ event, data }) => event === 'content_block_delta' && data.index === index)
+            .map(({ data }) => (data.delta as { partial_json: string }).partial_json)
+            .join('');
+          return { name: (data.content_block as { name: string }).name, input: JSON.parse(json) };
+        });
+      expect(toolInputs).toEqual([
+        { name: 'get_weather', input: { city: 'Paris' } },
+        { name: 'get_weather', input: { city: 'Tokyo' } },
+      ]);
+      expect(result.stopReason).toBe('tool_use');
+      expect(result.usage).toMatchObject({ input_tokens: 62, output_tokens: 46 });
+    });
+  });
+});
@@ -1,6 +1,19 @@
 import { jest, describe, beforeEach, test, expect } from '@jest/globals';
-import { selectTargetModel } from '../src/converter';
+import type { ChatCompletion } from 'openai/resources/chat/completions';
+import {
+  selectTargetModel,
+  convertAnthropicToOpenAIMessages,
+  convertAnthropicThinkingToOpenAI,
+  convertOpenAIToAnthropicResponse,
+  convertOpenAIUsageToAnthropic,
+  convertAnthropicToolsToOpenAI,
+  convertAnthropicToolChoiceToOpenAI,
+  convertAnthropicRequestToOpenAIParams,
+  checkToolChoiceHonored,
+  PLACEHOLDER_THINKING_SIGNATURE,
+} from '../src/converter';
 import { Logger } from '../src/logger';
+import { MessagesRequest, ProviderConfig } from '../src/types';
 
 // Mock logger for testing
 const mockLogger = {
@@ -71,4 +84,372 @@ describe('Model Selection', () => {
     );
     expect(result).toBe('big-model');
   });
-});
\ No newline at end of file
+});
+
+describe('Extended Thinking', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should map thinking budgets to reasoning_effort', () => {
+    const provider: ProviderConfig = { baseUrl: 'https://api.deepseek.com/v1', reasoningFormat: 'reasoning_effort' };
+    expect(convertAnthropicThinkingToOpenAI({ type: 'enabled', budget_tokens: 1024 }, provider)).toEqual({ reasoning_effort: 'low' });
+    expect(convertAnthropicThinkingToOpenAI({ type: 'enabled', budget_tokens: 8000 }, provider)).toEqual({ reasoning_effort: 'medium' });
+    expect(convertAnthropicThinkingToOpenAI({ type: 'enabled', budget_tokens: 32000 }, provider)).toEqual({ reasoning_effort: 'high' });
+    expect(convertAnthropicThinkingToOpenAI({ type: 'disabled' }, provider)).toEqual({});
+  });
+
+  test('should not forward thinking to providers that did not opt in', () => {
+    const request: MessagesRequest = {
+      model: 'claude-sonnet-4-20250514',
+      max_tokens: 100,
+      stream: false,
+      thinking: { type: 'enabled', budget_tokens: 8000 },
+      messages: [{ role: 'user', content: 'Hi' }],
+    };
+
+    const params = convertAnthropicRequestToOpenAIParams(request, 'gpt-4o', undefined, mockLogger, 'test-request-id');
+
+    expect(params).not.toHaveProperty('reasoning_effort');
+    expect(params).not.toHaveProperty('reasoning');
+  });
+
+  test('should map thinking budgets to an OpenRouter reasoning object', () => {
+    const params = convertAnthropicThinkingToOpenAI(
+      { type: 'enabled', budget_tokens: 2048 },
+      { baseUrl: 'https://openrouter.ai/api/v1', reasoningFormat: 'openrouter' }
+    );
+    expect(params).toEqual({ reasoning: { max_tokens: 2048 } });
+  });
+
+  test('should convert upstream reasoning to a leading thinking block', () => {
+    const openaiResponse = {
+      id: 'chatcmpl-1',
+      object: 'chat.completion',
+      created: 0,
+      model: 'deepseek-reasoner',
+      choices: [{
+        index: 0,
+        finish_reason: 'stop',
+        logprobs: null,
+        message: { role: 'assistant', content: 'Answer', refusal: null, reasoning_content: 'Let me think.' },
+      }],
+    } as unknown as ChatCompletion;
+
+    const response = convertOpenAIToAnthropicResponse(openaiResponse, 'claude-sonnet-4', mockLogger, 'test-request-id');
+
+    expect(response.content[0]).toEqual({ type: 'thinking', thinking: 'Let me think.', signature: PLACEHOLDER_THINKING_SIGNATURE });
+    expect(response.content[1]).toEqual({ type: 'text', text: 'Answer' });
+  });
+
+  test('should drop replayed thinking blocks from assistant turns', () => {
+    const messages = convertAnthropicToOpenAIMessages([
+      { role: 'user', content: 'Hi' },
+      {
+        role: 'assistant',
+        content: [
+          { type: 'thinking', thinking: 'Reasoning', signature: 'sig' },
+          { type: 'redacted_thinking', data: 'opaque' },
+          { type: 'tool_use', id: 'toolu_1', name: 'Read', input: { path: 'a.ts' } },
+        ],
+      },
+    ], undefined, mockLogger, 'test-request-id');
+
+    expect(messages).toHaveLength(2);
+    expect(messages[1]).toMatchObject({ role: 'assistant', content: null });
+    expect(JSON.stringify(messages)).not.toContain('Reasoning');
+  });
+});
+
+describe('Prompt Caching', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should forward cache_control on system, message and tool blocks when enabled', () => {
+    const messages = convertAnthropicToOpenAIMessages(
+      [{ role: 'user', content: [{ type: 'text', text: 'Hello', cache_control: { type: 'ephemeral' } }] }],
+      [{ type: 'text', text: 'You are helpful.', cache_control: { type: 'ephemeral' } }],
+      mockLogger,
+      'test-request-id',
+      { forwardCacheControl: true }
+    );
+    const tools = convertAnthropicToolsToOpenAI(
+      [{ name: 'Read', input_schema: { type: 'object' }, cache_control: { type: 'ephemeral' } }],
+      { forwardCacheControl: true }
+    );
+
+    expect(messages[0]).toEqual({
+      role: 'system',
+      content: [{ type: 'text', text: 'You are helpful.', cache_control: { type: 'ephemeral' } }],
+    });
+    expect(messages[1]).toEqual({
+      role: 'user',
+      content: [{ type: 'text', text: 'Hello', cache_control: { type: 'ephemeral' } }],
+    });
+    expect(tools![0]).toMatchObject({ cache_control: { type: 'ephemeral' } });
+  });
+
+  test('should strip cache_control when forwarding is disabled', () => {
+    const messages = convertAnthropicToOpenAIMessages(
+      [{ role: 'user', content: [{ type: 'text', text: 'Hello', cache_control: { type: 'ephemeral' } }] }],
+      [{ type: 'text', text: 'You are helpful.', cache_control: { type: 'ephemeral' } }],
+      mockLogger,
+      'test-request-id'
+    );
+
+    expect(messages).toEqual([
+      { role: 'system', content: 'You are helpful.' },
+      { role: 'user', content: 'Hello' },
+    ]);
+  });
+
+  test('should split cached prompt tokens out of input_tokens', () => {
+    const usage = convertOpenAIUsageToAnthropic({
+      prompt_tokens: 1200,
+      completion_tokens: 50,
+      total_tokens: 1250,
+      prompt_tokens_details: { cached_tokens: 1000 },
+      cache_creation_input_tokens: 150,
+    } as never);
+
+    expect(usage).toEqual({
+      input_tokens: 50,
+      output_tokens: 50,
+      cache_creation_input_tokens: 150,
+      cache_read_input_tokens: 1000,
+    });
+  });
+});
+
+describe('Multimodal Content', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should send text and images as ordered content parts', () => {
+    const messages = convertAnthropicToOpenAIMessages([
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'Compare these screenshots:' },
+          { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'iVBORw0KGgo=' } },
+          { type: 'text', text: 'and' },
+          { type: 'image', source: { type: 'url', url: 'https://example.com/after.png' } },
+        ],
+      },
+    ], undefined, mockLogger, 'test-request-id');
+
+    expect(messages).toEqual([{
+      role: 'user',
+      content: [
+        { type: 'text', text: 'Compare these screenshots:' },
+        { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0KGgo=' } },
+        { type: 'text', text: 'and' },
+        { type: 'image_url', image_url: { url: 'https://example.com/after.png' } },
+      ],
+    }]);
+  });
+
+  test('should keep a single text part as plain string content', () => {
+    const messages = convertAnthropicToOpenAIMessages([
+      { role: 'user', content: [{ type: 'text', text: 'Hello' }] },
+    ], undefined, mockLogger, 'test-request-id');
+
+    expect(messages).toEqual([{ role: 'user', content: 'Hello' }]);
+  });
+
+  test('should warn about image sources that cannot be forwarded', () => {
+    const messages = convertAnthropicToOpenAIMessages([
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'Describe this' },
+          { type: 'image', source: { type: 'file', file_id: 'file_123' } },
+        ],
+      },
+    ], undefined, mockLogger, 'test-request-id');
+
+    expect(messages).toEqual([{ role: 'user', content: 'Describe this' }]);
+    expect(mockLogger.warning).toHaveBeenCalled();
+  });
+});
+
+describe('Document Content', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should inline plain-text documents with title and context', () => {
+    const messages = convertAnthropicToOpenAIMessages([
+      {
+        role: 'user',
+        content: [
+          {
+            type: 'document',
+            source: { type: 'text', media_type: 'text/plain', data: 'Quarterly revenue grew 12%.' },
+            title: 'Q3 Report',
+            context: 'Internal finance summary',
+          },
+          { type: 'text', text: 'Summarise the report.' },
+        ],
+      },
+    ], undefined, mockLogger, 'test-request-id');
+
+    expect(messages).toEqual([{
+      role: 'user',
+      content: [
+        {
+          type: 'text',
+          text: '<document title="Q3 Report">\n<context>\nInternal finance summary\n</context>\nQuarterly revenue grew 12%.\n</document>',
+        },
+        { type: 'text', text: 'Summarise the report.' },
+      ],
+    }]);
+  });
+
+  test('should send PDFs as file parts when the upstream supports them', () => {
+    const messages = convertAnthropicToOpenAIMessages([
+      {
+        role: 'user',
+        content: [{ type: 'document', source: { type: 'base64', media_type: 'application/pdf', data: 'JVBERi0=' }, title: 'spec.pdf' }],
+      },
+    ], undefined, mockLogger, 'test-request-id', { fileParts: true });
+
+    expect(messages).toEqual([{
+      role: 'user',
+      content: [{ type: 'file', file: { filename: 'spec.pdf', file_data: 'data:application/pdf;base64,JVBERi0=' } }],
+    }]);
+  });
+
+  test('should replace PDFs with a notice when file parts are unsupported', () => {
+    const messages = convertAnthropicToOpenAIMessages([
+      {
+        role: 'user',
+        content: [{ type: 'document', source: { type: 'base64', media_type: 'application/pdf', data: 'JVBERi0=' }, title: 'spec.pdf' }],
+      },
+    ], undefined, mockLogger, 'test-request-id');
+
+    expect(messages[0].content).toContain('<document title="spec.pdf">');
+    expect(messages[0].content).toContain('PDF document omitted');
+    expect(mockLogger.warning).toHaveBeenCalled();
+  });
+});
+
+describe('Tool Result Content', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  const screenshotTurn = [
+    {
+      role: 'assistant' as const,
+      content: [{ type: 'tool_use' as const, id: 'toolu_1', name: 'Screenshot', input: {} }],
+    },
+    {
+      role: 'user' as const,
+      content: [{
+        type: 'tool_result' as const,
+        tool_use_id: 'toolu_1',
+        content: [
+          { type: 'text', text: 'Captured window' },
+          { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'iVBORw0KGgo=' } },
+        ],
+      }],
+    },
+  ];
+
+  test('should re-send tool result images in a follow-up user message', () => {
+    const messages = convertAnthropicToOpenAIMessages(screenshotTurn, undefined, mockLogger, 'test-request-id');
+
+    expect(messages[1]).toEqual({
+      role: 'tool',
+      tool_call_id: 'toolu_1',
+      content: 'Captured window\n[image attached in the following user message]',
+    });
+    expect(messages[2]).toEqual({
+      role: 'user',
+      content: [
+        { type: 'text', text: 'Attachments returned by tool call toolu_1:' },
+        { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0KGgo=' } },
+      ],
+    });
+    expect(JSON.stringify(messages[1])).not.toContain('iVBORw0KGgo=');
+  });
+
+  test('should replace tool result images with a notice in placeholder mode', () => {
+    const messages = convertAnthropicToOpenAIMessages(
+      screenshotTurn,
+      undefined,
+      mockLogger,
+      'test-request-id',
+      { toolResultImages: 'placeholder' }
+    );
+
+    expect(messages[1].content).toBe('Captured window\n[image omitted: the upstream model cannot receive it in a tool result]');
+    expect(messages[2]).toEqual({ role: 'user', content: '' });
+  });
+
+  test('should mark error tool results consistently', () => {
+    const messages = convertAnthropicToOpenAIMessages([
+      {
+        role: 'user',
+        content: [
+          { type: 'tool_result', tool_use_id: 'toolu_1', content: 'File not found', is_error: true },
+          { type: 'tool_result', tool_use_id: 'toolu_2', content: '<tool_use_error>Denied</tool_use_error>', is_error: true },
+        ],
+      },
+    ], undefined, mockLogger, 'test-request-id');
+
+    expect(messages[0].content).toBe('<tool_use_error>File not found</tool_use_error>');
+    expect(messages[1].content).toBe('<tool_use_error>Denied</tool_use_error>');
+  });
+});
+
+describe('Tool Choice', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should map Anthropic tool_choice types to OpenAI', () => {
+    expect(convertAnthropicToolChoiceToOpenAI({ type: 'auto' })).toBe('auto');
+    expect(convertAnthropicToolChoiceToOpenAI({ type: 'any' })).toBe('required');
+    expect(convertAnthropicToolChoiceToOpenAI({ type: 'none' })).toBe('none');
+    expect(convertAnthropicToolChoiceToOpenAI({ type: 'tool', name: 'Read' })).toEqual({
+      type: 'function',
+      function: { name: 'Read' },
+    });
+  });
+
+  test("should approximate 'any' with 'auto' when the provider lacks 'required'", () => {
+    expect(convertAnthropicToolChoiceToOpenAI({ type: 'any' }, mockLogger, 'test-request-id', false)).toBe('auto');
+    expect(mockLogger.warning).toHaveBeenCalled();
+  });
+
+  test('should map disable_parallel_tool_use to parallel_tool_calls', () => {
+    const params = convertAnthropicRequestToOpenAIParams(
+      {
+        model: 'claude-sonnet-4',
+        max_tokens: 1024,
+        stream: false,
+        messages: [{ role: 'user', content: 'Read a.ts' }],
+        tools: [{ name: 'Read', input_schema: { type: 'object' } }],
+        tool_choice: { type: 'any', disable_parallel_tool_use: true },
+      },
+      'target-model'
+    );
+
+    expect(params.tool_choice).toBe('required');
+    expect(params.parallel_tool_calls).toBe(false);
+  });
+
+  test('should report forced tool choices the model did not follow', () => {
+    expect(checkToolChoiceHonored({ type: 'any' }, ['Read'], mockLogger, 'test-request-id')).toBe(true);
+    expect(checkToolChoiceHonored({ type: 'auto' }, [], mockLogger, 'test-request-id')).toBe(true);
+    expect(mockLogger.warning).not.toHaveBeenCalled();
+
+    expect(checkToolChoiceHonored({ type: 'any' }, [], mockLogger, 'test-request-id')).toBe(false);
+    expect(checkToolChoiceHonored({ type: 'tool', name: 'Write' }, ['Read'], mockLogger, 'test-request-id')).toBe(false);
+    expect(mockLogger.warning).toHaveBeenCalledTimes(2);
+  });
+});
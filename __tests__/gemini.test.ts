@@ -0,0 +1,282 @@
+import { jest, describe, beforeEach, test, expect } from '@jest/globals';
+import type { ChatCompletionChunk, ChatCompletionCreateParams } from 'openai/resources/chat/completions';
+import {
+  cleanJsonSchemaForGemini,
+  convertChatCompletionParamsToGemini,
+  convertGeminiResponseToChatCompletion,
+  convertGeminiStreamToChatCompletionChunks,
+  GeminiGenerateContentResponse
+} from '../src/gemini';
+import { Logger } from '../src/logger';
+
+// Mock logger for testing
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warning: jest.fn(),
+  error: jest.fn(),
+  critical: jest.fn(),
+} as unknown as Logger;
+
+async function* responseStream(responses: GeminiGenerateContentResponse[]): AsyncGenerator<GeminiGenerateContentResponse> {
+  for (const response of responses) {
+    yield response;
+  }
+}
+
+describe('Gemini Adapter', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should clean JSON Schema keywords Gemini rejects', () => {
+    const cleaned = cleanJsonSchemaForGemini({
+      $schema: 'http://json-schema.org/draft-07/schema#',
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        path: { type: 'string', format: 'uri', default: '.', examples: ['src'] },
+        when: { type: 'string', format: 'date-time' },
+        limit: { type: ['integer', 'null'], exclusiveMinimum: 0 },
+        mode: { const: 'fast' },
+        tags: { type: 'array', items: { type: 'string', additionalProperties: false } },
+      },
+      required: ['path', 'missing'],
+    });
+
+    expect(cleaned).toEqual({
+      type: 'object',
+      properties: {
+        path: { type: 'string' },
+        when: { type: 'string', format: 'date-time' },
+        limit: { type: 'integer', nullable: true },
+        mode: { enum: ['fast'] },
+        tags: { type: 'array', items: { type: 'string' } },
+      },
+      required: ['path'],
+    });
+  });
+
+  test('should inline local $defs references and cut off recursive ones', () => {
+    const cleaned = cleanJsonSchemaForGemini({
+      type: 'object',
+      properties: {
+        address: { $ref: '#/$defs/Address', description: 'Shipping address' },
+        owner: { $ref: '#/definitions/Person' },
+      },
+      required: ['address'],
+      $defs: {
+        Address: {
+          type: 'object',
+          properties: { street: { type: 'string' }, city: { type: 'string' } },
+          required: ['street', 'city'],
+        },
+      },
+      definitions: {
+        Person: { type: 'object', properties: { name: { type: 'string' }, manager: { $ref: '#/definitions/Person' } } },
+      },
+    }, mockLogger, 'test-request-id');
+
+    expect(cleaned.properties).toMatchObject({
+      address: {
+        type: 'object',
+        description: 'Shipping address',
+        properties: { street: { type: 'string' }, city: { type: 'string' } },
+        required: ['street', 'city'],
+      },
+      owner: { type: 'object', properties: { name: { type: 'string' }, manager: { type: 'object' } } },
+    });
+    expect(JSON.stringify(cleaned)).not.toContain('$ref');
+    expect(mockLogger.warning).toHaveBeenCalledTimes(1);
+    expect(mockLogger.warning).toHaveBeenCalledWith(expect.objectContaining({
+      event: 'parameter_unsupported',
+      data: { ref: '#/definitions/Person', ref_depth: 8 },
+    }));
+  });
+
+  test('should convert messages, images, tools and generation config to generateContent', () => {
+    const params = {
+      model: 'gemini-2.5-pro',
+      max_tokens: 512,
+      temperature: 0.7,
+      top_k: 20,
+      stop: ['END'],
+      reasoning: { max_tokens: 2048 },
+      messages: [
+        { role: 'system', content: 'Be brief.' },
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'Describe this.' },
+            { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0KGgo=' } },
+            { type: 'image_url', image_url: { url: 'https://example.com/cat.png' } },
+          ],
+        },
+        {
+          role: 'assistant',
+          content: 'Checking.',
+          tool_calls: [
+            { id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Paris"}' } },
+            { id: 'call_2', type: 'function', function: { name: 'get_time', arguments: '{}' } },
+          ],
+        },
+        { role: 'tool', tool_call_id: 'call_1', content: 'Sunny' },
+        { role: 'tool', tool_call_id: 'call_2', content: 'Noon' },
+      ],
+      tools: [
+        {
+          type: 'function',
+          function: {
+            name: 'get_weather',
+            description: 'Weather lookup',
+            parameters: { type: 'object', properties: { city: { type: 'string' } }, additionalProperties: false },
+          },
+        },
+        { type: 'function', function: { name: 'get_time', parameters: { type: 'object', properties: {} } } },
+      ],
+      tool_choice: { type: 'function', function: { name: 'get_weather' } },
+    } as unknown as ChatCompletionCreateParams;
+
+    const geminiRequest = convertChatCompletionParamsToGemini(params, mockLogger, 'test-request-id');
+
+    expect(geminiRequest.systemInstruction).toEqual({ parts: [{ text: 'Be brief.' }] });
+    expect(geminiRequest.contents).toEqual([
+      {
+        role: 'user',
+        parts: [{ text: 'Describe this.' }, { inlineData: { mimeType: 'image/png', data: 'iVBORw0KGgo=' } }],
+      },
+      {
+        role: 'model',
+        parts: [
+          { text: 'Checking.' },
+          { functionCall: { name: 'get_weather', args: { city: 'Paris' } } },
+          { functionCall: { name: 'get_time', args: {} } },
+        ],
+      },
+      {
+        role: 'user',
+        parts: [
+          { functionResponse: { name: 'get_weather', response: { content: 'Sunny' } } },
+          { functionResponse: { name: 'get_time', response: { content: 'Noon' } } },
+        ],
+      },
+    ]);
+    expect(geminiRequest.tools).toEqual([{
+      functionDeclarations: [
+        { name: 'get_weather', description: 'Weather lookup', parameters: { type: 'object', properties: { city: { type: 'string' } } } },
+        { name: 'get_time' },
+      ],
+    }]);
+    expect(geminiRequest.toolConfig).toEqual({
+      functionCallingConfig: { mode: 'ANY', allowedFunctionNames: ['get_weather'] },
+    });
+    expect(geminiRequest.generationConfig).toEqual({
+      temperature: 0.7,
+      topK: 20,
+      maxOutputTokens: 512,
+      stopSequences: ['END'],
+      thinkingConfig: { thinkingBudget: 2048, includeThoughts: true },
+    });
+    expect(mockLogger.warning).toHaveBeenCalledWith(expect.objectContaining({ event: 'image_format_unsupported' }));
+  });
+
+  test('should convert a response with thoughts, function calls and usage metadata', () => {
+    const completion = convertGeminiResponseToChatCompletion({
+      candidates: [{
+        content: {
+          role: 'model',
+          parts: [
+            { text: 'Need the weather.', thought: true },
+            { functionCall: { name: 'get_weather', args: { city: 'Paris' } } },
+          ],
+        },
+        finishReason: 'STOP',
+      }],
+      usageMetadata: { promptTokenCount: 30, candidatesTokenCount: 12, thoughtsTokenCount: 8, totalTokenCount: 50 },
+      modelVersion: 'gemini-2.5-pro',
+    }, 'gemini-2.5-pro');
+
+    const choice = completion.choices[0];
+    expect(choice.finish_reason).toBe('tool_calls');
+    expect(choice.message.content).toBeNull();
+    expect((choice.message as { reasoning_content?: string }).reasoning_content).toBe('Need the weather.');
+    expect(choice.message.tool_calls?.[0]).toMatchObject({
+      id: expect.stringMatching(/^call_/),
+      function: { name: 'get_weather', arguments: '{"city":"Paris"}' },
+    });
+    expect(completion.usage).toMatchObject({ prompt_tokens: 30, completion_tokens: 20, total_tokens: 50 });
+  });
+
+  test('should send the thought signature of a function call back on the next turn', () => {
+    const thoughtSignature = 'CiQB0e2Kb+/x9Q==';
+    const completion = convertGeminiResponseToChatCompletion({
+      candidates: [{
+        content: { role: 'model', parts: [{ functionCall: { name: 'get_weather', args: { city: 'Paris' } }, thoughtSignature }] },
+        finishReason: 'STOP',
+      }],
+    }, 'gemini-2.5-pro');
+    const toolCall = completion.choices[0].message.tool_calls![0];
+    expect(toolCall.id).toMatch(/^[a-zA-Z0-9_-]+$/);
+
+    const geminiRequest = convertChatCompletionParamsToGemini({
+      model: 'gemini-2.5-pro',
+      messages: [
+        { role: 'user', content: 'Weather in Paris?' },
+        { role: 'assistant', content: null, tool_calls: [toolCall] },
+        { role: 'tool', tool_call_id: toolCall.id, content: 'Sunny' },
+      ],
+    });
+
+    expect(geminiRequest.contents[1]).toEqual({
+      role: 'model',
+      parts: [{ functionCall: { name: 'get_weather', args: { city: 'Paris' } }, thoughtSignature }],
+    });
+    expect(geminiRequest.contents[2].parts[0].functionResponse?.name).toBe('get_weather');
+  });
+
+  test('should map MAX_TOKENS and safety finish reasons', () => {
+    const truncated = convertGeminiResponseToChatCompletion({
+      candidates: [{ content: { parts: [{ text: 'Partial' }] }, finishReason: 'MAX_TOKENS' }],
+    }, 'gemini-2.5-flash');
+    expect(truncated.choices[0].finish_reason).toBe('length');
+
+    const blocked = convertGeminiResponseToChatCompletion({ promptFeedback: { blockReason: 'SAFETY' } }, 'gemini-2.5-flash');
+    expect(blocked.choices[0].finish_reason).toBe('content_filter');
+  });
+
+  test('should convert streamGenerateContent responses to chat completion chunks', async () => {
+    const chunks: ChatCompletionChunk[] = [];
+    for await (const chunk of convertGeminiStreamToChatCompletionChunks(responseStream([
+      { candidates: [{ content: { role: 'model', parts: [{ text: 'Hmm', thought: true }] } }], usageMetadata: { promptTokenCount: 10 } },
+      { candidates: [{ content: { role: 'model', parts: [{ text: 'Checking' }] } }] },
+      {
+        candidates: [{
+          content: { role: 'model', parts: [{ functionCall: { name: 'a', args: {} } }, { functionCall: { name: 'b', args: { x: 1 } } }] },
+          finishReason: 'STOP',
+        }],
+        usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 5, totalTokenCount: 15 },
+      },
+    ]), 'gemini-2.5-pro')) {
+      chunks.push(chunk);
+    }
+
+    const deltas = chunks.filter(chunk => chunk.choices.length > 0).map(chunk => chunk.choices[0].delta);
+    expect(deltas[0]).toEqual({ reasoning_content: 'Hmm' });
+    expect(deltas[1]).toEqual({ content: 'Checking' });
+    expect(deltas[2].tool_calls?.[0]).toMatchObject({ index: 0, function: { name: 'a', arguments: '{}' } });
+    expect(deltas[3].tool_calls?.[0]).toMatchObject({ index: 1, function: { name: 'b', arguments: '{"x":1}' } });
+    expect(chunks[chunks.length - 2].choices[0].finish_reason).toBe('tool_calls');
+    expect(chunks[chunks.length - 1].usage).toMatchObject({ prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 });
+  });
+
+  test('should raise errors reported inside the stream', async () => {
+    const consume = async () => {
+      for await (const chunk of convertGeminiStreamToChatCompletionChunks(responseStream([
+        { error: { code: 429, message: 'Resource has been exhausted', status: 'RESOURCE_EXHAUSTED' } },
+      ]), 'gemini-2.5-pro')) {
+        expect(chunk).toBeDefined();
+      }
+    };
+    await expect(consume()).rejects.toMatchObject({ status: 429 });
+  });
+});
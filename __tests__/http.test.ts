@@ -0,0 +1,35 @@
+import { jest, describe, afterEach, test, expect } from '@jest/globals';
+import { getEventListeners } from 'events';
+import { APIUserAbortError } from 'openai';
+import { fetchUpstream } from '../src/http';
+
+const httpOptions = { headers: {}, timeoutMs: 1000 };
+
+describe('Upstream HTTP', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should not leave abort listeners on a signal shared by many attempts', async () => {
+    jest.spyOn(globalThis, 'fetch').mockImplementation(async () => new Response('{}', { status: 200 }));
+    const controller = new AbortController();
+
+    for (let attempt = 0; attempt < 20; attempt++) {
+      await fetchUpstream('http://upstream.test/api/chat', 'POST', {}, httpOptions, controller.signal);
+    }
+
+    expect(getEventListeners(controller.signal, 'abort')).toHaveLength(0);
+  });
+
+  test('should report a canceled request as an APIUserAbortError', async () => {
+    jest.spyOn(globalThis, 'fetch').mockImplementation((_url, init) => new Promise((_resolve, reject) => {
+      init?.signal?.addEventListener('abort', () => reject(new Error('aborted')), { once: true });
+    }));
+    const controller = new AbortController();
+
+    const request = fetchUpstream('http://upstream.test/api/chat', 'POST', {}, httpOptions, controller.signal);
+    controller.abort();
+
+    await expect(request).rejects.toBeInstanceOf(APIUserAbortError);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, test, expect } from '@jest/globals';
+import winston from 'winston';
+import { ProxyMetrics, Histogram } from '../src/metrics';
+import { Logger } from '../src/logger';
+import { LogEvent } from '../src/types';
+
+describe('Proxy Metrics', () => {
+  test('should render counters in the Prometheus text format', () => {
+    const metrics = new ProxyMetrics(['claude-sonnet-4-20250514', 'model "quoted"']);
+    metrics.observeRequest('/v1/messages', 'claude-sonnet-4-20250514', 200, 1500);
+    metrics.observeRequest('/v1/messages', 'claude-sonnet-4-20250514', 200, 300);
+    metrics.observeRequest('/v1/messages', 'model "quoted"', 429, 5);
+
+    const output = metrics.render();
+    expect(output).toContain('# TYPE anthropic_proxy_requests_total counter');
+    expect(output).toContain('anthropic_proxy_requests_total{route="/v1/messages",model="claude-sonnet-4-20250514",status="200"} 2');
+    expect(output).toContain('anthropic_proxy_requests_total{route="/v1/messages",model="model \\"quoted\\"",status="429"} 1');
+    expect(output.endsWith('\n')).toBe(true);
+  });
+
+  test('should label client models outside the catalog as other', () => {
+    const metrics = new ProxyMetrics(['claude-sonnet-4-20250514']);
+    const countSeries = () => metrics.render().split('\n')
+      .filter(line => line.startsWith('anthropic_proxy_requests_total{')).length;
+
+    metrics.observeRequest('/v1/messages', 'claude-sonnet-4-20250514', 200, 100);
+    metrics.observeRequest('/v1/messages', 'made-up-model-0', 200, 100);
+    const seriesBefore = countSeries();
+    for (let index = 1; index <= 1000; index++) {
+      metrics.observeRequest('/v1/messages', `made-up-model-${index}`, 200, 100);
+    }
+
+    expect(countSeries()).toBe(seriesBefore);
+    expect(metrics.requests.get({ route: '/v1/messages', model: 'other', status: '200' })).toBe(1001);
+    expect(metrics.requests.get({ route: '/v1/messages', model: 'claude-sonnet-4-20250514', status: '200' })).toBe(1);
+  });
+
+  test('should render cumulative histogram buckets', () => {
+    const histogram = new Histogram('test_seconds', 'Test histogram.', [1, 5]);
+    histogram.observe({ provider: 'default' }, 0.5);
+    histogram.observe({ provider: 'default' }, 3);
+    histogram.observe({ provider: 'default' }, 10);
+
+    expect(histogram.render().split('\n')).toEqual([
+      '# HELP test_seconds Test histogram.',
+      '# TYPE test_seconds histogram',
+      'test_seconds_bucket{provider="default",le="1"} 1',
+      'test_seconds_bucket{provider="default",le="5"} 2',
+      'test_seconds_bucket{provider="default",le="+Inf"} 3',
+      'test_seconds_sum{provider="default"} 13.5',
+      'test_seconds_count{provider="default"} 3',
+    ]);
+  });
+
+  test('should count tokens by type', () => {
+    const metrics = new ProxyMetrics();
+    metrics.observeTokens('default', 'gpt-4o', { input_tokens: 100, output_tokens: 20, cache_read_input_tokens: 50 });
+
+    expect(metrics.tokens.get({ provider: 'default', model: 'gpt-4o', type: 'input' })).toBe(100);
+    expect(metrics.tokens.get({ provider: 'default', model: 'gpt-4o', type: 'output' })).toBe(20);
+    expect(metrics.tokens.get({ provider: 'default', model: 'gpt-4o', type: 'cache_read' })).toBe(50);
+  });
+
+  test('should count logged warnings, retries and fallbacks regardless of the log level', () => {
+    const metrics = new ProxyMetrics();
+    const logger = new Logger(winston.createLogger({ level: 'error', silent: true }));
+    logger.addListener((level, record) => metrics.observeLogRecord(level, record));
+
+    logger.warning({ event: LogEvent.TOOL_ARGS_PARSE_FAILURE, message: 'bad args' });
+    logger.warning({ event: LogEvent.TOOL_ARGS_PARSE_FAILURE, message: 'bad args' });
+    logger.warning({
+      event: LogEvent.UPSTREAM_RETRY,
+      message: 'retrying',
+      data: { provider: 'default', target_model: 'gpt-4o', attempt: 1 },
+    });
+    logger.warning({
+      event: LogEvent.UPSTREAM_FALLBACK,
+      message: 'falling back',
+      data: { failed_provider: 'default', failed_model: 'gpt-4o', next_provider: 'backup', next_model: 'gpt-4o-mini' },
+    });
+    logger.info({ event: LogEvent.REQUEST_COMPLETED, message: 'done' });
+
+    expect(metrics.warnings.get({ event: 'tool_args_parse_failure' })).toBe(2);
+    expect(metrics.warnings.get({ event: 'request_completed' })).toBe(0);
+    expect(metrics.retries.get({ provider: 'default', model: 'gpt-4o' })).toBe(1);
+    expect(metrics.fallbacks.get({ provider: 'default', model: 'gpt-4o' })).toBe(1);
+  });
+});
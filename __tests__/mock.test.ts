@@ -0,0 +1,187 @@
+import { jest, describe, beforeAll, afterAll, beforeEach, test, expect } from '@jest/globals';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { APIError, APIUserAbortError } from 'openai';
+import type { Response } from 'express';
+import { startMockUpstream, DEFAULT_MOCK_UPSTREAM_OPTIONS, MOCK_SCENARIOS } from '../src/mock';
+import { MessagesPipeline } from '../src/pipeline';
+import { ProviderRegistry } from '../src/providers';
+import { handleAnthropicStreamingResponseFromOpenAIStream } from '../src/streaming';
+import { Logger } from '../src/logger';
+import { Config, MessagesRequest, ProxyConfigFileSchema } from '../src/types';
+
+// Mock logger for testing
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warning: jest.fn(),
+  error: jest.fn(),
+  critical: jest.fn(),
+} as unknown as Logger;
+
+const weatherTool = {
+  name: 'get_weather',
+  description: 'Get the current weather',
+  input_schema: {
+    type: 'object',
+    properties: { city: { type: 'string' }, unit: { type: 'string', enum: ['celsius', 'fahrenheit'] } },
+    required: ['city'],
+  },
+};
+
+function createRequest(model: string, overrides: Partial<MessagesRequest> = {}): MessagesRequest {
+  return {
+    model,
+    max_tokens: 100,
+    messages: [{ role: 'user', content: 'Repeat after me: the quick brown fox' }],
+    ...overrides,
+  };
+}
+
+// Collects the SSE events written by the streaming handler
+function createSSEResponse(): { res: Response; events: () => Array<{ event: string; data: Record<string, unknown> }> } {
+  let body = '';
+  const res = {
+    writeHead: jest.fn(),
+    write: (text: string) => {
+      body += text;
+      return true;
+    },
+    end: jest.fn(),
+  } as unknown as Response;
+  const events = () => body.trim().split('\n\n').map(block => {
+    const [eventLine, dataLine] = block.split('\n');
+    return { event: eventLine.replace('event: ', ''), data: JSON.parse(dataLine.replace('data: ', '')) };
+  });
+  return { res, events };
+}
+
+describe('Mock Upstream', () => {
+  let server: Server;
+  let pipeline: MessagesPipeline;
+
+  beforeAll(async () => {
+    server = await startMockUpstream({ ...DEFAULT_MOCK_UPSTREAM_OPTIONS, delayMs: 5 }, 0, '127.0.0.1');
+    const { port } = server.address() as AddressInfo;
+    // Client model names are routed to the mock scenario of the same name
+    const configFile = ProxyConfigFileSchema.parse({
+      retry: { maxAttempts: 1 },
+      routes: MOCK_SCENARIOS.map(scenario => ({ match: scenario, target: `mock-${scenario}` })),
+    });
+    const config: Config = {
+      host: '127.0.0.1',
+      port: 8080,
+      baseUrl: `http://127.0.0.1:${port}/v1`,
+      openaiApiKey: 'sk-test',
+      bigModelName: 'mock-echo',
+      smallModelName: 'mock-echo',
+      referrerUrl: 'http://localhost:8080/AnthropicProxy',
+      logLevel: 'INFO',
+      reload: false,
+      appName: 'AnthropicProxy',
+      appVersion: '1.0.0',
+      ...configFile,
+    };
+    pipeline = new MessagesPipeline(config, new ProviderRegistry(config, mockLogger), mockLogger);
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  async function streamMessage(request: MessagesRequest) {
+    const prepared = pipeline.prepare({ ...request, stream: true }, 'req-1');
+    const { result } = await pipeline.createChatCompletionStream(prepared, 'req-1');
+    const { res, events } = createSSEResponse();
+    const streamingResult = await handleAnthropicStreamingResponseFromOpenAIStream(
+      result, request.model, prepared.estimatedInputTokens, 'req-1', Date.now(), res, mockLogger, { toolChoice: request.tool_choice }
+    );
+    return { events: events(), streamingResult };
+  }
+
+  function getToolUses(events: Array<{ event: string; data: Record<string, unknown> }>) {
+    return events
+      .filter(({ event, data }) => event === 'content_block_start' && (data.content_block as { type: string }).type === 'tool_use')
+      .map(({ data }) => {
+        const json = events
+          .filter(({ event, data: delta }) => event === 'content_block_delta' && delta.index === data.index)
+          .map(({ data: delta }) => (delta.delta as { partial_json: string }).partial_json)
+          .join('');
+        return { ...(data.content_block as { id: string; name: string }), input: JSON.parse(json) };
+      });
+  }
+
+  test('should echo the last user message', async () => {
+    const { message } = await pipeline.createMessage(pipeline.prepare(createRequest('echo'), 'req-1'), 'req-1');
+
+    expect(message.content).toEqual([{ type: 'text', text: 'Repeat after me: the quick brown fox' }]);
+    expect(message.stop_reason).toBe('end_turn');
+    expect(message.usage.output_tokens).toBeGreaterThan(0);
+  });
+
+  test('should stream fixed text word by word, with a delay in the slow scenario', async () => {
+    const startTime = Date.now();
+    const { events, streamingResult } = await streamMessage(createRequest('slow'));
+
+    const text = events
+      .filter(({ event }) => event === 'content_block_delta')
+      .map(({ data }) => (data.delta as { text: string }).text)
+      .join('');
+    expect(text).toBe(DEFAULT_MOCK_UPSTREAM_OPTIONS.text);
+    expect(Date.now() - startTime).toBeGreaterThanOrEqual(5 * text.split(' ').length);
+    expect(streamingResult.stopReason).toBe('end_turn');
+    expect(streamingResult.usage.output_tokens).toBeGreaterThan(0);
+  });
+
+  test('should reassemble tool calls split across many deltas', async () => {
+    const { events, streamingResult } = await streamMessage(createRequest('tool-calls', { tools: [weatherTool] }));
+
+    expect(getToolUses(events)).toEqual([
+      { type: 'tool_use', id: 'call_mock_0', name: 'get_weather', input: { city: 'mock', unit: 'celsius' } },
+    ]);
+    expect(events.filter(({ event }) => event === 'content_block_delta').length).toBeGreaterThan(5);
+    expect(streamingResult.stopReason).toBe('tool_use');
+  });
+
+  test('should keep tool arguments that arrive before the tool-call id', async () => {
+    const { events } = await streamMessage(createRequest('late-tool-id', { tools: [weatherTool] }));
+
+    expect(getToolUses(events)).toEqual([
+      { type: 'tool_use', id: 'call_mock_0', name: 'get_weather', input: { city: 'mock', unit: 'celsius' } },
+    ]);
+    expect(mockLogger.warning).toHaveBeenCalledWith(expect.objectContaining({ event: 'tool_id_placeholder' }));
+    expect(mockLogger.warning).not.toHaveBeenCalledWith(expect.objectContaining({ event: 'tool_args_parse_failure' }));
+  });
+
+  test('should end the Anthropic stream with an error event when the upstream drops mid-stream', async () => {
+    const { events, streamingResult } = await streamMessage(createRequest('stream-error'));
+
+    expect(events.filter(({ event }) => event === 'content_block_delta')).toHaveLength(3);
+    expect(events[events.length - 1].event).toBe('error');
+    expect(streamingResult.stopReason).toBe('error');
+  });
+
+  test('should cancel a slow non-streaming request when the client disconnects', async () => {
+    const clientAbortController = new AbortController();
+    // The slow scenario takes five deltas of 5ms each to answer
+    setTimeout(() => clientAbortController.abort(), 10);
+
+    const error = await pipeline.createMessage(pipeline.prepare(createRequest('slow'), 'req-1'), 'req-1', clientAbortController.signal)
+      .catch(error => error);
+
+    expect(error).toBeInstanceOf(APIUserAbortError);
+  });
+
+  test('should answer the rate-limit scenario with a 429 and Retry-After', async () => {
+    const error = await pipeline.createMessage(pipeline.prepare(createRequest('rate-limit'), 'req-1'), 'req-1')
+      .catch(error => error);
+
+    expect(error).toBeInstanceOf(APIError);
+    expect(error.status).toBe(429);
+    expect(error.headers['retry-after']).toBe('1');
+  });
+});
@@ -0,0 +1,111 @@
+import { jest, describe, beforeEach, test, expect } from '@jest/globals';
+import { ModelCatalog, KNOWN_CLAUDE_MODELS } from '../src/models';
+import { resolveModelRoute } from '../src/routing';
+import { ProviderRegistry } from '../src/providers';
+import { Logger } from '../src/logger';
+import { Config, ProxyConfigFile, ProxyConfigFileSchema } from '../src/types';
+
+// Mock logger for testing
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warning: jest.fn(),
+  error: jest.fn(),
+  critical: jest.fn(),
+} as unknown as Logger;
+
+function buildConfig(configFile: ProxyConfigFile): Config {
+  return {
+    host: '127.0.0.1',
+    port: 8080,
+    baseUrl: 'http://localhost:4000',
+    openaiApiKey: 'sk-test',
+    bigModelName: 'big-model',
+    smallModelName: 'small-model',
+    referrerUrl: 'http://localhost:8080/AnthropicProxy',
+    logLevel: 'INFO',
+    reload: false,
+    appName: 'AnthropicProxy',
+    appVersion: '1.0.0',
+    ...configFile,
+  };
+}
+
+// Only the parts of the registry that the catalog uses
+function buildProviders(upstreamModels: Record<string, string[] | Error>): ProviderRegistry {
+  return {
+    names: () => Object.keys(upstreamModels),
+    getClient: (name: string) => ({
+      listModels: async () => {
+        const models = upstreamModels[name];
+        if (models instanceof Error) {
+          throw models;
+        }
+        return models.map(id => ({ id, created: 1700000000 }));
+      },
+    }),
+  } as unknown as ProviderRegistry;
+}
+
+describe('Models Endpoint', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should list known Claude models annotated with their upstream targets', async () => {
+    const config = buildConfig(ProxyConfigFileSchema.parse({
+      providers: { openrouter: { baseUrl: 'https://openrouter.ai/api/v1' } },
+      routes: [
+        { match: 'claude-opus-*', matchType: 'glob', target: 'gpt-4o', fallbacks: [{ target: 'o3', provider: 'openrouter' }] },
+        { match: 'my-custom-claude', target: 'llama-3' },
+      ],
+    }));
+    const catalog = new ModelCatalog(config, buildProviders({ default: [] }), mockLogger);
+
+    const models = await catalog.list('test-request-id');
+    expect(models).toHaveLength(KNOWN_CLAUDE_MODELS.length + 1);
+    expect(models[0]).toMatchObject({ type: 'model', id: 'my-custom-claude', upstream_target: 'default/llama-3' });
+
+    const opus = models.find(model => model.id === 'claude-opus-4-20250514')!;
+    expect(opus.upstream_target).toBe('default/gpt-4o');
+    expect(opus.fallback_targets).toEqual(['openrouter/o3']);
+
+    const haiku = models.find(model => model.id === 'claude-3-5-haiku-20241022')!;
+    expect(haiku.upstream_target).toBe('default/small-model');
+  });
+
+  test('should retrieve IDs accepted by pattern routes and reject unknown IDs', async () => {
+    const config = buildConfig(ProxyConfigFileSchema.parse({
+      routes: [{ match: '^claude-experimental-.*$', matchType: 'regex', target: 'qwen3' }],
+    }));
+    const catalog = new ModelCatalog(config, buildProviders({ default: [] }), mockLogger);
+
+    expect(await catalog.retrieve('claude-experimental-2', 'test-request-id')).toMatchObject({
+      id: 'claude-experimental-2',
+      upstream_target: 'default/qwen3',
+    });
+    expect(await catalog.retrieve('gpt-4o', 'test-request-id')).toBeUndefined();
+  });
+
+  test('should merge upstream models under provider aliases and skip failing providers', async () => {
+    const config = buildConfig(ProxyConfigFileSchema.parse({
+      providers: { local: { baseUrl: 'http://localhost:11434/v1' } },
+      models: { includeUpstream: true },
+    }));
+    const catalog = new ModelCatalog(
+      config,
+      buildProviders({ default: new Error('models endpoint not available'), local: ['qwen3:32b', 'org/model'] }),
+      mockLogger
+    );
+
+    const models = await catalog.list('test-request-id');
+    const aliases = models.slice(KNOWN_CLAUDE_MODELS.length).map(model => model.id);
+    expect(aliases).toEqual(['local/qwen3:32b', 'local/org/model']);
+    expect(mockLogger.warning).toHaveBeenCalledTimes(1);
+
+    expect(resolveModelRoute('local/org/model', config, mockLogger, 'test-request-id')).toEqual({
+      targetModel: 'org/model',
+      providerName: 'local',
+    });
+  });
+});
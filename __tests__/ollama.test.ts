@@ -0,0 +1,160 @@
+import { jest, describe, beforeEach, test, expect } from '@jest/globals';
+import type { ChatCompletionChunk, ChatCompletionCreateParams } from 'openai/resources/chat/completions';
+import {
+  convertChatCompletionParamsToOllama,
+  convertOllamaResponseToChatCompletion,
+  convertOllamaStreamToChatCompletionChunks,
+  OllamaChatResponse
+} from '../src/ollama';
+import { convertAnthropicRequestToOpenAIParams } from '../src/converter';
+import { Logger } from '../src/logger';
+import { MessagesRequest, ProviderConfig } from '../src/types';
+
+// Mock logger for testing
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warning: jest.fn(),
+  error: jest.fn(),
+  critical: jest.fn(),
+} as unknown as Logger;
+
+const ollamaProvider: ProviderConfig = {
+  baseUrl: 'http://localhost:11434',
+  protocol: 'ollama',
+  options: { num_ctx: 32768, temperature: 0.2 },
+  keepAlive: '30m',
+};
+
+async function* responseStream(responses: OllamaChatResponse[]): AsyncGenerator<OllamaChatResponse> {
+  for (const response of responses) {
+    yield response;
+  }
+}
+
+describe('Ollama Adapter', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should pass top_k through for Ollama providers only', () => {
+    const request: MessagesRequest = {
+      model: 'claude-3-5-haiku-20241022',
+      max_tokens: 100,
+      top_k: 40,
+      stream: false,
+      messages: [{ role: 'user', content: 'Hi' }],
+    };
+
+    const ollamaParams = convertAnthropicRequestToOpenAIParams(request, 'qwen3', ollamaProvider, mockLogger, 'test-request-id');
+    expect((ollamaParams as { top_k?: number }).top_k).toBe(40);
+    expect(mockLogger.warning).not.toHaveBeenCalled();
+
+    const openaiParams = convertAnthropicRequestToOpenAIParams(
+      request, 'gpt-4o', { baseUrl: 'https://api.openai.com/v1' }, mockLogger, 'test-request-id'
+    );
+    expect((openaiParams as { top_k?: number }).top_k).toBeUndefined();
+    expect(mockLogger.warning).toHaveBeenCalledWith(expect.objectContaining({ event: 'parameter_unsupported' }));
+  });
+
+  test('should convert messages, raw base64 images, tools and options to /api/chat', () => {
+    const params = {
+      model: 'qwen3:32b',
+      max_tokens: 512,
+      temperature: 0.7,
+      top_k: 20,
+      reasoning_effort: 'low',
+      messages: [
+        { role: 'system', content: 'Be brief.' },
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'Describe this.' },
+            { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0KGgo=' } },
+            { type: 'image_url', image_url: { url: 'https://example.com/cat.png' } },
+          ],
+        },
+        {
+          role: 'assistant',
+          content: null,
+          tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Paris"}' } }],
+        },
+        { role: 'tool', tool_call_id: 'call_1', content: 'Sunny' },
+      ],
+      tools: [{ type: 'function', function: { name: 'get_weather', parameters: { type: 'object' } } }],
+    } as ChatCompletionCreateParams;
+
+    const ollamaRequest = convertChatCompletionParamsToOllama(params, ollamaProvider, mockLogger, 'test-request-id');
+
+    expect(ollamaRequest.messages).toEqual([
+      { role: 'system', content: 'Be brief.' },
+      { role: 'user', content: 'Describe this.', images: ['iVBORw0KGgo='] },
+      { role: 'assistant', content: '', tool_calls: [{ function: { name: 'get_weather', arguments: { city: 'Paris' } } }] },
+      { role: 'tool', content: 'Sunny', tool_name: 'get_weather' },
+    ]);
+    expect(ollamaRequest.options).toEqual({ num_ctx: 32768, temperature: 0.7, top_k: 20, num_predict: 512 });
+    expect(ollamaRequest.keep_alive).toBe('30m');
+    expect(ollamaRequest.think).toBe(true);
+    expect(ollamaRequest.tools).toEqual(params.tools);
+    expect(mockLogger.warning).toHaveBeenCalledWith(expect.objectContaining({ event: 'image_format_unsupported' }));
+  });
+
+  test('should convert a chat response with thinking and tool calls', () => {
+    const completion = convertOllamaResponseToChatCompletion({
+      model: 'qwen3:32b',
+      created_at: '2025-01-01T00:00:00Z',
+      message: {
+        role: 'assistant',
+        content: '',
+        thinking: 'Need the weather.',
+        tool_calls: [{ function: { name: 'get_weather', arguments: { city: 'Paris' } } }],
+      },
+      done: true,
+      done_reason: 'stop',
+      prompt_eval_count: 30,
+      eval_count: 12,
+    });
+
+    const choice = completion.choices[0];
+    expect(choice.finish_reason).toBe('tool_calls');
+    expect((choice.message as { reasoning_content?: string }).reasoning_content).toBe('Need the weather.');
+    expect(choice.message.tool_calls?.[0]).toMatchObject({
+      id: expect.stringMatching(/^call_/),
+      function: { name: 'get_weather', arguments: '{"city":"Paris"}' },
+    });
+    expect(completion.usage).toEqual({ prompt_tokens: 30, completion_tokens: 12, total_tokens: 42 });
+  });
+
+  test('should convert the NDJSON stream to chat completion chunks', async () => {
+    const base = { model: 'qwen3:32b', created_at: '2025-01-01T00:00:00Z' };
+    const chunks: ChatCompletionChunk[] = [];
+    for await (const chunk of convertOllamaStreamToChatCompletionChunks(responseStream([
+      { ...base, message: { role: 'assistant', content: '', thinking: 'Hmm' }, done: false },
+      { ...base, message: { role: 'assistant', content: 'Checking' }, done: false },
+      { ...base, message: { role: 'assistant', content: '', tool_calls: [{ function: { name: 'a', arguments: {} } }] }, done: false },
+      { ...base, message: { role: 'assistant', content: '', tool_calls: [{ function: { name: 'b', arguments: { x: 1 } } }] }, done: false },
+      { ...base, message: { role: 'assistant', content: '' }, done: true, done_reason: 'stop', prompt_eval_count: 10, eval_count: 5 },
+    ]))) {
+      chunks.push(chunk);
+    }
+
+    const deltas = chunks.filter(chunk => chunk.choices.length > 0).map(chunk => chunk.choices[0].delta);
+    expect(deltas[0]).toEqual({ reasoning_content: 'Hmm' });
+    expect(deltas[1]).toEqual({ content: 'Checking' });
+    expect(deltas[2].tool_calls?.[0]).toMatchObject({ index: 0, function: { name: 'a', arguments: '{}' } });
+    expect(deltas[3].tool_calls?.[0]).toMatchObject({ index: 1, function: { name: 'b', arguments: '{"x":1}' } });
+    expect(chunks[chunks.length - 2].choices[0].finish_reason).toBe('tool_calls');
+    expect(chunks[chunks.length - 1].usage).toEqual({ prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 });
+  });
+
+  test('should raise errors reported inside the stream', async () => {
+    const consume = async () => {
+      for await (const chunk of convertOllamaStreamToChatCompletionChunks(responseStream([
+        { model: 'qwen3:32b', created_at: '', done: false, error: 'model runner crashed' },
+      ]))) {
+        expect(chunk).toBeDefined();
+      }
+    };
+    await expect(consume()).rejects.toMatchObject({ status: 500 });
+  });
+});
@@ -0,0 +1,127 @@
+import { jest, describe, test, expect } from '@jest/globals';
+import type { Request, Response } from 'express';
+import { APIUserAbortError } from 'openai';
+import { RateLimiter, RateLimitClient, setRateLimitHeaders } from '../src/ratelimit';
+
+function createClock(start: number = 0) {
+  const clock = { time: start, now: () => clock.time };
+  return clock;
+}
+
+const client: RateLimitClient = {
+  id: 'key:team-a',
+  limits: { requestsPerMinute: 2, inputTokensPerMinute: 1000, outputTokensPerMinute: 600 },
+};
+
+describe('Rate Limiter', () => {
+  test('should limit requests per minute and refill continuously', () => {
+    const clock = createClock();
+    const limiter = new RateLimiter({}, clock.now);
+
+    expect(limiter.acquire(client, 10).allowed).toBe(true);
+    expect(limiter.acquire(client, 10).allowed).toBe(true);
+
+    const limited = limiter.acquire(client, 10);
+    expect(limited).toMatchObject({ allowed: false, limitedBy: 'requests', retryAfterSeconds: 30 });
+    expect(limited.status.requests?.remaining).toBe(0);
+
+    clock.time += 30000;
+    expect(limiter.acquire(client, 10).allowed).toBe(true);
+  });
+
+  test('should limit estimated input tokens, but let an oversized request through a full bucket', () => {
+    const clock = createClock();
+    const limiter = new RateLimiter({}, clock.now);
+    const tokenClient = { id: 'ip:1.2.3.4', limits: { inputTokensPerMinute: 1000 } };
+
+    expect(limiter.acquire(tokenClient, 5000).allowed).toBe(true);
+    clock.time += 60000;
+    // The oversized request is still charged in full, so the bucket stays in debt for five minutes
+    expect(limiter.acquire(tokenClient, 10).allowed).toBe(false);
+    clock.time += 4 * 60000;
+    expect(limiter.acquire(tokenClient, 800).allowed).toBe(true);
+
+    const limited = limiter.acquire(tokenClient, 500);
+    expect(limited).toMatchObject({ allowed: false, limitedBy: 'input-tokens', retryAfterSeconds: 18 });
+  });
+
+  test('should charge output tokens after the response and block while in debt', () => {
+    const clock = createClock();
+    const limiter = new RateLimiter({}, clock.now);
+    const outputClient = { id: 'key:b', limits: { outputTokensPerMinute: 600 } };
+
+    expect(limiter.acquire(outputClient, 10).allowed).toBe(true);
+    limiter.recordUsage(outputClient, { inputTokens: 10, outputTokens: 900 }, 10);
+
+    const limited = limiter.acquire(outputClient, 10);
+    expect(limited).toMatchObject({ allowed: false, limitedBy: 'output-tokens', retryAfterSeconds: 31 });
+
+    clock.time += 31000;
+    expect(limiter.acquire(outputClient, 10).allowed).toBe(true);
+  });
+
+  test('should identify clients by API key with per-key overrides, else by IP', () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 60, inputTokensPerMinute: 1000 });
+
+    const keyed = limiter.identify({ apiKey: { name: 'ci', keyHash: '', rateLimits: { requestsPerMinute: 5 } } } as unknown as Request);
+    expect(keyed).toEqual({ id: 'key:ci', limits: { requestsPerMinute: 5, inputTokensPerMinute: 1000 } });
+
+    const anonymous = limiter.identify({ ip: '10.0.0.1' } as unknown as Request);
+    expect(anonymous).toEqual({ id: 'ip:10.0.0.1', limits: { requestsPerMinute: 60, inputTokensPerMinute: 1000 } });
+  });
+
+  test('should make batch requests wait for the limit instead of failing', async () => {
+    jest.useFakeTimers();
+    try {
+      const limiter = new RateLimiter({ requestsPerMinute: 60 });
+      const batchClient = limiter.identifyKey(undefined, 'batches');
+      expect(batchClient).toEqual({ id: 'batches', limits: { requestsPerMinute: 60 } });
+      for (let i = 0; i < 60; i++) {
+        limiter.acquire(batchClient, 10);
+      }
+
+      let acquired = false;
+      const waiting = limiter.waitToAcquire(batchClient, 10).then(() => { acquired = true; });
+      await jest.advanceTimersByTimeAsync(900);
+      expect(acquired).toBe(false);
+
+      // One request refills every second
+      await jest.advanceTimersByTimeAsync(100);
+      await waiting;
+      expect(acquired).toBe(true);
+      expect(limiter.status(batchClient).requests?.remaining).toBe(0);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  test('should stop waiting without charging the limits once the signal aborts', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 1 });
+    const batchClient = limiter.identifyKey(undefined, 'batches');
+    limiter.acquire(batchClient, 10);
+    const controller = new AbortController();
+
+    const waiting = limiter.waitToAcquire(batchClient, 10, controller.signal);
+    controller.abort();
+
+    await expect(waiting).rejects.toBeInstanceOf(APIUserAbortError);
+    expect(limiter.status(batchClient).requests?.remaining).toBe(0);
+  });
+
+  test('should set Anthropic rate limit headers with the most restrictive token limit', () => {
+    const clock = createClock(Date.parse('2025-01-01T00:00:00Z'));
+    const limiter = new RateLimiter({}, clock.now);
+    limiter.acquire(client, 900);
+
+    const res = { setHeader: jest.fn() };
+    setRateLimitHeaders(res as unknown as Response, limiter.status(client));
+
+    const headers = Object.fromEntries(res.setHeader.mock.calls);
+    expect(headers['anthropic-ratelimit-requests-remaining']).toBe('1');
+    expect(headers['anthropic-ratelimit-requests-reset']).toBe('2025-01-01T00:00:30.000Z');
+    expect(headers['anthropic-ratelimit-input-tokens-remaining']).toBe('100');
+    expect(headers['anthropic-ratelimit-output-tokens-remaining']).toBe('600');
+    expect(headers['anthropic-ratelimit-tokens-limit']).toBe('1000');
+    expect(headers['anthropic-ratelimit-tokens-remaining']).toBe('100');
+  });
+});
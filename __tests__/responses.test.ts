@@ -0,0 +1,194 @@
+import { jest, describe, beforeEach, test, expect } from '@jest/globals';
+import type { ChatCompletionChunk, ChatCompletionCreateParams } from 'openai/resources/chat/completions';
+import type { Response as ResponsesResponse, ResponseStreamEvent } from 'openai/resources/responses/responses';
+import {
+  convertChatCompletionParamsToResponses,
+  convertResponseToChatCompletion,
+  convertResponsesStreamToChatCompletionChunks
+} from '../src/responses';
+import { Logger } from '../src/logger';
+
+// Mock logger for testing
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warning: jest.fn(),
+  error: jest.fn(),
+  critical: jest.fn(),
+} as unknown as Logger;
+
+function buildResponse(overrides: Partial<ResponsesResponse>): ResponsesResponse {
+  return {
+    id: 'resp_123',
+    object: 'response',
+    created_at: 1700000000,
+    model: 'gpt-5',
+    status: 'completed',
+    output: [],
+    output_text: '',
+    error: null,
+    incomplete_details: null,
+    instructions: null,
+    metadata: null,
+    parallel_tool_calls: true,
+    temperature: null,
+    tool_choice: 'auto',
+    tools: [],
+    top_p: null,
+    usage: {
+      input_tokens: 100,
+      input_tokens_details: { cached_tokens: 40 },
+      output_tokens: 20,
+      output_tokens_details: { reasoning_tokens: 5 },
+      total_tokens: 120,
+    },
+    ...overrides,
+  } as ResponsesResponse;
+}
+
+async function* eventStream(events: unknown[]): AsyncGenerator<ResponseStreamEvent> {
+  for (const event of events) {
+    yield event as ResponseStreamEvent;
+  }
+}
+
+describe('Responses API Adapter', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should convert Chat Completions parameters to a Responses request', () => {
+    const params: ChatCompletionCreateParams = {
+      model: 'gpt-5',
+      max_tokens: 1024,
+      temperature: 0.5,
+      reasoning_effort: 'medium',
+      stop: ['END'],
+      messages: [
+        { role: 'system', content: 'Be brief.' },
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'What is in this image?' },
+            { type: 'image_url', image_url: { url: 'data:image/png;base64,abc' } },
+          ],
+        },
+        {
+          role: 'assistant',
+          content: 'Let me check.',
+          tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'lookup', arguments: '{"q":"x"}' } }],
+        },
+        { role: 'tool', tool_call_id: 'call_1', content: 'result' },
+      ],
+      tools: [{ type: 'function', function: { name: 'lookup', description: 'Look up', parameters: { type: 'object' } } }],
+      tool_choice: { type: 'function', function: { name: 'lookup' } },
+    };
+
+    const responsesParams = convertChatCompletionParamsToResponses(params, mockLogger, 'test-request-id');
+
+    expect(responsesParams).toMatchObject({
+      model: 'gpt-5',
+      instructions: 'Be brief.',
+      max_output_tokens: 1024,
+      temperature: 0.5,
+      store: false,
+      reasoning: { effort: 'medium', summary: 'auto' },
+      tool_choice: { type: 'function', name: 'lookup' },
+      tools: [{ type: 'function', name: 'lookup', description: 'Look up', parameters: { type: 'object' }, strict: false }],
+    });
+    expect(responsesParams.input).toEqual([
+      {
+        role: 'user',
+        content: [
+          { type: 'input_text', text: 'What is in this image?' },
+          { type: 'input_image', image_url: 'data:image/png;base64,abc', detail: 'auto' },
+        ],
+      },
+      { role: 'assistant', content: 'Let me check.' },
+      { type: 'function_call', call_id: 'call_1', name: 'lookup', arguments: '{"q":"x"}' },
+      { type: 'function_call_output', call_id: 'call_1', output: 'result' },
+    ]);
+    expect(mockLogger.warning).toHaveBeenCalledWith(expect.objectContaining({ event: 'parameter_unsupported' }));
+  });
+
+  test('should convert output items to a chat completion with reasoning and tool calls', () => {
+    const completion = convertResponseToChatCompletion(buildResponse({
+      output: [
+        { type: 'reasoning', id: 'rs_1', summary: [{ type: 'summary_text', text: 'Thinking it over.' }] },
+        {
+          type: 'message',
+          id: 'msg_1',
+          role: 'assistant',
+          status: 'completed',
+          content: [{ type: 'output_text', text: 'Calling the tool.', annotations: [] }],
+        },
+        { type: 'function_call', call_id: 'call_1', name: 'lookup', arguments: '{"q":"x"}' },
+      ],
+    }));
+
+    const choice = completion.choices[0];
+    expect(choice.finish_reason).toBe('tool_calls');
+    expect(choice.message.content).toBe('Calling the tool.');
+    expect((choice.message as { reasoning_content?: string }).reasoning_content).toBe('Thinking it over.');
+    expect(choice.message.tool_calls).toEqual([
+      { id: 'call_1', type: 'function', function: { name: 'lookup', arguments: '{"q":"x"}' } },
+    ]);
+    expect(completion.usage).toMatchObject({ prompt_tokens: 100, completion_tokens: 20, prompt_tokens_details: { cached_tokens: 40 } });
+  });
+
+  test('should report incomplete responses as length-limited', () => {
+    const completion = convertResponseToChatCompletion(buildResponse({
+      status: 'incomplete',
+      incomplete_details: { reason: 'max_output_tokens' },
+    }));
+    expect(completion.choices[0].finish_reason).toBe('length');
+  });
+
+  test('should convert stream events to chat completion chunks', async () => {
+    const chunks: ChatCompletionChunk[] = [];
+    const events = [
+      { type: 'response.created', response: buildResponse({ status: 'in_progress' }) },
+      { type: 'response.reasoning_summary_text.delta', item_id: 'rs_1', output_index: 0, summary_index: 0, delta: 'Plan' },
+      { type: 'response.reasoning_summary_text.delta', item_id: 'rs_1', output_index: 0, summary_index: 1, delta: 'More' },
+      { type: 'response.output_text.delta', item_id: 'msg_1', output_index: 1, content_index: 0, delta: 'Hi' },
+      {
+        type: 'response.output_item.added',
+        output_index: 2,
+        item: { type: 'function_call', call_id: 'call_1', name: 'lookup', arguments: '' },
+      },
+      { type: 'response.function_call_arguments.delta', item_id: 'fc_1', output_index: 2, delta: '{"q":' },
+      { type: 'response.function_call_arguments.delta', item_id: 'fc_1', output_index: 2, delta: '"x"}' },
+      { type: 'response.completed', response: buildResponse({}) },
+    ];
+    for await (const chunk of convertResponsesStreamToChatCompletionChunks(eventStream(events))) {
+      chunks.push(chunk);
+    }
+
+    const deltas = chunks.filter(chunk => chunk.choices.length > 0).map(chunk => chunk.choices[0].delta);
+    expect(deltas[0]).toEqual({ reasoning_content: 'Plan' });
+    expect(deltas[1]).toEqual({ reasoning_content: '\n\nMore' });
+    expect(deltas[2]).toEqual({ content: 'Hi' });
+    expect(deltas[3].tool_calls).toEqual([
+      { index: 0, id: 'call_1', type: 'function', function: { name: 'lookup', arguments: '' } },
+    ]);
+    expect(deltas[4].tool_calls).toEqual([{ index: 0, function: { arguments: '{"q":' } }]);
+
+    const finishChunk = chunks.find(chunk => chunk.choices[0]?.finish_reason);
+    expect(finishChunk?.choices[0].finish_reason).toBe('tool_calls');
+    expect(chunks[chunks.length - 1].usage).toMatchObject({ prompt_tokens: 100, completion_tokens: 20 });
+    expect(chunks.every(chunk => chunk.id === 'resp_123')).toBe(true);
+  });
+
+  test('should raise stream errors as upstream API errors', async () => {
+    const events = [
+      { type: 'response.created', response: buildResponse({ status: 'in_progress' }) },
+      { type: 'error', code: 'rate_limit_exceeded', message: 'Slow down', param: null },
+    ];
+    const consume = async () => {
+      for await (const chunk of convertResponsesStreamToChatCompletionChunks(eventStream(events))) {
+        expect(chunk).toBeDefined();
+      }
+    };
+    await expect(consume()).rejects.toMatchObject({ status: 429 });
+  });
+});
@@ -0,0 +1,109 @@
+import { jest, describe, beforeEach, test, expect } from '@jest/globals';
+import { APIError, APIUserAbortError } from 'openai';
+import { withRetry, getRetryAfterMs, computeBackoffDelayMs, isRetryableError } from '../src/retry';
+import { RetryPolicy } from '../src/types';
+import { Logger } from '../src/logger';
+
+// Mock logger for testing
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warning: jest.fn(),
+  error: jest.fn(),
+  critical: jest.fn(),
+} as unknown as Logger;
+
+const fastPolicy: RetryPolicy = { maxAttempts: 3, initialDelayMs: 1, maxDelayMs: 50 };
+
+function apiError(status: number, headers: Record<string, string> = {}): APIError {
+  return APIError.generate(status, { error: { message: `status ${status}` } }, `status ${status}`, headers);
+}
+
+describe('Upstream Retry', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should classify retryable errors', () => {
+    expect(isRetryableError(apiError(429))).toBe(true);
+    expect(isRetryableError(apiError(503))).toBe(true);
+    expect(isRetryableError(apiError(400))).toBe(false);
+    expect(isRetryableError(new Error('boom'))).toBe(false);
+  });
+
+  test('should parse Retry-After and x-ratelimit-reset headers', () => {
+    const now = 1_700_000_000_000;
+    expect(getRetryAfterMs(apiError(429, { 'retry-after': '2' }), now)).toBe(2000);
+    expect(getRetryAfterMs(apiError(429, { 'retry-after-ms': '150' }), now)).toBe(150);
+    expect(getRetryAfterMs(apiError(429, { 'retry-after': new Date(now + 3000).toUTCString() }), now)).toBe(3000);
+    expect(getRetryAfterMs(apiError(429, { 'x-ratelimit-reset': String(now + 1500) }), now)).toBe(1500);
+    expect(getRetryAfterMs(apiError(429, { 'x-ratelimit-reset-requests': '1m30s' }), now)).toBe(90000);
+    expect(getRetryAfterMs(apiError(429), now)).toBeUndefined();
+  });
+
+  test('should cap jittered exponential backoff at maxDelayMs', () => {
+    const policy: RetryPolicy = { maxAttempts: 5, initialDelayMs: 100, maxDelayMs: 300 };
+    expect(computeBackoffDelayMs(1, policy, () => 1)).toBe(100);
+    expect(computeBackoffDelayMs(2, policy, () => 1)).toBe(200);
+    expect(computeBackoffDelayMs(4, policy, () => 1)).toBe(300);
+    expect(computeBackoffDelayMs(4, policy, () => 0.5)).toBe(150);
+  });
+
+  test('should retry transient failures until success', async () => {
+    let calls = 0;
+    const result = await withRetry(async () => {
+      calls += 1;
+      if (calls < 3) {
+        throw apiError(503);
+      }
+      return 'ok';
+    }, fastPolicy, mockLogger, 'test-request-id');
+
+    expect(result).toBe('ok');
+    expect(calls).toBe(3);
+    expect(mockLogger.warning).toHaveBeenCalledTimes(2);
+  });
+
+  test('should give up after maxAttempts', async () => {
+    const call = jest.fn(async () => {
+      throw apiError(429, { 'retry-after-ms': '1' });
+    });
+
+    await expect(withRetry(call, fastPolicy, mockLogger, 'test-request-id')).rejects.toMatchObject({ status: 429 });
+    expect(call).toHaveBeenCalledTimes(3);
+  });
+
+  test('should not retry when Retry-After exceeds maxDelayMs', async () => {
+    const call = jest.fn(async () => {
+      throw apiError(429, { 'retry-after': '60' });
+    });
+
+    await expect(withRetry(call, fastPolicy, mockLogger, 'test-request-id')).rejects.toMatchObject({ status: 429 });
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+
+  test('should stop waiting between attempts as soon as the signal aborts', async () => {
+    const controller = new AbortController();
+    const call = jest.fn(async () => {
+      throw apiError(503, { 'retry-after': '10' });
+    });
+    const policy: RetryPolicy = { maxAttempts: 3, initialDelayMs: 1, maxDelayMs: 60000 };
+
+    const startTime = Date.now();
+    const result = withRetry(call, policy, mockLogger, 'test-request-id', undefined, controller.signal);
+    setTimeout(() => controller.abort(), 20);
+
+    await expect(result).rejects.toBeInstanceOf(APIUserAbortError);
+    expect(Date.now() - startTime).toBeLessThan(5000);
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+
+  test('should not retry client errors', async () => {
+    const call = jest.fn(async () => {
+      throw apiError(400);
+    });
+
+    await expect(withRetry(call, fastPolicy, mockLogger, 'test-request-id')).rejects.toMatchObject({ status: 400 });
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+});
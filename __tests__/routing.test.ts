@@ -0,0 +1,125 @@
+import { jest, describe, beforeEach, test, expect } from '@jest/globals';
+import type { ChatCompletionCreateParams } from 'openai/resources/chat/completions';
+import { resolveModelRoute, applyRouteDefaults, matchesModelRoute } from '../src/routing';
+import { Logger } from '../src/logger';
+import { Config, ModelRoute, ProxyConfigFileSchema } from '../src/types';
+
+// Mock logger for testing
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warning: jest.fn(),
+  error: jest.fn(),
+  critical: jest.fn(),
+} as unknown as Logger;
+
+function buildConfig(routes: ModelRoute[]): Config {
+  return {
+    host: '127.0.0.1',
+    port: 8080,
+    baseUrl: 'http://localhost:4000',
+    openaiApiKey: 'sk-test',
+    bigModelName: 'big-model',
+    smallModelName: 'small-model',
+    referrerUrl: 'http://localhost:8080/AnthropicProxy',
+    logLevel: 'INFO',
+    reload: false,
+    appName: 'AnthropicProxy',
+    appVersion: '1.0.0',
+    routes,
+  };
+}
+
+describe('Model Routing', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should match exact, glob and regex routes', () => {
+    const routes = ProxyConfigFileSchema.parse({
+      routes: [
+        { match: 'claude-opus-4', target: 'opus-target' },
+        { match: 'claude-sonnet-4*', matchType: 'glob', target: 'sonnet-target' },
+        { match: '^claude-3-5-haiku-\\d+$', matchType: 'regex', target: 'haiku-target' },
+      ],
+    }).routes!;
+
+    expect(matchesModelRoute(routes[0], 'CLAUDE-OPUS-4')).toBe(true);
+    expect(matchesModelRoute(routes[0], 'claude-opus-4-20250514')).toBe(false);
+    expect(matchesModelRoute(routes[1], 'claude-sonnet-4-20250514')).toBe(true);
+    expect(matchesModelRoute(routes[2], 'claude-3-5-haiku-20241022')).toBe(true);
+    expect(matchesModelRoute(routes[2], 'claude-3-5-haiku-latest')).toBe(false);
+  });
+
+  test('should use the first matching route in order', () => {
+    const config = buildConfig(ProxyConfigFileSchema.parse({
+      routes: [
+        { match: 'claude-opus-4*', matchType: 'glob', target: 'opus-target' },
+        { match: 'claude-*', matchType: 'glob', target: 'catch-all-target' },
+      ],
+    }).routes!);
+
+    expect(resolveModelRoute('claude-opus-4-20250514', config, mockLogger, 'test-request-id').targetModel).toBe('opus-target');
+    expect(resolveModelRoute('claude-sonnet-4-20250514', config, mockLogger, 'test-request-id').targetModel).toBe('catch-all-target');
+  });
+
+  test('should fall back to big/small selection when no route matches', () => {
+    const config = buildConfig([]);
+    const resolved = resolveModelRoute('claude-3-opus-20240229', config, mockLogger, 'test-request-id');
+    expect(resolved.targetModel).toBe('big-model');
+    expect(resolved.route).toBeUndefined();
+  });
+
+  test('should resolve the provider of the matched route', () => {
+    const config = buildConfig(ProxyConfigFileSchema.parse({
+      providers: { local: { baseUrl: 'http://localhost:8000/v1' } },
+      routes: [{ match: '*haiku*', matchType: 'glob', target: 'qwen2.5-coder', provider: 'local' }],
+    }).routes!);
+
+    expect(resolveModelRoute('claude-3-5-haiku-20241022', config, mockLogger, 'test-request-id').providerName).toBe('local');
+    expect(resolveModelRoute('claude-opus-4', config, mockLogger, 'test-request-id').providerName).toBe('default');
+  });
+
+  test('should reject routes that reference unknown providers', () => {
+    const result = ProxyConfigFileSchema.safeParse({
+      routes: [{ match: 'claude-opus-4', target: 'x', provider: 'missing' }],
+    });
+    expect(result.success).toBe(false);
+  });
+
+  test('should reject invalid regex routes', () => {
+    const result = ProxyConfigFileSchema.safeParse({
+      routes: [{ match: '([', matchType: 'regex', target: 'x' }],
+    });
+    expect(result.success).toBe(false);
+  });
+
+  test('should cap max_tokens and override sampling parameters', () => {
+    const [route] = ProxyConfigFileSchema.parse({
+      routes: [{ match: 'claude-opus-4', target: 'opus-target', maxTokensCap: 4096, temperature: 0.2 }],
+    }).routes!;
+    const params: ChatCompletionCreateParams = {
+      model: 'opus-target',
+      messages: [],
+      max_tokens: 32000,
+      temperature: 1,
+    };
+
+    applyRouteDefaults(params, route, mockLogger, 'test-request-id');
+
+    expect(params.max_tokens).toBe(4096);
+    expect(params.temperature).toBe(0.2);
+    expect(params.top_p).toBeUndefined();
+  });
+
+  test('should not raise max_tokens below the cap', () => {
+    const [route] = ProxyConfigFileSchema.parse({
+      routes: [{ match: 'claude-opus-4', target: 'opus-target', maxTokensCap: 4096 }],
+    }).routes!;
+    const params: ChatCompletionCreateParams = { model: 'opus-target', messages: [], max_tokens: 1024 };
+
+    applyRouteDefaults(params, route, mockLogger, 'test-request-id');
+
+    expect(params.max_tokens).toBe(1024);
+  });
+});
@@ -0,0 +1,230 @@
+import { jest, describe, beforeEach, test, expect } from '@jest/globals';
+import type { Response } from 'express';
+import type { ChatCompletionChunk } from 'openai/resources/chat/completions';
+import { handleAnthropicStreamingResponseFromOpenAIStream, DEFAULT_STREAMING_CONFIG } from '../src/streaming';
+import { PLACEHOLDER_THINKING_SIGNATURE } from '../src/converter';
+import { Logger } from '../src/logger';
+
+// Mock logger for testing
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warning: jest.fn(),
+  error: jest.fn(),
+  critical: jest.fn(),
+} as unknown as Logger;
+
+function createChunk(content: string, delta: ChatCompletionChunk.Choice['delta'] = { content }): ChatCompletionChunk {
+  return {
+    id: 'chatcmpl-1',
+    object: 'chat.completion.chunk',
+    created: 1700000000,
+    model: 'gpt-4o',
+    choices: [{ index: 0, delta, finish_reason: null }],
+  };
+}
+
+function createReasoningChunk(reasoning: string): ChatCompletionChunk {
+  return createChunk('', { reasoning_content: reasoning } as ChatCompletionChunk.Choice['delta']);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// A stalled upstream only ends once its request is cancelled
+function waitForAbort(signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => signal.addEventListener('abort', () => resolve(), { once: true }));
+}
+
+function createResponse(): { res: Response; written: () => string } {
+  let body = '';
+  const res = {
+    writeHead: jest.fn(),
+    write: (text: string) => {
+      body += text;
+      return true;
+    },
+    end: jest.fn(),
+  } as unknown as Response;
+  return { res, written: () => body };
+}
+
+describe('Streaming Response', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should stop reading the upstream stream once the client disconnects', async () => {
+    const clientAbortController = new AbortController();
+    let upstreamClosed = false;
+    let chunksProduced = 0;
+    async function* upstream(): AsyncGenerator<ChatCompletionChunk> {
+      try {
+        for (const word of ['The ', 'quick ', 'brown ', 'fox']) {
+          chunksProduced += 1;
+          yield createChunk(word);
+          if (chunksProduced === 2) {
+            clientAbortController.abort();
+          }
+        }
+      } finally {
+        upstreamClosed = true;
+      }
+    }
+    const { res, written } = createResponse();
+
+    const result = await handleAnthropicStreamingResponseFromOpenAIStream(
+      upstream(), 'claude-sonnet-4-20250514', 10, 'req-1', Date.now(), res, mockLogger,
+      { signal: clientAbortController.signal }
+    );
+
+    expect(chunksProduced).toBe(3);
+    expect(upstreamClosed).toBe(true);
+    expect(result.clientDisconnected).toBe(true);
+    expect(result.usage.output_tokens).toBeGreaterThan(0);
+    expect(written()).not.toContain('event: error');
+    expect(written()).not.toContain('event: message_stop');
+    expect(mockLogger.info).toHaveBeenCalledWith(expect.objectContaining({
+      event: 'client_disconnected',
+      data: expect.objectContaining({ status_code: 499, input_tokens: 10, output_tokens: result.usage.output_tokens }),
+    }));
+    expect(mockLogger.error).not.toHaveBeenCalled();
+  });
+
+  test('should treat an upstream stream that ends quietly on abort as a disconnect', async () => {
+    const clientAbortController = new AbortController();
+    // Like the OpenAI SDK, which stops iterating without an error once its request is aborted
+    async function* upstream(): AsyncGenerator<ChatCompletionChunk> {
+      yield createChunk('Hello');
+      clientAbortController.abort();
+    }
+    const { res, written } = createResponse();
+
+    const result = await handleAnthropicStreamingResponseFromOpenAIStream(
+      upstream(), 'claude-sonnet-4-20250514', 10, 'req-1', Date.now(), res, mockLogger,
+      { signal: clientAbortController.signal }
+    );
+
+    expect(result.clientDisconnected).toBe(true);
+    expect(written()).not.toContain('event: message_stop');
+  });
+
+  test('should report upstream failures as an error event', async () => {
+    async function* upstream(): AsyncGenerator<ChatCompletionChunk> {
+      yield createChunk('Hello');
+      throw new Error('upstream connection reset');
+    }
+    const { res, written } = createResponse();
+
+    const result = await handleAnthropicStreamingResponseFromOpenAIStream(
+      upstream(), 'claude-sonnet-4-20250514', 10, 'req-1', Date.now(), res, mockLogger, { signal: new AbortController().signal }
+    );
+
+    expect(result.clientDisconnected).toBe(false);
+    expect(result.stopReason).toBe('error');
+    expect(written()).toContain('event: error');
+  });
+
+  test('should sign the thinking block and drop reasoning that arrives after the answer started', async () => {
+    async function* upstream(): AsyncGenerator<ChatCompletionChunk> {
+      yield createReasoningChunk('Let me think.');
+      yield createChunk('Answer');
+      yield createReasoningChunk('An afterthought.');
+      yield createChunk(' done');
+    }
+    const { res, written } = createResponse();
+
+    await handleAnthropicStreamingResponseFromOpenAIStream(
+      upstream(), 'claude-sonnet-4-20250514', 10, 'req-1', Date.now(), res, mockLogger
+    );
+
+    const events = written().trim().split('\n\n').map(block => JSON.parse(block.split('\n')[1].replace('data: ', '')));
+    const blockEvents = events.filter(event => event.type.startsWith('content_block'));
+    expect(blockEvents.map(event => [event.type, event.index, event.delta?.type ?? event.content_block?.type])).toEqual([
+      ['content_block_start', 0, 'thinking'],
+      ['content_block_delta', 0, 'thinking_delta'],
+      ['content_block_delta', 0, 'signature_delta'],
+      ['content_block_stop', 0, undefined],
+      ['content_block_start', 1, 'text'],
+      ['content_block_delta', 1, 'text_delta'],
+      ['content_block_delta', 1, 'text_delta'],
+      ['content_block_stop', 1, undefined],
+    ]);
+    expect(blockEvents[2].delta.signature).toBe(PLACEHOLDER_THINKING_SIGNATURE);
+    expect(written()).not.toContain('An afterthought.');
+  });
+
+  describe('Keepalive', () => {
+    test('should send pings while the upstream is silent', async () => {
+      async function* upstream(): AsyncGenerator<ChatCompletionChunk> {
+        await sleep(100);
+        yield createChunk('Hello');
+      }
+      const { res, written } = createResponse();
+
+      await handleAnthropicStreamingResponseFromOpenAIStream(
+        upstream(), 'claude-sonnet-4-20250514', 10, 'req-1', Date.now(), res, mockLogger,
+        { streaming: { ...DEFAULT_STREAMING_CONFIG, pingIntervalSeconds: 0.02 } }
+      );
+
+      const events = written().match(/^event: .+$/gm) || [];
+      const firstContent = events.indexOf('event: content_block_start');
+      // One ping follows message_start; the rest were sent while waiting for the first chunk
+      expect(events.slice(0, firstContent).filter(event => event === 'event: ping').length).toBeGreaterThanOrEqual(2);
+      expect(events[events.length - 1]).toBe('event: message_stop');
+    });
+
+    test('should end the stream with an error event when no content arrives in time', async () => {
+      const upstreamAbortController = new AbortController();
+      let upstreamClosed = false;
+      async function* upstream(): AsyncGenerator<ChatCompletionChunk> {
+        await waitForAbort(upstreamAbortController.signal);
+        upstreamClosed = true;
+      }
+      const cancelUpstream = jest.fn(() => upstreamAbortController.abort());
+      const { res, written } = createResponse();
+
+      const result = await handleAnthropicStreamingResponseFromOpenAIStream(
+        upstream(), 'claude-sonnet-4-20250514', 10, 'req-1', Date.now(), res, mockLogger,
+        { streaming: { ...DEFAULT_STREAMING_CONFIG, firstTokenTimeoutSeconds: 0.05 }, cancelUpstream }
+      );
+      await sleep(0);
+
+      expect(result.stopReason).toBe('error');
+      expect(cancelUpstream).toHaveBeenCalledTimes(1);
+      expect(upstreamClosed).toBe(true);
+      expect(written()).toContain('event: error');
+      expect(written()).toContain('The upstream sent no content within 0.05s of the stream starting.');
+      expect(written()).not.toContain('event: message_stop');
+      expect(mockLogger.warning).toHaveBeenCalledWith(expect.objectContaining({ event: 'stream_timeout' }));
+      expect(res.end).toHaveBeenCalled();
+    });
+
+    test('should end the stream with an error event when the upstream stalls mid-stream', async () => {
+      const upstreamAbortController = new AbortController();
+      async function* upstream(): AsyncGenerator<ChatCompletionChunk> {
+        yield createChunk('Hello');
+        await waitForAbort(upstreamAbortController.signal);
+      }
+      const { res, written } = createResponse();
+
+      const result = await handleAnthropicStreamingResponseFromOpenAIStream(
+        upstream(), 'claude-sonnet-4-20250514', 10, 'req-1', Date.now(), res, mockLogger,
+        {
+          streaming: { ...DEFAULT_STREAMING_CONFIG, stallTimeoutSeconds: 0.05 },
+          cancelUpstream: () => upstreamAbortController.abort(),
+        }
+      );
+
+      expect(result.stopReason).toBe('error');
+      expect(result.timeToFirstTokenMs).not.toBeNull();
+      expect(written()).toContain('"text":"Hello"');
+      expect(written()).toContain('nothing was received for 0.05s');
+      expect(mockLogger.error).toHaveBeenCalledWith(expect.objectContaining({
+        event: 'request_failure',
+        data: expect.objectContaining({ status_code: 504 }),
+      }));
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, beforeAll, beforeEach, test, expect } from '@jest/globals';
+import { EventEmitter } from 'events';
+import type { Request, Response } from 'express';
+import { context, propagation, trace, SpanStatusCode } from '@opentelemetry/api';
+import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks';
+import { W3CTraceContextPropagator } from '@opentelemetry/core';
+import { BasicTracerProvider, InMemorySpanExporter, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-base';
+import { createTracingMiddleware, getTraceHeaders, withSpan } from '../src/tracing';
+import { convertAnthropicRequestToOpenAIParams } from '../src/converter';
+
+const exporter = new InMemorySpanExporter();
+
+describe('Tracing', () => {
+  beforeAll(() => {
+    context.setGlobalContextManager(new AsyncLocalStorageContextManager().enable());
+    propagation.setGlobalPropagator(new W3CTraceContextPropagator());
+    trace.setGlobalTracerProvider(new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] }));
+  });
+
+  beforeEach(() => {
+    exporter.reset();
+  });
+
+  test('should nest spans across async calls and record errors', async () => {
+    await expect(withSpan('outer', {}, async () => {
+      await withSpan('inner', { 'test.attribute': 1 }, async () => undefined);
+      throw new Error('upstream failed');
+    })).rejects.toThrow('upstream failed');
+
+    const [inner, outer] = exporter.getFinishedSpans();
+    expect(inner.name).toBe('inner');
+    expect(inner.attributes['test.attribute']).toBe(1);
+    expect(inner.parentSpanContext?.spanId).toBe(outer.spanContext().spanId);
+    expect(outer.status).toEqual({ code: SpanStatusCode.ERROR, message: 'upstream failed' });
+  });
+
+  test('should continue an incoming traceparent and propagate it upstream', () => {
+    const traceId = '0af7651916cd43dd8448eb211c80319c';
+    const req = {
+      method: 'POST',
+      path: '/v1/messages',
+      baseUrl: '',
+      route: { path: '/v1/messages' },
+      headers: { traceparent: `00-${traceId}-b7ad6b7169203331-01` },
+    } as unknown as Request;
+    const res = Object.assign(new EventEmitter(), { statusCode: 200 });
+
+    let upstreamHeaders: Record<string, string> = {};
+    createTracingMiddleware()(req, res as unknown as Response, () => {
+      upstreamHeaders = withSpan('upstream_call', {}, () => getTraceHeaders());
+    });
+    res.emit('finish');
+
+    expect(upstreamHeaders.traceparent).toMatch(new RegExp(`^00-${traceId}-[0-9a-f]{16}-01$`));
+    const serverSpan = exporter.getFinishedSpans().find(span => span.name === 'POST /v1/messages');
+    expect(serverSpan?.spanContext().traceId).toBe(traceId);
+    expect(serverSpan?.parentSpanContext?.spanId).toBe('b7ad6b7169203331');
+    expect(serverSpan?.attributes['http.response.status_code']).toBe(200);
+  });
+
+  test('should trace the message conversion', () => {
+    convertAnthropicRequestToOpenAIParams({
+      model: 'claude-3-5-haiku-20241022',
+      max_tokens: 100,
+      stream: false,
+      messages: [{ role: 'user', content: 'Hi' }],
+    }, 'gpt-4o');
+
+    const span = exporter.getFinishedSpans().find(span => span.name === 'convertAnthropicToOpenAIMessages');
+    expect(span?.attributes).toEqual({ 'proxy.anthropic_message_count': 1, 'proxy.openai_message_count': 1 });
+  });
+});
@@ -0,0 +1,85 @@
+import { jest, describe, beforeEach, test, expect } from '@jest/globals';
+import { APIError } from 'openai';
+import { callUpstreamWithFallback, isFallbackEligibleError } from '../src/upstream';
+import { UpstreamTarget } from '../src/routing';
+import { Logger } from '../src/logger';
+
+// Mock logger for testing
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warning: jest.fn(),
+  error: jest.fn(),
+  critical: jest.fn(),
+} as unknown as Logger;
+
+const targets: UpstreamTarget[] = [
+  { model: 'primary-model', providerName: 'default' },
+  { model: 'secondary-model', providerName: 'openrouter' },
+  { model: 'tertiary-model', providerName: 'local' },
+];
+
+function apiError(status: number): APIError {
+  return APIError.generate(status, { error: { message: `status ${status}` } }, `status ${status}`, {});
+}
+
+describe('Upstream Fallback', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should classify rate limit and server errors as fallback eligible', () => {
+    expect(isFallbackEligibleError(apiError(429))).toBe(true);
+    expect(isFallbackEligibleError(apiError(503))).toBe(true);
+    expect(isFallbackEligibleError(apiError(529))).toBe(true);
+    expect(isFallbackEligibleError(apiError(400))).toBe(false);
+    expect(isFallbackEligibleError(apiError(401))).toBe(false);
+    expect(isFallbackEligibleError(new Error('boom'))).toBe(false);
+  });
+
+  test('should return the primary target when it succeeds', async () => {
+    const call = jest.fn(async (target: UpstreamTarget) => target.model);
+    const outcome = await callUpstreamWithFallback(targets, call, mockLogger, 'test-request-id');
+
+    expect(outcome.result).toBe('primary-model');
+    expect(outcome.targetIndex).toBe(0);
+    expect(call).toHaveBeenCalledTimes(1);
+    expect(mockLogger.warning).not.toHaveBeenCalled();
+  });
+
+  test('should move to the next target on 429 and 5xx errors', async () => {
+    const call = jest.fn(async (target: UpstreamTarget) => {
+      if (target.model === 'primary-model') {
+        throw apiError(429);
+      }
+      if (target.model === 'secondary-model') {
+        throw apiError(502);
+      }
+      return target.model;
+    });
+    const outcome = await callUpstreamWithFallback(targets, call, mockLogger, 'test-request-id');
+
+    expect(outcome.result).toBe('tertiary-model');
+    expect(outcome.target.providerName).toBe('local');
+    expect(outcome.targetIndex).toBe(2);
+    expect(mockLogger.warning).toHaveBeenCalledTimes(2);
+  });
+
+  test('should not fall back on client errors', async () => {
+    const call = jest.fn(async () => {
+      throw apiError(400);
+    });
+
+    await expect(callUpstreamWithFallback(targets, call, mockLogger, 'test-request-id')).rejects.toBeInstanceOf(APIError);
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+
+  test('should rethrow the last error when every target fails', async () => {
+    const call = jest.fn(async () => {
+      throw apiError(503);
+    });
+
+    await expect(callUpstreamWithFallback(targets, call, mockLogger, 'test-request-id')).rejects.toMatchObject({ status: 503 });
+    expect(call).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,111 @@
+import { jest, describe, beforeEach, afterEach, test, expect } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { UsageLedger, UsageEntry, findModelPrice, createUsageLedger } from '../src/usage';
+import { Logger } from '../src/logger';
+import { UsageQuerySchema, UsageRecord, UsageConfigSchema } from '../src/types';
+
+// Mock logger for testing
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warning: jest.fn(),
+  error: jest.fn(),
+  critical: jest.fn(),
+} as unknown as Logger;
+
+const prices = {
+  'gpt-4o': { input: 2.5, output: 10, cacheRead: 1.25 },
+  'anthropic/claude-*': { input: 3, output: 15 },
+};
+
+function createEntry(overrides: Partial<UsageEntry> = {}): UsageEntry {
+  return {
+    request_id: 'req-1',
+    key: 'team-a',
+    client_model: 'claude-sonnet-4-20250514',
+    target_model: 'gpt-4o',
+    provider: 'default',
+    stream: false,
+    input_tokens: 1000,
+    output_tokens: 500,
+    cache_creation_input_tokens: 0,
+    cache_read_input_tokens: 2000,
+    latency_ms: 1200,
+    stop_reason: 'end_turn',
+    ...overrides,
+  };
+}
+
+describe('Usage Ledger', () => {
+  let directory: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'usage-test-'));
+    filePath = path.join(directory, 'nested', 'usage.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('should look up prices by exact model name before glob patterns', () => {
+    expect(findModelPrice(prices, 'gpt-4o')).toBe(prices['gpt-4o']);
+    expect(findModelPrice(prices, 'anthropic/claude-sonnet-4')).toBe(prices['anthropic/claude-*']);
+    expect(findModelPrice(prices, 'qwen3')).toBeUndefined();
+  });
+
+  test('should only keep a ledger when the usage section is configured and enabled', () => {
+    expect(createUsageLedger(undefined, mockLogger)).toBeUndefined();
+    expect(createUsageLedger(UsageConfigSchema.parse({ enabled: false }), mockLogger)).toBeUndefined();
+    expect(createUsageLedger(UsageConfigSchema.parse({ file: filePath }), mockLogger)).toBeInstanceOf(UsageLedger);
+  });
+
+  test('should append records with computed costs as JSONL', () => {
+    const ledger = new UsageLedger(filePath, prices, mockLogger);
+
+    const priced = ledger.record(createEntry());
+    // 1000 * 2.5 + 500 * 10 + 2000 * 1.25 per million tokens
+    expect(priced.cost_usd).toBeCloseTo(0.01);
+    expect(ledger.record(createEntry({ target_model: 'qwen3' })).cost_usd).toBeNull();
+
+    const lines = fs.readFileSync(filePath, 'utf-8').trim().split('\n');
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[0])).toMatchObject({ key: 'team-a', target_model: 'gpt-4o', latency_ms: 1200 });
+  });
+
+  test('should aggregate by day, model and key with filters', () => {
+    const records: UsageRecord[] = [
+      { ...createEntry(), timestamp: '2025-01-01T10:00:00.000Z', cost_usd: 0.01 },
+      { ...createEntry({ request_id: 'req-2' }), timestamp: '2025-01-01T11:00:00.000Z', cost_usd: 0.01 },
+      { ...createEntry({ key: 'team-b', target_model: 'qwen3' }), timestamp: '2025-01-01T12:00:00.000Z', cost_usd: null },
+      { ...createEntry({ key: null }), timestamp: '2025-01-02T09:00:00.000Z', cost_usd: 0.01 },
+    ];
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, `${records.map(record => JSON.stringify(record)).join('\n')}\n{"truncated`);
+    const ledger = new UsageLedger(filePath, prices, mockLogger);
+
+    const { data, totals } = ledger.aggregate(UsageQuerySchema.parse({}));
+    expect(data.map(({ day, model, key, requests }) => ({ day, model, key, requests }))).toEqual([
+      { day: '2025-01-01', model: 'gpt-4o', key: 'team-a', requests: 2 },
+      { day: '2025-01-01', model: 'qwen3', key: 'team-b', requests: 1 },
+      { day: '2025-01-02', model: 'gpt-4o', key: null, requests: 1 },
+    ]);
+    expect(totals).toMatchObject({ requests: 4, input_tokens: 4000, output_tokens: 2000, unpriced_requests: 1 });
+    expect(totals.cost_usd).toBeCloseTo(0.03);
+
+    const byKey = ledger.aggregate(UsageQuerySchema.parse({ group_by: 'key', end_date: '2025-01-01' }));
+    expect(byKey.data).toEqual([
+      expect.objectContaining({ key: 'team-a', requests: 2, output_tokens: 1000 }),
+      expect.objectContaining({ key: 'team-b', requests: 1, unpriced_requests: 1 }),
+    ]);
+    expect(byKey.data[0]).not.toHaveProperty('day');
+  });
+
+  test('should reject unknown group_by fields', () => {
+    expect(UsageQuerySchema.safeParse({ group_by: 'day,provider' }).success).toBe(false);
+  });
+});
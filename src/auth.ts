@@ -0,0 +1,154 @@
+import { createHash } from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { ApiKeyConfig, AuthConfig, AnthropicErrorType, LogEvent } from './types.js';
+import { Logger } from './logger.js';
+import { globToRegExp } from './routing.js';
+import { logAndReturnErrorResponse } from './errors.js';
+
+export function hashApiKey(apiKey: string): string {
+  return `sha256:${createHash('sha256').update(apiKey).digest('hex')}`;
+}
+
+// Anthropic clients send x-api-key; Authorization: Bearer is accepted for OpenAI-style tooling
+export function getClientApiKey(req: Request): string | undefined {
+  const apiKey = req.get('x-api-key');
+  if (apiKey) {
+    return apiKey;
+  }
+  const match = req.get('authorization')?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : undefined;
+}
+
+// Models named in the request body: a single message request, or every request in a batch
+export function getRequestedModels(body: unknown): string[] {
+  if (!body || typeof body !== 'object') {
+    return [];
+  }
+  const { model, requests } = body as { model?: unknown; requests?: unknown };
+  if (typeof model === 'string') {
+    return [model];
+  }
+  if (Array.isArray(requests)) {
+    return requests
+      .map(request => (request as { params?: { model?: unknown } } | null)?.params?.model)
+      .filter((requestModel): requestModel is string => typeof requestModel === 'string');
+  }
+  return [];
+}
+
+function matchesAnyPattern(patterns: string[] | undefined, value: string): boolean {
+  return !patterns || patterns.some(pattern => globToRegExp(pattern).test(value));
+}
+
+export function isRouteAllowed(key: ApiKeyConfig, path: string): boolean {
+  return matchesAnyPattern(key.routes, path);
+}
+
+export function isModelAllowed(key: ApiKeyConfig | undefined, model: string): boolean {
+  return !key || matchesAnyPattern(key.models, model);
+}
+
+export class ApiKeyStore {
+  private keysByHash: Map<string, ApiKeyConfig> = new Map();
+
+  constructor(authConfig: AuthConfig) {
+    for (const key of authConfig.keys) {
+      this.keysByHash.set(key.keyHash, key);
+    }
+  }
+
+  get size(): number {
+    return this.keysByHash.size;
+  }
+
+  get hasAdminKeys(): boolean {
+    return Array.from(this.keysByHash.values()).some(key => key.admin);
+  }
+
+  getByName(name: string): ApiKeyConfig | undefined {
+    return Array.from(this.keysByHash.values()).find(key => key.name === name);
+  }
+
+  authenticate(apiKey: string): ApiKeyConfig | undefined {
+    return this.keysByHash.get(hashApiKey(apiKey));
+  }
+}
+
+export function createApiKeyAuthMiddleware(store: ApiKeyStore, logger: Logger) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = (req as Request & { requestId: string }).requestId;
+    const path = `${req.baseUrl}${req.path}`;
+
+    const apiKey = getClientApiKey(req);
+    const key = apiKey ? store.authenticate(apiKey) : undefined;
+    if (!key) {
+      logger.warning({
+        event: LogEvent.AUTH_FAILED,
+        message: apiKey ? 'Request rejected: unknown API key' : 'Request rejected: no API key provided',
+        request_id: requestId,
+        data: { path, client_ip: req.ip || 'unknown' },
+      });
+      await logAndReturnErrorResponse(
+        req,
+        res,
+        401,
+        AnthropicErrorType.AUTHENTICATION,
+        apiKey ? 'invalid x-api-key' : 'x-api-key header is required',
+        logger
+      );
+      return;
+    }
+
+    const routeAllowed = isRouteAllowed(key, path);
+    const deniedModel = routeAllowed
+      ? getRequestedModels(req.body).find(model => !isModelAllowed(key, model))
+      : undefined;
+    if (!routeAllowed || deniedModel !== undefined) {
+      logger.warning({
+        event: LogEvent.PERMISSION_DENIED,
+        message: `Request rejected: key '${key.name}' may not use this ${routeAllowed ? 'model' : 'route'}`,
+        request_id: requestId,
+        data: { key_name: key.name, path, model: deniedModel },
+      });
+      await logAndReturnErrorResponse(
+        req,
+        res,
+        403,
+        AnthropicErrorType.PERMISSION,
+        routeAllowed
+          ? `This API key does not have permission to use model '${deniedModel}'.`
+          : `This API key does not have permission to access ${req.method} ${path}.`,
+        logger
+      );
+      return;
+    }
+
+    (req as Request & { apiKey?: ApiKeyConfig }).apiKey = key;
+    next();
+  };
+}
+
+// Runs after the key middleware: only keys marked "admin" may use the /admin endpoints
+export function createAdminKeyMiddleware(logger: Logger) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const key = (req as Request & { apiKey?: ApiKeyConfig }).apiKey;
+    if (!key?.admin) {
+      logger.warning({
+        event: LogEvent.PERMISSION_DENIED,
+        message: `Request rejected: key '${key?.name}' is not an admin key`,
+        request_id: (req as Request & { requestId: string }).requestId,
+        data: { key_name: key?.name, path: `${req.baseUrl}${req.path}` },
+      });
+      await logAndReturnErrorResponse(
+        req,
+        res,
+        403,
+        AnthropicErrorType.PERMISSION,
+        'This API key does not have permission to use admin endpoints.',
+        logger
+      );
+      return;
+    }
+    next();
+  };
+}
@@ -0,0 +1,410 @@
+import fs from 'fs';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import { APIUserAbortError } from 'openai';
+import {
+  LogEvent,
+  MessageBatch,
+  ListQuery,
+  MessageBatchRequest,
+  MessageBatchRequestCounts,
+  MessageBatchResult,
+  MessageBatchResultBody,
+  MessagesRequest,
+  MessagesResponse
+} from './types.js';
+import { Logger } from './logger.js';
+import { buildAnthropicErrorResponse, getAnthropicErrorDetailsFromException } from './errors.js';
+import { paginate, Page } from './pagination.js';
+
+export const DEFAULT_BATCH_DIRECTORY = path.join('.anthropic-proxy', 'batches');
+export const DEFAULT_BATCH_CONCURRENCY = 4;
+
+// Batches that have not finished within this window have their remaining requests expired
+const BATCH_EXPIRY_MS = 24 * 60 * 60 * 1000;
+
+const BATCH_ID_PATTERN = /^msgbatch_[A-Za-z0-9]+$/;
+
+// The owner is the name of the API key that created the batch, or null when authentication is off
+export type BatchOwner = string | null;
+
+// The signal aborts when the batch is canceled; executors that are still waiting to call upstream
+// reject with an APIUserAbortError, and the request is recorded as canceled
+export type BatchRequestExecutor = (
+  params: MessagesRequest,
+  requestId: string,
+  owner: BatchOwner,
+  signal: AbortSignal
+) => Promise<MessagesResponse>;
+
+function generateBatchId(): string {
+  return `msgbatch_${randomBytes(12).toString('hex')}`;
+}
+
+function emptyRequestCounts(processing: number): MessageBatchRequestCounts {
+  return { processing, succeeded: 0, errored: 0, canceled: 0, expired: 0 };
+}
+
+// Each batch lives in its own directory: batch.json (status), requests.json (input), results.jsonl (output)
+// and owner.json (the creating key, kept out of the batch object returned to clients)
+export class MessageBatchStore {
+  constructor(private directory: string) {}
+
+  private batchDirectory(batchId: string): string {
+    return path.join(this.directory, batchId);
+  }
+
+  private writeJsonAtomic(filePath: string, value: unknown): void {
+    const tmpPath = `${filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(value));
+    fs.renameSync(tmpPath, filePath);
+  }
+
+  create(batch: MessageBatch, requests: MessageBatchRequest[], owner: BatchOwner): void {
+    const batchDir = this.batchDirectory(batch.id);
+    fs.mkdirSync(batchDir, { recursive: true });
+    this.writeJsonAtomic(path.join(batchDir, 'owner.json'), { key: owner });
+    this.writeJsonAtomic(path.join(batchDir, 'requests.json'), requests);
+    fs.writeFileSync(path.join(batchDir, 'results.jsonl'), '');
+    this.saveBatch(batch);
+  }
+
+  saveBatch(batch: MessageBatch): void {
+    this.writeJsonAtomic(path.join(this.batchDirectory(batch.id), 'batch.json'), batch);
+  }
+
+  getBatch(batchId: string): MessageBatch | undefined {
+    if (!BATCH_ID_PATTERN.test(batchId)) {
+      return undefined;
+    }
+    const batchFile = path.join(this.batchDirectory(batchId), 'batch.json');
+    if (!fs.existsSync(batchFile)) {
+      return undefined;
+    }
+    return JSON.parse(fs.readFileSync(batchFile, 'utf-8')) as MessageBatch;
+  }
+
+  getOwner(batchId: string): BatchOwner {
+    const ownerFile = path.join(this.batchDirectory(batchId), 'owner.json');
+    if (!fs.existsSync(ownerFile)) {
+      return null;
+    }
+    return (JSON.parse(fs.readFileSync(ownerFile, 'utf-8')) as { key: BatchOwner }).key;
+  }
+
+  listBatches(): MessageBatch[] {
+    if (!fs.existsSync(this.directory)) {
+      return [];
+    }
+    return fs.readdirSync(this.directory)
+      .map(batchId => this.getBatch(batchId))
+      .filter((batch): batch is MessageBatch => batch !== undefined);
+  }
+
+  getRequests(batchId: string): MessageBatchRequest[] {
+    return JSON.parse(
+      fs.readFileSync(path.join(this.batchDirectory(batchId), 'requests.json'), 'utf-8')
+    ) as MessageBatchRequest[];
+  }
+
+  appendResult(batchId: string, result: MessageBatchResult): void {
+    fs.appendFileSync(path.join(this.batchDirectory(batchId), 'results.jsonl'), `${JSON.stringify(result)}\n`);
+  }
+
+  readResults(batchId: string): MessageBatchResult[] {
+    const resultsFile = path.join(this.batchDirectory(batchId), 'results.jsonl');
+    if (!fs.existsSync(resultsFile)) {
+      return [];
+    }
+    const results: MessageBatchResult[] = [];
+    for (const line of fs.readFileSync(resultsFile, 'utf-8').split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        results.push(JSON.parse(line) as MessageBatchResult);
+      } catch {
+        // A line cut short by a crash; the request is run again on resume
+      }
+    }
+    return results;
+  }
+
+  rewriteResults(batchId: string, results: MessageBatchResult[]): void {
+    const resultsFile = path.join(this.batchDirectory(batchId), 'results.jsonl');
+    const tmpPath = `${resultsFile}.tmp`;
+    fs.writeFileSync(tmpPath, results.map(result => `${JSON.stringify(result)}\n`).join(''));
+    fs.renameSync(tmpPath, resultsFile);
+  }
+}
+
+interface QueuedBatchRequest {
+  batchId: string;
+  request: MessageBatchRequest;
+}
+
+// Batches are only visible to the key that created them; other keys get the same answer as for an unknown ID
+export class MessageBatchProcessor {
+  private queue: QueuedBatchRequest[] = [];
+  private activeCount = 0;
+  // Batches that still have queued or in-flight requests, kept in memory so counts stay consistent
+  private openBatches: Map<string, MessageBatch> = new Map();
+  private openBatchOwners: Map<string, BatchOwner> = new Map();
+  private openBatchCancellations: Map<string, AbortController> = new Map();
+
+  constructor(
+    private store: MessageBatchStore,
+    private executor: BatchRequestExecutor,
+    private logger: Logger,
+    private concurrency: number = DEFAULT_BATCH_CONCURRENCY
+  ) {}
+
+  // Picks up batches left unfinished by a previous run of the proxy
+  resume(): void {
+    for (const batch of this.store.listBatches()) {
+      if (batch.processing_status === 'ended') {
+        continue;
+      }
+
+      const requests = this.store.getRequests(batch.id);
+      const results = this.store.readResults(batch.id);
+      this.store.rewriteResults(batch.id, results);
+
+      const finishedIds = new Set(results.map(result => result.custom_id));
+      const pending = requests.filter(request => !finishedIds.has(request.custom_id));
+
+      // Recount from the results file, which is the source of truth if the proxy stopped mid-write
+      batch.request_counts = emptyRequestCounts(pending.length);
+      for (const result of results) {
+        batch.request_counts[result.result.type] += 1;
+      }
+      this.saveBatch(batch);
+
+      this.logger.info({
+        event: LogEvent.BATCH_RESUMED,
+        message: `Resuming message batch ${batch.id} with ${pending.length} pending requests`,
+        data: { batch_id: batch.id, pending_requests: pending.length, processing_status: batch.processing_status },
+      });
+
+      this.openBatches.set(batch.id, batch);
+      this.openBatchOwners.set(batch.id, this.store.getOwner(batch.id));
+      this.openBatchCancellations.set(batch.id, new AbortController());
+      if (batch.processing_status === 'canceling') {
+        for (const request of pending) {
+          this.recordResult(batch, { custom_id: request.custom_id, result: { type: 'canceled' } });
+        }
+        this.saveBatch(batch);
+        this.finishIfDone(batch);
+      } else {
+        this.enqueue(batch, pending);
+      }
+    }
+    this.pump();
+  }
+
+  create(requests: MessageBatchRequest[], owner: BatchOwner): MessageBatch {
+    const now = new Date();
+    const batch: MessageBatch = {
+      id: generateBatchId(),
+      type: 'message_batch',
+      processing_status: 'in_progress',
+      request_counts: emptyRequestCounts(requests.length),
+      created_at: now.toISOString(),
+      expires_at: new Date(now.getTime() + BATCH_EXPIRY_MS).toISOString(),
+      ended_at: null,
+      cancel_initiated_at: null,
+      archived_at: null,
+      results_url: null,
+    };
+    this.store.create(batch, requests, owner);
+
+    this.logger.info({
+      event: LogEvent.BATCH_CREATED,
+      message: `Created message batch ${batch.id} with ${requests.length} requests`,
+      data: { batch_id: batch.id, request_count: requests.length, concurrency: this.concurrency, owner },
+    });
+
+    this.openBatches.set(batch.id, batch);
+    this.openBatchOwners.set(batch.id, owner);
+    this.openBatchCancellations.set(batch.id, new AbortController());
+    this.enqueue(batch, requests);
+    this.pump();
+    return this.snapshot(batch.id)!;
+  }
+
+  private getOwner(batchId: string): BatchOwner {
+    return this.openBatchOwners.has(batchId) ? this.openBatchOwners.get(batchId)! : this.store.getOwner(batchId);
+  }
+
+  private snapshot(batchId: string): MessageBatch | undefined {
+    const openBatch = this.openBatches.get(batchId);
+    return openBatch ? { ...openBatch, request_counts: { ...openBatch.request_counts } } : this.store.getBatch(batchId);
+  }
+
+  get(batchId: string, owner: BatchOwner): MessageBatch | undefined {
+    const batch = this.snapshot(batchId);
+    return batch && this.getOwner(batchId) === owner ? batch : undefined;
+  }
+
+  list(query: ListQuery, owner: BatchOwner): Page<MessageBatch> {
+    const batches = this.store.listBatches()
+      .filter(batch => this.getOwner(batch.id) === owner)
+      .map(batch => this.snapshot(batch.id)!)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at) || b.id.localeCompare(a.id));
+    return paginate(batches, query);
+  }
+
+  cancel(batchId: string, owner: BatchOwner): MessageBatch | undefined {
+    const batch = this.openBatches.get(batchId);
+    if (!batch) {
+      return this.get(batchId, owner);
+    }
+    if (this.getOwner(batchId) !== owner) {
+      return undefined;
+    }
+    if (batch.processing_status === 'canceling') {
+      return this.snapshot(batchId);
+    }
+
+    batch.processing_status = 'canceling';
+    batch.cancel_initiated_at = new Date().toISOString();
+
+    this.logger.info({
+      event: LogEvent.BATCH_CANCEL_REQUESTED,
+      message: `Canceling message batch ${batchId}`,
+      data: { batch_id: batchId, processing: batch.request_counts.processing },
+    });
+
+    // Requests already sent upstream are allowed to finish, everything still queued or waiting on rate limits is canceled
+    this.openBatchCancellations.get(batchId)?.abort();
+    const remaining: QueuedBatchRequest[] = [];
+    for (const item of this.queue) {
+      if (item.batchId === batchId) {
+        this.recordResult(batch, { custom_id: item.request.custom_id, result: { type: 'canceled' } });
+      } else {
+        remaining.push(item);
+      }
+    }
+    this.queue = remaining;
+    this.saveBatch(batch);
+    this.finishIfDone(batch);
+    return this.snapshot(batchId);
+  }
+
+  getResults(batchId: string): MessageBatchResult[] {
+    return this.store.readResults(batchId);
+  }
+
+  private enqueue(batch: MessageBatch, requests: MessageBatchRequest[]): void {
+    for (const request of requests) {
+      this.queue.push({ batchId: batch.id, request });
+    }
+    this.finishIfDone(batch);
+  }
+
+  private pump(): void {
+    while (this.activeCount < this.concurrency && this.queue.length > 0) {
+      const item = this.queue.shift()!;
+      const batch = this.openBatches.get(item.batchId);
+      if (!batch) {
+        continue;
+      }
+
+      if (Date.now() >= Date.parse(batch.expires_at)) {
+        this.recordResult(batch, { custom_id: item.request.custom_id, result: { type: 'expired' } });
+        this.saveBatch(batch);
+        this.finishIfDone(batch);
+        continue;
+      }
+
+      this.activeCount += 1;
+      void this.runRequest(batch, item.request).finally(() => {
+        this.activeCount -= 1;
+        this.pump();
+      });
+    }
+  }
+
+  private async runRequest(batch: MessageBatch, request: MessageBatchRequest): Promise<void> {
+    const requestId = `${batch.id}:${request.custom_id}`;
+    let result: MessageBatchResultBody;
+
+    try {
+      const signal = this.openBatchCancellations.get(batch.id)!.signal;
+      const message = await this.executor({ ...request.params, stream: false }, requestId, this.getOwner(batch.id), signal);
+      result = { type: 'succeeded', message };
+    } catch (error) {
+      if (error instanceof APIUserAbortError) {
+        this.recordResult(batch, { custom_id: request.custom_id, result: { type: 'canceled' } });
+        this.saveBatch(batch);
+        this.finishIfDone(batch);
+        return;
+      }
+
+      const { errorType, errorMessage, statusCode, providerDetails } = getAnthropicErrorDetailsFromException(error as Error);
+
+      this.logger.warning({
+        event: LogEvent.BATCH_REQUEST_FAILED,
+        message: `Batch request ${request.custom_id} failed: ${errorMessage}`,
+        request_id: requestId,
+        data: { batch_id: batch.id, custom_id: request.custom_id, status_code: statusCode, error_type: errorType },
+      }, error as Error);
+
+      result = {
+        type: 'errored',
+        error: buildAnthropicErrorResponse(errorType, errorMessage, statusCode, providerDetails).body,
+      };
+    }
+
+    this.recordResult(batch, { custom_id: request.custom_id, result });
+    this.saveBatch(batch);
+    this.finishIfDone(batch);
+  }
+
+  // Counts are updated even when the write fails, so the batch still ends instead of waiting on a lost result
+  private recordResult(batch: MessageBatch, result: MessageBatchResult): void {
+    batch.request_counts.processing -= 1;
+    batch.request_counts[result.result.type] += 1;
+    try {
+      this.store.appendResult(batch.id, result);
+    } catch (error) {
+      this.logStoreFailure(batch, `Failed to write result ${result.custom_id} of message batch ${batch.id}`, error as Error);
+    }
+  }
+
+  // A failed write (full disk, missing directory) must not crash the proxy; the in-memory state stays authoritative
+  private saveBatch(batch: MessageBatch): void {
+    try {
+      this.store.saveBatch(batch);
+    } catch (error) {
+      this.logStoreFailure(batch, `Failed to save message batch ${batch.id}`, error as Error);
+    }
+  }
+
+  private logStoreFailure(batch: MessageBatch, message: string, error: Error): void {
+    this.logger.error({
+      event: LogEvent.BATCH_STORE_FAILED,
+      message,
+      data: { batch_id: batch.id },
+    }, error);
+  }
+
+  private finishIfDone(batch: MessageBatch): void {
+    if (batch.request_counts.processing > 0 || batch.processing_status === 'ended') {
+      return;
+    }
+
+    batch.processing_status = 'ended';
+    batch.ended_at = new Date().toISOString();
+    this.saveBatch(batch);
+    this.openBatches.delete(batch.id);
+    this.openBatchOwners.delete(batch.id);
+    this.openBatchCancellations.delete(batch.id);
+
+    this.logger.info({
+      event: LogEvent.BATCH_ENDED,
+      message: `Message batch ${batch.id} ended`,
+      data: { batch_id: batch.id, request_counts: batch.request_counts },
+    });
+  }
+}
@@ -0,0 +1,220 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { ChatCompletion, ChatCompletionChunk, ChatCompletionCreateParams } from 'openai/resources/chat/completions';
+import { CacheConfig, LogEvent } from './types.js';
+import { Logger } from './logger.js';
+
+export const DEFAULT_CACHE_DIRECTORY = path.join('.anthropic-proxy', 'cache');
+
+const BYTES_PER_MB = 1024 * 1024;
+
+export type CacheStatus = 'hit' | 'miss';
+
+// Upstream results are cached before translation, so hits go through the same Anthropic conversion as misses
+export type CachedResponse =
+  | { type: 'completion'; completion: ChatCompletion }
+  | { type: 'stream'; chunks: ChatCompletionChunk[] };
+
+export interface CacheEntry {
+  createdAt: number;
+  response: CachedResponse;
+}
+
+export interface CacheStore {
+  get(key: string): CacheEntry | undefined;
+  set(key: string, entry: CacheEntry): void;
+  delete(key: string): void;
+}
+
+// JSON with object keys sorted at every level, so equal requests serialize identically
+export function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, nested) => {
+    if (nested && typeof nested === 'object' && !Array.isArray(nested)) {
+      return Object.fromEntries(Object.keys(nested).sort().map(name => [name, nested[name]]));
+    }
+    return nested;
+  });
+}
+
+// Per-request metadata that does not change the answer. `user` comes from metadata.user_id, which Claude Code
+// fills with a per-session ID, so keeping it would stop identical requests from matching across sessions
+const UNKEYED_PARAMS = new Set(['user']);
+
+// The provider is part of the key since the same model name can be served differently by two providers
+export function computeCacheKey(providerName: string, params: ChatCompletionCreateParams): string {
+  const keyedParams = Object.fromEntries(Object.entries(params).filter(([name]) => !UNKEYED_PARAMS.has(name)));
+  return crypto.createHash('sha256').update(canonicalJson({ provider: providerName, params: keyedParams })).digest('hex');
+}
+
+// Least recently used entries are evicted first
+export class MemoryCacheStore implements CacheStore {
+  private entries: Map<string, { entry: CacheEntry; size: number }> = new Map();
+  private totalBytes = 0;
+
+  constructor(private maxEntries: number, private maxBytes: number) {}
+
+  get(key: string): CacheEntry | undefined {
+    const stored = this.entries.get(key);
+    if (!stored) {
+      return undefined;
+    }
+    this.entries.delete(key);
+    this.entries.set(key, stored);
+    return stored.entry;
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.delete(key);
+    const size = Buffer.byteLength(JSON.stringify(entry));
+    this.entries.set(key, { entry, size });
+    this.totalBytes += size;
+
+    for (const oldestKey of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries && this.totalBytes <= this.maxBytes) {
+        break;
+      }
+      this.delete(oldestKey);
+    }
+  }
+
+  delete(key: string): void {
+    const stored = this.entries.get(key);
+    if (stored) {
+      this.totalBytes -= stored.size;
+      this.entries.delete(key);
+    }
+  }
+}
+
+// One JSON file per entry; the oldest files are removed first once a limit is exceeded
+export class DiskCacheStore implements CacheStore {
+  constructor(private directory: string, private maxEntries: number, private maxBytes: number) {}
+
+  private getEntryPath(key: string): string {
+    return path.join(this.directory, `${key}.json`);
+  }
+
+  get(key: string): CacheEntry | undefined {
+    try {
+      return JSON.parse(fs.readFileSync(this.getEntryPath(key), 'utf-8')) as CacheEntry;
+    } catch {
+      // Missing, or cut short by a crash mid-write
+      return undefined;
+    }
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    fs.mkdirSync(this.directory, { recursive: true });
+    fs.writeFileSync(this.getEntryPath(key), JSON.stringify(entry));
+    this.prune();
+  }
+
+  delete(key: string): void {
+    fs.rmSync(this.getEntryPath(key), { force: true });
+  }
+
+  private prune(): void {
+    const files = fs.readdirSync(this.directory)
+      .filter(name => name.endsWith('.json'))
+      .map(name => {
+        const filePath = path.join(this.directory, name);
+        const stats = fs.statSync(filePath);
+        return { filePath, size: stats.size, modifiedAt: stats.mtimeMs };
+      })
+      .sort((a, b) => a.modifiedAt - b.modifiedAt);
+
+    let count = files.length;
+    let totalBytes = files.reduce((sum, file) => sum + file.size, 0);
+    for (const file of files) {
+      if (count <= this.maxEntries && totalBytes <= this.maxBytes) {
+        break;
+      }
+      fs.rmSync(file.filePath, { force: true });
+      count -= 1;
+      totalBytes -= file.size;
+    }
+  }
+}
+
+export async function* replayChunks(chunks: ChatCompletionChunk[]): AsyncIterable<ChatCompletionChunk> {
+  for (const chunk of chunks) {
+    yield chunk;
+  }
+}
+
+// Caches upstream responses keyed on the translated request, for clients that resend identical prompts
+export class ResponseCache {
+  constructor(
+    private store: CacheStore,
+    private cacheConfig: CacheConfig,
+    private logger: Logger,
+    private now: () => number = Date.now
+  ) {}
+
+  isCacheable(params: ChatCompletionCreateParams): boolean {
+    return !this.cacheConfig.deterministicOnly || params.temperature === 0;
+  }
+
+  get(key: string, requestId: string): CachedResponse | undefined {
+    const entry = this.store.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (this.now() - entry.createdAt > this.cacheConfig.ttlSeconds * 1000) {
+      this.store.delete(key);
+      return undefined;
+    }
+
+    this.logger.info({
+      event: LogEvent.CACHE_HIT,
+      message: 'Serving cached upstream response',
+      request_id: requestId,
+      data: { cache_key: key, age_ms: this.now() - entry.createdAt },
+    });
+    return entry.response;
+  }
+
+  set(key: string, response: CachedResponse, requestId: string): void {
+    // A failed write only costs a later cache miss, so the request carries on
+    try {
+      this.store.set(key, { createdAt: this.now(), response });
+    } catch (error) {
+      this.logger.error({
+        event: LogEvent.CACHE_WRITE_FAILED,
+        message: 'Failed to store upstream response in the cache',
+        request_id: requestId,
+        data: { cache_key: key },
+      }, error as Error);
+    }
+  }
+
+  // Passes the stream through and stores its chunks once it has finished; interrupted streams are not cached
+  async *recordStream(
+    key: string,
+    stream: AsyncIterable<ChatCompletionChunk>,
+    requestId: string
+  ): AsyncIterable<ChatCompletionChunk> {
+    const chunks: ChatCompletionChunk[] = [];
+    let finished = false;
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+      finished = finished || chunk.choices.some(choice => choice.finish_reason);
+      yield chunk;
+    }
+    if (finished) {
+      this.set(key, { type: 'stream', chunks }, requestId);
+    }
+  }
+}
+
+export function createResponseCache(cacheConfig: CacheConfig | undefined, logger: Logger): ResponseCache | undefined {
+  if (!cacheConfig?.enabled) {
+    return undefined;
+  }
+  const maxBytes = cacheConfig.maxSizeMb * BYTES_PER_MB;
+  const store = cacheConfig.store === 'disk'
+    ? new DiskCacheStore(cacheConfig.directory || DEFAULT_CACHE_DIRECTORY, cacheConfig.maxEntries, maxBytes)
+    : new MemoryCacheStore(cacheConfig.maxEntries, maxBytes);
+  return new ResponseCache(store, cacheConfig, logger);
+}
@@ -0,0 +1,265 @@
+import fs from 'fs';
+import path from 'path';
+import { APIError } from 'openai';
+import type { ChatCompletion, ChatCompletionChunk, ChatCompletionCreateParams } from 'openai/resources/chat/completions';
+import { LogEvent } from './types.js';
+import { Logger } from './logger.js';
+import { UpstreamClient, UpstreamModel } from './upstream.js';
+import { computeCacheKey } from './cache.js';
+
+// Only HTTP errors are recorded; connection failures carry no upstream response to replay
+export interface RecordedError {
+  status: number;
+  message: string;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+export interface RecordedChunk {
+  // Time since the previous chunk, or since the stream was accepted for the first one
+  delay_ms: number;
+  chunk: ChatCompletionChunk;
+}
+
+export type RecordedResponse =
+  | { type: 'completion'; completion: ChatCompletion }
+  | { type: 'stream'; chunks: RecordedChunk[]; error?: RecordedError }
+  | { type: 'error'; error: RecordedError };
+
+export interface CassetteFixture {
+  key: string;
+  recorded_at: string;
+  request: { provider: string; params: ChatCompletionCreateParams };
+  response: RecordedResponse;
+}
+
+function toRecordedError(error: unknown): RecordedError | undefined {
+  if (!(error instanceof APIError) || error.status === undefined) {
+    return undefined;
+  }
+  return {
+    status: error.status,
+    message: error.message,
+    body: error.error,
+    headers: error.headers as Record<string, string> | undefined,
+  };
+}
+
+function toAPIError(recorded: RecordedError): APIError {
+  return APIError.generate(
+    recorded.status,
+    recorded.body ?? { error: { message: recorded.message } },
+    recorded.message,
+    recorded.headers || {}
+  );
+}
+
+export function getFixturePath(directory: string, key: string): string {
+  return path.join(directory, `${key}.json`);
+}
+
+function getModelsFixturePath(directory: string, providerName: string): string {
+  return path.join(directory, `${providerName}.models.json`);
+}
+
+export function loadCassetteFixture(filePath: string): CassetteFixture {
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as CassetteFixture;
+}
+
+// Replays the recorded chunks with their delays multiplied by delayScale, then the error that cut the stream short, if any
+export async function* replayRecordedStream(
+  response: Extract<RecordedResponse, { type: 'stream' }>,
+  delayScale: number = 1,
+  signal?: AbortSignal
+): AsyncIterable<ChatCompletionChunk> {
+  for (const { delay_ms, chunk } of response.chunks) {
+    if (delay_ms * delayScale > 0) {
+      await new Promise(resolve => setTimeout(resolve, delay_ms * delayScale));
+    }
+    // Like the OpenAI SDK, an aborted stream ends quietly
+    if (signal?.aborted) {
+      return;
+    }
+    yield chunk;
+  }
+  if (response.error) {
+    throw toAPIError(response.error);
+  }
+}
+
+function writeJsonFile(filePath: string, value: unknown): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, `${JSON.stringify(value, null, 2)}\n`);
+}
+
+// Passes calls through to the real client and saves each request with its response as a fixture file
+export class RecordingClient implements UpstreamClient {
+  constructor(
+    private client: UpstreamClient,
+    private providerName: string,
+    private directory: string,
+    private logger: Logger
+  ) {}
+
+  private save(params: ChatCompletionCreateParams, response: RecordedResponse, requestId?: string): void {
+    const key = computeCacheKey(this.providerName, params);
+    const fixture: CassetteFixture = {
+      key,
+      recorded_at: new Date().toISOString(),
+      request: { provider: this.providerName, params },
+      response,
+    };
+    // Recording is a test aid; a failed write must not fail the proxied request
+    try {
+      writeJsonFile(getFixturePath(this.directory, key), fixture);
+      this.logger.debug({
+        event: LogEvent.CASSETTE_RECORDED,
+        message: `Recorded upstream ${response.type} response to '${getFixturePath(this.directory, key)}'`,
+        request_id: requestId,
+      });
+    } catch (error) {
+      this.logger.error({
+        event: LogEvent.CASSETTE_RECORD_FAILED,
+        message: `Failed to write cassette fixture to '${this.directory}'`,
+        request_id: requestId,
+      }, error as Error);
+    }
+  }
+
+  private saveError(params: ChatCompletionCreateParams, error: unknown, requestId: string): void {
+    const recordedError = toRecordedError(error);
+    if (recordedError) {
+      this.save(params, { type: 'error', error: recordedError }, requestId);
+    }
+  }
+
+  async createChatCompletion(params: ChatCompletionCreateParams, requestId: string, signal?: AbortSignal): Promise<ChatCompletion> {
+    try {
+      const completion = await this.client.createChatCompletion(params, requestId, signal);
+      this.save(params, { type: 'completion', completion }, requestId);
+      return completion;
+    } catch (error) {
+      this.saveError(params, error, requestId);
+      throw error;
+    }
+  }
+
+  async createChatCompletionStream(
+    params: ChatCompletionCreateParams,
+    requestId: string,
+    signal?: AbortSignal
+  ): Promise<AsyncIterable<ChatCompletionChunk>> {
+    let stream: AsyncIterable<ChatCompletionChunk>;
+    try {
+      stream = await this.client.createChatCompletionStream(params, requestId, signal);
+    } catch (error) {
+      this.saveError(params, error, requestId);
+      throw error;
+    }
+    return this.recordStream(params, stream, requestId, signal);
+  }
+
+  private async *recordStream(
+    params: ChatCompletionCreateParams,
+    stream: AsyncIterable<ChatCompletionChunk>,
+    requestId: string,
+    signal?: AbortSignal
+  ): AsyncIterable<ChatCompletionChunk> {
+    const chunks: RecordedChunk[] = [];
+    let lastChunkTime = Date.now();
+    try {
+      for await (const chunk of stream) {
+        const now = Date.now();
+        chunks.push({ delay_ms: now - lastChunkTime, chunk });
+        lastChunkTime = now;
+        yield chunk;
+      }
+    } catch (error) {
+      // A stream cut short by a dropped connection or a client disconnect would replay as a complete one
+      const recordedError = toRecordedError(error);
+      if (recordedError) {
+        this.save(params, { type: 'stream', chunks, error: recordedError }, requestId);
+      }
+      throw error;
+    }
+    // The OpenAI SDK ends an aborted stream quietly, so it looks complete here
+    if (!signal?.aborted) {
+      this.save(params, { type: 'stream', chunks }, requestId);
+    }
+  }
+
+  async listModels(): Promise<UpstreamModel[]> {
+    const models = await this.client.listModels();
+    try {
+      writeJsonFile(getModelsFixturePath(this.directory, this.providerName), models);
+    } catch (error) {
+      this.logger.error({
+        event: LogEvent.CASSETTE_RECORD_FAILED,
+        message: `Failed to write cassette fixture to '${this.directory}'`,
+      }, error as Error);
+    }
+    return models;
+  }
+}
+
+// Serves requests from recorded fixtures and never contacts the upstream
+export class ReplayClient implements UpstreamClient {
+  constructor(
+    private providerName: string,
+    private directory: string,
+    private logger: Logger,
+    private delayScale: number = 1
+  ) {}
+
+  private findResponse(params: ChatCompletionCreateParams, requestId: string): RecordedResponse {
+    const key = computeCacheKey(this.providerName, params);
+    const fixturePath = getFixturePath(this.directory, key);
+    if (!fs.existsSync(fixturePath)) {
+      const message = `No recorded fixture in '${this.directory}' matches this request to provider '${this.providerName}' `
+        + `(expected ${path.basename(fixturePath)}). Record it first with --record.`;
+      this.logger.warning({
+        event: LogEvent.CASSETTE_MISS,
+        message,
+        request_id: requestId,
+        data: { provider: this.providerName, params },
+      });
+      // A 404 is neither retried nor falls back, so the miss reaches the client as is
+      throw APIError.generate(404, { error: { message, type: 'cassette_miss' } }, message, {});
+    }
+    return loadCassetteFixture(fixturePath).response;
+  }
+
+  async createChatCompletion(params: ChatCompletionCreateParams, requestId: string): Promise<ChatCompletion> {
+    const response = this.findResponse(params, requestId);
+    if (response.type === 'error') {
+      throw toAPIError(response.error);
+    }
+    if (response.type !== 'completion') {
+      throw new Error(`Fixture for this request holds a ${response.type} response, not a completion`);
+    }
+    return response.completion;
+  }
+
+  async createChatCompletionStream(
+    params: ChatCompletionCreateParams,
+    requestId: string,
+    signal?: AbortSignal
+  ): Promise<AsyncIterable<ChatCompletionChunk>> {
+    const response = this.findResponse(params, requestId);
+    if (response.type === 'error') {
+      throw toAPIError(response.error);
+    }
+    if (response.type !== 'stream') {
+      throw new Error(`Fixture for this request holds a ${response.type} response, not a stream`);
+    }
+    return replayRecordedStream(response, this.delayScale, signal);
+  }
+
+  async listModels(): Promise<UpstreamModel[]> {
+    const fixturePath = getModelsFixturePath(this.directory, this.providerName);
+    if (!fs.existsSync(fixturePath)) {
+      throw new Error(`No recorded model list for provider '${this.providerName}' in '${this.directory}'`);
+    }
+    return JSON.parse(fs.readFileSync(fixturePath, 'utf-8')) as UpstreamModel[];
+  }
+}
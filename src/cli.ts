@@ -2,8 +2,12 @@
 
 import { Command } from 'commander';
 import { startServer } from './server.js';
-import { Config } from './types.js';
+import { Config, DEFAULT_PROVIDER_NAME, LogEvent } from './types.js';
 import { createLogger, Logger } from './logger.js';
+import { loadConfigFile } from './config.js';
+import { DEFAULT_RETRY_POLICY } from './retry.js';
+import { hashApiKey } from './auth.js';
+import { startMockUpstream, isMockScenario, MOCK_SCENARIOS, DEFAULT_MOCK_UPSTREAM_OPTIONS } from './mock.js';
 import { execSync } from 'child_process';
 
 const program = new Command();
@@ -26,6 +30,12 @@ program
   .option('--log-level <level>', 'Log level (DEBUG, INFO, WARN, ERROR)', 'INFO')
   .option('--log-file <path>', 'Log file path for JSON logs')
   .option('--no-reload', 'Disable auto-reload in development')
+  .option('--config <path>', 'JSON config file with model routes and upstream providers')
+  .option('--retry-max-attempts <count>', 'Maximum upstream attempts per target for 429/5xx errors')
+  .option('--batch-concurrency <count>', 'Number of message batch requests processed in parallel')
+  .option('--record <dir>', 'Save every upstream request and response as a fixture file in this directory')
+  .option('--replay <dir>', 'Serve upstream requests from fixture files recorded with --record, without network access')
+  .option('--replay-delay-scale <factor>', 'Multiply recorded delays between stream chunks during --replay (0 replays without delays)', '1')
   .action(async (options) => {
     let claudeCodeVersion = 'unknown';
     try {
@@ -53,17 +63,84 @@ program
       appName: 'AnthropicProxy',
       appVersion: '1.0.0',
       claudeCodeVersion,
+      configFilePath: options.config,
     };
 
-    // Validate required options
-    if (!config.openaiApiKey || config.openaiApiKey === 'sk-') {
+    if (config.configFilePath) {
+      try {
+        const configFile = loadConfigFile(config.configFilePath);
+        config.routes = configFile.routes;
+        config.providers = configFile.providers;
+        config.retry = configFile.retry;
+        config.batches = configFile.batches;
+        config.models = configFile.models;
+        config.auth = configFile.auth;
+        config.rateLimits = configFile.rateLimits;
+        config.usage = configFile.usage;
+        config.tracing = configFile.tracing;
+        config.cache = configFile.cache;
+        config.streaming = configFile.streaming;
+      } catch (error) {
+        console.error(`Error: ${(error as Error).message}`);
+        process.exit(1);
+      }
+    }
+
+    if (options.retryMaxAttempts !== undefined) {
+      const maxAttempts = parseInt(options.retryMaxAttempts, 10);
+      if (!Number.isInteger(maxAttempts) || maxAttempts < 1) {
+        console.error('Error: --retry-max-attempts must be a positive integer');
+        process.exit(1);
+      }
+      config.retry = { ...(config.retry || DEFAULT_RETRY_POLICY), maxAttempts };
+    }
+
+    if (options.batchConcurrency !== undefined) {
+      const concurrency = parseInt(options.batchConcurrency, 10);
+      if (!Number.isInteger(concurrency) || concurrency < 1) {
+        console.error('Error: --batch-concurrency must be a positive integer');
+        process.exit(1);
+      }
+      config.batches = { ...config.batches, concurrency };
+    }
+
+    if (options.record && options.replay) {
+      console.error('Error: --record and --replay cannot be used together');
+      process.exit(1);
+    }
+    if (options.record) {
+      config.cassette = { mode: 'record', directory: options.record };
+    } else if (options.replay) {
+      const delayScale = Number(options.replayDelayScale);
+      if (!Number.isFinite(delayScale) || delayScale < 0) {
+        console.error('Error: --replay-delay-scale must be a non-negative number');
+        process.exit(1);
+      }
+      config.cassette = { mode: 'replay', directory: options.replay, delayScale };
+    }
+
+    // Validate required options, unless the config file declares its own default provider or upstreams are replayed
+    if (config.cassette?.mode !== 'replay'
+      && !config.providers?.[DEFAULT_PROVIDER_NAME]
+      && (!config.openaiApiKey || config.openaiApiKey === 'sk-')) {
       console.error('Error: --openai-api-key is required and must be a valid API key');
       process.exit(1);
     }
 
     const winstonLogger = createLogger(config);
     const logger = new Logger(winstonLogger);
-    
+
+    if (config.configFilePath) {
+      logger.info({
+        event: LogEvent.CONFIG_FILE_LOADED,
+        message: `Loaded config file ${config.configFilePath}`,
+        data: {
+          path: config.configFilePath,
+          route_count: config.routes?.length ?? 0,
+        },
+      });
+    }
+
     try {
       await startServer(config, logger);
     } catch (error) {
@@ -75,4 +152,98 @@ program
     }
   });
 
+program
+  .command('mock-upstream')
+  .description('Run a mock OpenAI-compatible upstream that plays scripted scenarios, for local testing without a provider')
+  .option('-p, --port <port>', 'Port to listen on', '4000')
+  .option('-h, --host <host>', 'Host to bind to', '127.0.0.1')
+  .option('--scenario <name>', `Default scenario: ${MOCK_SCENARIOS.join(', ')}`, DEFAULT_MOCK_UPSTREAM_OPTIONS.scenario)
+  .option('--text <text>', 'Reply text for the text, slow and stream-error scenarios', DEFAULT_MOCK_UPSTREAM_OPTIONS.text)
+  .option('--delay-ms <ms>', 'Delay before each streamed delta in the slow scenario', String(DEFAULT_MOCK_UPSTREAM_OPTIONS.delayMs))
+  .option('--retry-after <seconds>', 'Retry-After value sent by the rate-limit scenario', String(DEFAULT_MOCK_UPSTREAM_OPTIONS.retryAfterSeconds))
+  .action(async (options) => {
+    if (!isMockScenario(options.scenario)) {
+      console.error(`Error: --scenario must be one of ${MOCK_SCENARIOS.join(', ')}`);
+      process.exit(1);
+    }
+    const delayMs = parseInt(options.delayMs, 10);
+    const retryAfterSeconds = parseInt(options.retryAfter, 10);
+    if (!Number.isInteger(delayMs) || delayMs < 0 || !Number.isInteger(retryAfterSeconds) || retryAfterSeconds < 0) {
+      console.error('Error: --delay-ms and --retry-after must be non-negative integers');
+      process.exit(1);
+    }
+
+    const port = parseInt(options.port, 10);
+    try {
+      await startMockUpstream({ scenario: options.scenario, text: options.text, delayMs, retryAfterSeconds }, port, options.host);
+    } catch (error) {
+      console.error(`Error: ${(error as Error).message}`);
+      process.exit(1);
+    }
+    console.log(`Mock upstream listening on http://${options.host}:${port}/v1 (default scenario: ${options.scenario})`);
+    console.log('Pick a scenario per request with the model name mock-<scenario> or the x-mock-scenario header.');
+  });
+
+// Reads a secret from a terminal without echoing it; the prompt goes to stderr so stdout only carries the result
+function promptHidden(prompt: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let value = '';
+    const finish = () => {
+      process.stdin.off('data', onData);
+      process.stdin.setRawMode(false);
+      process.stdin.pause();
+      process.stderr.write('\n');
+    };
+    const onData = (chunk: string) => {
+      for (const char of chunk) {
+        if (char === '\r' || char === '\n') {
+          finish();
+          resolve(value);
+          return;
+        }
+        if (char === '\u0003') {
+          finish();
+          reject(new Error('Canceled'));
+          return;
+        }
+        value = char === '\u007f' || char === '\b' ? value.slice(0, -1) : value + char;
+      }
+    };
+
+    process.stderr.write(prompt);
+    process.stdin.setRawMode(true);
+    process.stdin.setEncoding('utf8');
+    process.stdin.on('data', onData);
+    process.stdin.resume();
+  });
+}
+
+async function readStdin(): Promise<string> {
+  let input = '';
+  process.stdin.setEncoding('utf8');
+  for await (const chunk of process.stdin) {
+    input += chunk;
+  }
+  return input;
+}
+
+// The key is never taken from argv, where it would end up in shell history and be visible in ps
+program
+  .command('hash-key')
+  .description('Print the hash of a client API key, read from stdin or a hidden prompt, for the "auth.keys" section of the config file')
+  .action(async () => {
+    let key: string;
+    try {
+      key = process.stdin.isTTY ? await promptHidden('API key: ') : (await readStdin()).replace(/\r?\n$/, '');
+    } catch (error) {
+      console.error(`Error: ${(error as Error).message}`);
+      process.exit(1);
+    }
+    if (!key) {
+      console.error('Error: no API key given on stdin');
+      process.exit(1);
+    }
+    console.log(hashApiKey(key));
+  });
+
 program.parse();
\ No newline at end of file
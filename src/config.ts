@@ -0,0 +1,28 @@
+import { readFileSync } from 'fs';
+import { ProxyConfigFile, ProxyConfigFileSchema } from './types.js';
+
+export function loadConfigFile(filePath: string): ProxyConfigFile {
+  let rawContent: string;
+  try {
+    rawContent = readFileSync(filePath, 'utf-8');
+  } catch (error) {
+    throw new Error(`Unable to read config file '${filePath}': ${(error as Error).message}`);
+  }
+
+  let parsedContent: unknown;
+  try {
+    parsedContent = JSON.parse(rawContent);
+  } catch (error) {
+    throw new Error(`Config file '${filePath}' is not valid JSON: ${(error as Error).message}`);
+  }
+
+  const result = ProxyConfigFileSchema.safeParse(parsedContent);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map(issue => `${issue.path.join('.') || '<root>'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Config file '${filePath}' is invalid: ${issues}`);
+  }
+
+  return result.data;
+}
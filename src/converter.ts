@@ -4,16 +4,40 @@ import {
   ContentBlock,
   Tool,
   ToolChoice,
+  ThinkingConfig,
   StopReasonType,
   LogEvent,
+  MessagesRequest,
   MessagesResponse,
   Usage,
   ContentBlockText,
+  ContentBlockThinking,
   ContentBlockToolUse,
+  OpenAIReasoningFields,
+  OpenAICacheUsageFields,
+  OpenAISamplingFields,
+  ProviderConfig,
+  CacheControl,
+  ContentBlockImageSource,
+  ContentBlockDocument,
+  ContentBlockImageSchema,
+  ContentBlockDocumentSchema,
 } from './types.js';
 import { Logger } from './logger.js';
+import { withSpan } from './tracing.js';
 import { ChatCompletion } from 'openai/resources/chat/completions';
-import type { ChatCompletionMessageParam, ChatCompletionTool, ChatCompletionToolChoiceOption } from 'openai/resources/chat/completions';
+import type { CompletionUsage } from 'openai/resources/completions';
+import type {
+  ChatCompletionContentPart,
+  ChatCompletionCreateParams,
+  ChatCompletionMessageParam,
+  ChatCompletionTool,
+  ChatCompletionToolChoiceOption,
+} from 'openai/resources/chat/completions';
+
+// Upstream reasoning carries no Anthropic signature. Clients that send thinking blocks back (e.g. Claude Code with
+// thinking enabled) expect a non-empty one; it is never checked, since replayed thinking is dropped on the way in.
+export const PLACEHOLDER_THINKING_SIGNATURE = 'anthropic-proxy-unsigned';
 
 export function selectTargetModel(clientModelName: string, bigModelName: string, smallModelName: string, logger: Logger, requestId: string): string {
   const clientModelLower = clientModelName.toLowerCase();
@@ -46,11 +70,44 @@ export function selectTargetModel(clientModelName: string, bigModelName: string,
   return targetModel;
 }
 
+export interface MessageConversionOptions {
+  // Keep Anthropic cache_control markers on content parts for upstreams that honour them
+  forwardCacheControl?: boolean;
+  // Send PDF documents as OpenAI 'file' content parts instead of text
+  fileParts?: boolean;
+  // OpenAI tool messages are text-only: re-send tool result images in a user message, or replace them with a notice
+  toolResultImages?: 'user_message' | 'placeholder';
+}
+
+interface SerializedToolResult {
+  text: string;
+  attachmentParts: ChatCompletionContentPart[];
+}
+
+const TOOL_ERROR_OPEN_TAG = '<tool_use_error>';
+const TOOL_ERROR_CLOSE_TAG = '</tool_use_error>';
+
+export function getMessageConversionOptions(providerConfig?: ProviderConfig): MessageConversionOptions {
+  return {
+    forwardCacheControl: providerConfig?.promptCaching === true,
+    fileParts: providerConfig?.fileParts === true,
+    toolResultImages: providerConfig?.toolResultImages || 'user_message',
+  };
+}
+
+function withCacheControl<T extends object>(part: T, cacheControl: CacheControl | undefined, options: MessageConversionOptions): T {
+  if (!cacheControl || !options.forwardCacheControl) {
+    return part;
+  }
+  return { ...part, cache_control: cacheControl };
+}
+
 export function convertAnthropicToOpenAIMessages(
   anthropicMessages: Message[],
   anthropicSystem?: string | SystemContent[],
   logger?: Logger,
-  requestId?: string
+  requestId?: string,
+  options: MessageConversionOptions = {}
 ): ChatCompletionMessageParam[] {
   const openaiMessages: ChatCompletionMessageParam[] = [];
 
@@ -59,18 +116,25 @@ export function convertAnthropicToOpenAIMessages(
   if (typeof anthropicSystem === 'string') {
     systemTextContent = anthropicSystem;
   } else if (Array.isArray(anthropicSystem)) {
-    const systemTexts = anthropicSystem
-      .filter((block): block is SystemContent => block.type === 'text')
-      .map(block => block.text);
+    const systemBlocks = anthropicSystem.filter((block): block is SystemContent => block.type === 'text');
     
-    if (systemTexts.length < anthropicSystem.length && logger) {
+    if (systemBlocks.length < anthropicSystem.length && logger) {
       logger.warning({
         event: LogEvent.SYSTEM_PROMPT_ADJUSTED,
         message: 'Non-text content blocks in Anthropic system prompt were ignored.',
         request_id: requestId,
       });
     }
-    systemTextContent = systemTexts.join('\n');
+
+    if (options.forwardCacheControl && systemBlocks.some(block => block.cache_control)) {
+      // Cache breakpoints only survive when the system prompt keeps its block structure
+      openaiMessages.push({
+        role: 'system',
+        content: systemBlocks.map(block => withCacheControl({ type: 'text' as const, text: block.text }, block.cache_control, options)),
+      });
+    } else {
+      systemTextContent = systemBlocks.map(block => block.text).join('\n');
+    }
   }
 
   if (systemTextContent) {
@@ -88,7 +152,8 @@ export function convertAnthropicToOpenAIMessages(
     }
 
     if (Array.isArray(content)) {
-      const openaiPartsForUserMessage: Array<{ type: string; text?: string; image_url?: { url: string } }> = [];
+      const openaiPartsForUserMessage: ChatCompletionContentPart[] = [];
+      const toolResultAttachmentParts: ChatCompletionContentPart[] = [];
       const assistantToolCalls: Array<{ id: string; type: 'function'; function: { name: string; arguments: string } }> = [];
       const textContentForAssistant: string[] = [];
 
@@ -108,7 +173,7 @@ export function convertAnthropicToOpenAIMessages(
         switch (block.type) {
           case 'text':
             if (role === 'user') {
-              openaiPartsForUserMessage.push({ type: 'text', text: block.text });
+              openaiPartsForUserMessage.push(withCacheControl({ type: 'text', text: block.text }, block.cache_control, options));
             } else if (role === 'assistant') {
               textContentForAssistant.push(block.text);
             }
@@ -116,17 +181,16 @@ export function convertAnthropicToOpenAIMessages(
 
           case 'image':
             if (role === 'user') {
-              if (block.source.type === 'base64') {
-                openaiPartsForUserMessage.push({
-                  type: 'image_url',
-                  image_url: {
-                    url: `data:${block.source.media_type};base64,${block.source.data}`,
-                  },
-                });
+              const imageUrl = convertAnthropicImageSourceToUrl(block.source);
+              if (imageUrl) {
+                openaiPartsForUserMessage.push(withCacheControl({
+                  type: 'image_url' as const,
+                  image_url: { url: imageUrl },
+                }, block.cache_control, options));
               } else if (logger) {
                 logger.warning({
                   event: LogEvent.IMAGE_FORMAT_UNSUPPORTED,
-                  message: `Image block with source type '${block.source.type}' (expected 'base64') ignored in user message ${i}.`,
+                  message: `Image block with source type '${block.source.type}' (expected 'base64' or 'url') ignored in user message ${i}.`,
                   request_id: requestId,
                   data: blockLogCtx,
                 });
@@ -134,6 +198,14 @@ export function convertAnthropicToOpenAIMessages(
             }
             break;
 
+          case 'document':
+            if (role === 'user') {
+              openaiPartsForUserMessage.push(
+                ...convertAnthropicDocumentToOpenAIParts(block, options, logger, requestId, blockLogCtx)
+              );
+            }
+            break;
+
           case 'tool_use':
             if (role === 'assistant') {
               try {
@@ -165,31 +237,63 @@ export function convertAnthropicToOpenAIMessages(
             }
             break;
 
+          case 'thinking':
+          case 'redacted_thinking':
+            // OpenAI-compatible APIs have no input format for prior reasoning, and some reject it outright.
+            // The upstream never sees these blocks, so their signature (PLACEHOLDER_THINKING_SIGNATURE for
+            // thinking this proxy returned) is not verified either
+            if (logger) {
+              logger.debug({
+                event: LogEvent.THINKING_BLOCK_DROPPED,
+                message: `Dropped replayed '${block.type}' block from ${role} message ${i}.`,
+                request_id: requestId,
+                data: blockLogCtx,
+              });
+            }
+            break;
+
           case 'tool_result':
             if (role === 'user') {
-              const serializedContent = serializeToolResultContentForOpenAI(
+              const serializedResult = serializeToolResultContentForOpenAI(
                 block.content,
+                options,
                 logger,
                 requestId,
                 blockLogCtx
               );
+              let serializedContent = serializedResult.text;
+              if (block.is_error && !serializedContent.trimStart().startsWith(TOOL_ERROR_OPEN_TAG)) {
+                serializedContent = `${TOOL_ERROR_OPEN_TAG}${serializedContent}${TOOL_ERROR_CLOSE_TAG}`;
+              }
+              if (serializedResult.attachmentParts.length > 0) {
+                toolResultAttachmentParts.push(
+                  { type: 'text', text: `Attachments returned by tool call ${block.tool_use_id}:` },
+                  ...serializedResult.attachmentParts
+                );
+              }
               openaiMessages.push({
                 role: 'tool',
                 tool_call_id: block.tool_use_id,
-                content: serializedContent,
+                content: block.cache_control && options.forwardCacheControl
+                  ? [withCacheControl({ type: 'text' as const, text: serializedContent }, block.cache_control, options)]
+                  : serializedContent,
               });
             }
             break;
         }
       }
 
+      // Tool result attachments must follow all tool messages, so they lead the user message
+      openaiPartsForUserMessage.unshift(...toolResultAttachmentParts);
+
       // Handle user message parts
       if (role === 'user' && openaiPartsForUserMessage.length > 0) {
-        const isMultimodal = openaiPartsForUserMessage.some(part => part.type === 'image_url');
-        if (isMultimodal || openaiPartsForUserMessage.length > 1) {
-          openaiMessages.push({ role: 'user', content: JSON.stringify(openaiPartsForUserMessage) });
-        } else if (openaiPartsForUserMessage.length === 1 && openaiPartsForUserMessage[0].type === 'text') {
-          openaiMessages.push({ role: 'user', content: openaiPartsForUserMessage[0].text! });
+        const [firstPart] = openaiPartsForUserMessage;
+        if (openaiPartsForUserMessage.length === 1 && firstPart.type === 'text' && !('cache_control' in firstPart)) {
+          openaiMessages.push({ role: 'user', content: firstPart.text });
+        } else {
+          // Images and multiple text parts keep their original order as OpenAI content parts
+          openaiMessages.push({ role: 'user', content: openaiPartsForUserMessage });
         }
       } else if (role === 'user' && openaiPartsForUserMessage.length === 0) {
         openaiMessages.push({ role: 'user', content: '' });
@@ -245,23 +349,130 @@ export function convertAnthropicToOpenAIMessages(
   return finalOpenAIMessages;
 }
 
+function convertAnthropicImageSourceToUrl(source: ContentBlockImageSource): string | undefined {
+  switch (source.type) {
+    case 'base64':
+      return `data:${source.media_type};base64,${source.data}`;
+    case 'url':
+      return source.url;
+    default:
+      // Anthropic Files API references cannot be resolved by OpenAI-compatible upstreams
+      return undefined;
+  }
+}
+
+function formatDocumentText(document: ContentBlockDocument, body: string): string {
+  const titleAttr = document.title ? ` title="${document.title.replace(/"/g, '&quot;')}"` : '';
+  const contextSection = document.context ? `<context>\n${document.context}\n</context>\n` : '';
+  return `<document${titleAttr}>\n${contextSection}${body}\n</document>`;
+}
+
+function convertAnthropicDocumentToOpenAIParts(
+  document: ContentBlockDocument,
+  options: MessageConversionOptions,
+  logger?: Logger,
+  requestId?: string,
+  logContext?: Record<string, unknown>
+): ChatCompletionContentPart[] {
+  const { source } = document;
+  const textPart = (text: string): ChatCompletionContentPart =>
+    withCacheControl({ type: 'text' as const, text }, document.cache_control, options);
+
+  switch (source.type) {
+    case 'text':
+      return [textPart(formatDocumentText(document, source.data))];
+
+    case 'content': {
+      if (typeof source.content === 'string') {
+        return [textPart(formatDocumentText(document, source.content))];
+      }
+      const texts = source.content
+        .filter((block): block is ContentBlockText => block.type === 'text')
+        .map(block => block.text);
+      const parts: ChatCompletionContentPart[] = [textPart(formatDocumentText(document, texts.join('\n')))];
+      for (const block of source.content) {
+        const imageUrl = block.type === 'image' ? convertAnthropicImageSourceToUrl(block.source) : undefined;
+        if (imageUrl) {
+          parts.push({ type: 'image_url', image_url: { url: imageUrl } });
+        }
+      }
+      return parts;
+    }
+
+    case 'base64':
+    case 'url':
+      if (options.fileParts) {
+        const fileData = source.type === 'base64'
+          ? `data:${source.media_type};base64,${source.data}`
+          : source.url;
+        return [withCacheControl({
+          type: 'file' as const,
+          file: {
+            filename: document.title || 'document.pdf',
+            file_data: fileData,
+          },
+        }, document.cache_control, options)];
+      }
+      break;
+  }
+
+  // PDFs and file references cannot be turned into text here, so tell the model what it is missing
+  const description = source.type === 'url'
+    ? `[Document available at ${source.url} could not be attached: the upstream model does not accept file content.]`
+    : `[${source.type === 'base64' ? 'PDF document' : 'File reference'} omitted: the upstream model does not accept file content.]`;
+  if (logger) {
+    logger.warning({
+      event: LogEvent.DOCUMENT_FORMAT_UNSUPPORTED,
+      message: `Document block with source type '${source.type}' could not be forwarded as a file part; replaced with a text notice.`,
+      request_id: requestId,
+      data: { ...logContext, document_title: document.title },
+    });
+  }
+  return [textPart(formatDocumentText(document, description))];
+}
+
 function serializeToolResultContentForOpenAI(
   anthropicToolResultContent: string | Record<string, unknown>[] | unknown[],
+  options: MessageConversionOptions,
   logger?: Logger,
   requestId?: string,
   logContext?: Record<string, unknown>
-): string {
+): SerializedToolResult {
   if (typeof anthropicToolResultContent === 'string') {
-    return anthropicToolResultContent;
+    return { text: anthropicToolResultContent, attachmentParts: [] };
   }
 
   if (Array.isArray(anthropicToolResultContent)) {
     const processedParts: string[] = [];
+    const attachmentParts: ChatCompletionContentPart[] = [];
     let containsNonTextBlock = false;
 
+    const addAttachment = (part: ChatCompletionContentPart, kind: string): void => {
+      if (options.toolResultImages === 'placeholder') {
+        processedParts.push(`[${kind} omitted: the upstream model cannot receive it in a tool result]`);
+      } else {
+        attachmentParts.push(part);
+        processedParts.push(`[${kind} attached in the following user message]`);
+      }
+    };
+
     for (const item of anthropicToolResultContent) {
+      const image = ContentBlockImageSchema.safeParse(item);
+      const document = ContentBlockDocumentSchema.safeParse(item);
+      const imageUrl = image.success ? convertAnthropicImageSourceToUrl(image.data.source) : undefined;
+
       if (typeof item === 'object' && item !== null && 'type' in item && item.type === 'text' && 'text' in item) {
         processedParts.push(String(item.text));
+      } else if (imageUrl) {
+        addAttachment({ type: 'image_url', image_url: { url: imageUrl } }, 'image');
+      } else if (document.success) {
+        for (const part of convertAnthropicDocumentToOpenAIParts(document.data, options, logger, requestId, logContext)) {
+          if (part.type === 'text') {
+            processedParts.push(part.text);
+          } else {
+            addAttachment(part, part.type === 'file' ? 'document' : 'image');
+          }
+        }
       } else {
         try {
           processedParts.push(JSON.stringify(item));
@@ -282,11 +493,11 @@ function serializeToolResultContentForOpenAI(
         data: { ...logContext, result_str_preview: resultStr.substring(0, 100) },
       });
     }
-    return resultStr;
+    return { text: resultStr, attachmentParts };
   }
 
   try {
-    return JSON.stringify(anthropicToolResultContent);
+    return { text: JSON.stringify(anthropicToolResultContent), attachmentParts: [] };
   } catch (error) {
     if (logger) {
       logger.warning({
@@ -296,31 +507,38 @@ function serializeToolResultContentForOpenAI(
         data: logContext,
       });
     }
-    return JSON.stringify({
-      error: 'Serialization failed',
-      original_type: typeof anthropicToolResultContent,
-    });
+    return {
+      text: JSON.stringify({
+        error: 'Serialization failed',
+        original_type: typeof anthropicToolResultContent,
+      }),
+      attachmentParts: [],
+    };
   }
 }
 
-export function convertAnthropicToolsToOpenAI(anthropicTools?: Tool[]): ChatCompletionTool[] | undefined {
+export function convertAnthropicToolsToOpenAI(
+  anthropicTools?: Tool[],
+  options: MessageConversionOptions = {}
+): ChatCompletionTool[] | undefined {
   if (!anthropicTools) {
     return undefined;
   }
-  return anthropicTools.map(t => ({
+  return anthropicTools.map(t => withCacheControl({
     type: 'function' as const,
     function: {
       name: t.name,
       description: t.description || '',
       parameters: t.input_schema as Record<string, unknown>,
     },
-  }));
+  }, t.cache_control, options));
 }
 
 export function convertAnthropicToolChoiceToOpenAI(
   anthropicChoice?: ToolChoice,
   logger?: Logger,
-  requestId?: string
+  requestId?: string,
+  supportsRequiredToolChoice: boolean = true
 ): ChatCompletionToolChoiceOption | undefined {
   if (!anthropicChoice) {
     return undefined;
@@ -330,11 +548,18 @@ export function convertAnthropicToolChoiceToOpenAI(
     return 'auto';
   }
 
+  if (anthropicChoice.type === 'none') {
+    return 'none';
+  }
+
   if (anthropicChoice.type === 'any') {
+    if (supportsRequiredToolChoice) {
+      return 'required';
+    }
     if (logger) {
       logger.warning({
         event: LogEvent.TOOL_CHOICE_UNSUPPORTED,
-        message: "Anthropic tool_choice type 'any' mapped to OpenAI 'auto'. Exact behavior might differ (OpenAI 'auto' allows no tool use).",
+        message: "Anthropic tool_choice type 'any' mapped to OpenAI 'auto' as the provider does not support 'required'. Exact behavior might differ (OpenAI 'auto' allows no tool use).",
         request_id: requestId,
         data: { anthropic_tool_choice: anthropicChoice },
       });
@@ -357,6 +582,174 @@ export function convertAnthropicToolChoiceToOpenAI(
   return 'auto';
 }
 
+// Upstreams may silently ignore a forced tool choice, so compare it with the tools actually called
+export function checkToolChoiceHonored(
+  anthropicChoice: ToolChoice | undefined,
+  calledToolNames: string[],
+  logger?: Logger,
+  requestId?: string
+): boolean {
+  if (!anthropicChoice) {
+    return true;
+  }
+
+  let violation: string | undefined;
+  if (anthropicChoice.type === 'any' && calledToolNames.length === 0) {
+    violation = "tool_choice 'any' required a tool call but the model called none.";
+  } else if (anthropicChoice.type === 'tool' && !calledToolNames.includes(anthropicChoice.name || '')) {
+    violation = `tool_choice required tool '${anthropicChoice.name}' but the model called ${calledToolNames.length > 0 ? calledToolNames.join(', ') : 'none'}.`;
+  } else if (anthropicChoice.type === 'none' && calledToolNames.length > 0) {
+    violation = `tool_choice 'none' forbade tool calls but the model called ${calledToolNames.join(', ')}.`;
+  }
+
+  if (violation && logger) {
+    logger.warning({
+      event: LogEvent.TOOL_CHOICE_NOT_HONORED,
+      message: `Upstream did not honor ${violation}`,
+      request_id: requestId,
+      data: { anthropic_tool_choice: anthropicChoice, called_tools: calledToolNames },
+    });
+  }
+  return violation === undefined;
+}
+
+export function convertAnthropicThinkingToOpenAI(
+  thinking: ThinkingConfig | undefined,
+  providerConfig?: ProviderConfig,
+  logger?: Logger,
+  requestId?: string
+): Record<string, unknown> {
+  if (!thinking || thinking.type !== 'enabled') {
+    return {};
+  }
+
+  // Opt-in per provider: upstreams without reasoning support may reject the extra parameters
+  const reasoningFormat = providerConfig?.reasoningFormat || 'none';
+  let reasoningParams: Record<string, unknown> = {};
+
+  if (reasoningFormat === 'openrouter') {
+    reasoningParams = { reasoning: { max_tokens: thinking.budget_tokens } };
+  } else if (reasoningFormat === 'reasoning_effort') {
+    let reasoningEffort: 'low' | 'medium' | 'high' = 'high';
+    if (thinking.budget_tokens < 4096) {
+      reasoningEffort = 'low';
+    } else if (thinking.budget_tokens < 16384) {
+      reasoningEffort = 'medium';
+    }
+    reasoningParams = { reasoning_effort: reasoningEffort };
+  }
+
+  if (logger) {
+    logger.debug({
+      event: LogEvent.THINKING_MAPPED,
+      message: `Mapped Anthropic thinking budget of ${thinking.budget_tokens} tokens using reasoning format '${reasoningFormat}'.`,
+      request_id: requestId,
+      data: { budget_tokens: thinking.budget_tokens, reasoning_format: reasoningFormat, params: reasoningParams },
+    });
+  }
+  return reasoningParams;
+}
+
+// Native adapters carry top_k through to the upstream; the OpenAI APIs have no equivalent
+function providerSupportsTopK(providerConfig?: ProviderConfig): boolean {
+  return providerConfig?.protocol === 'ollama' || providerConfig?.protocol === 'gemini';
+}
+
+export function convertAnthropicRequestToOpenAIParams(
+  anthropicRequest: MessagesRequest,
+  targetModelName: string,
+  providerConfig?: ProviderConfig,
+  logger?: Logger,
+  requestId?: string
+): ChatCompletionCreateParams {
+  const conversionOptions = getMessageConversionOptions(providerConfig);
+  const openaiMessages = withSpan(
+    'convertAnthropicToOpenAIMessages',
+    { 'proxy.anthropic_message_count': anthropicRequest.messages.length },
+    span => {
+      const messages = convertAnthropicToOpenAIMessages(
+        anthropicRequest.messages,
+        anthropicRequest.system,
+        logger,
+        requestId,
+        conversionOptions
+      );
+      span.setAttribute('proxy.openai_message_count', messages.length);
+      return messages;
+    }
+  );
+  const openaiTools = convertAnthropicToolsToOpenAI(anthropicRequest.tools, conversionOptions);
+  const openaiToolChoice = convertAnthropicToolChoiceToOpenAI(
+    anthropicRequest.tool_choice,
+    logger,
+    requestId,
+    providerConfig?.requiredToolChoice !== false
+  );
+
+  const openaiParams: ChatCompletionCreateParams = {
+    model: targetModelName,
+    messages: openaiMessages,
+    max_tokens: anthropicRequest.max_tokens,
+    stream: anthropicRequest.stream || false,
+  };
+
+  if (anthropicRequest.temperature !== undefined) {
+    openaiParams.temperature = anthropicRequest.temperature;
+  }
+  if (anthropicRequest.top_p !== undefined) {
+    openaiParams.top_p = anthropicRequest.top_p;
+  }
+  if (anthropicRequest.stop_sequences) {
+    openaiParams.stop = anthropicRequest.stop_sequences;
+  }
+  if (anthropicRequest.top_k !== undefined) {
+    if (providerSupportsTopK(providerConfig)) {
+      (openaiParams as ChatCompletionCreateParams & OpenAISamplingFields).top_k = anthropicRequest.top_k;
+    } else if (logger) {
+      logger.warning({
+        event: LogEvent.PARAMETER_UNSUPPORTED,
+        message: "Parameter 'top_k' provided by client but is not directly supported by the OpenAI Chat Completions API and will be ignored.",
+        request_id: requestId,
+        data: { parameter: 'top_k', value: anthropicRequest.top_k },
+      });
+    }
+  }
+  if (openaiTools) {
+    openaiParams.tools = openaiTools;
+  }
+  if (openaiToolChoice) {
+    openaiParams.tool_choice = openaiToolChoice;
+  }
+  if (openaiTools && anthropicRequest.tool_choice?.disable_parallel_tool_use) {
+    openaiParams.parallel_tool_calls = false;
+  }
+  if (anthropicRequest.metadata?.user_id) {
+    openaiParams.user = String(anthropicRequest.metadata.user_id);
+  }
+  Object.assign(
+    openaiParams,
+    convertAnthropicThinkingToOpenAI(anthropicRequest.thinking, providerConfig, logger, requestId)
+  );
+
+  return openaiParams;
+}
+
+export function convertOpenAIUsageToAnthropic(usage?: CompletionUsage | null): Usage {
+  const cacheUsage = (usage || {}) as OpenAICacheUsageFields;
+  const cacheReadTokens = cacheUsage.prompt_tokens_details?.cached_tokens || 0;
+  const cacheCreationTokens = cacheUsage.cache_creation_input_tokens
+    || cacheUsage.prompt_tokens_details?.cache_write_tokens
+    || 0;
+
+  // OpenAI counts cached prompt tokens inside prompt_tokens, Anthropic reports them separately
+  return {
+    input_tokens: Math.max(0, (usage?.prompt_tokens || 0) - cacheReadTokens - cacheCreationTokens),
+    output_tokens: usage?.completion_tokens || 0,
+    cache_creation_input_tokens: cacheCreationTokens,
+    cache_read_input_tokens: cacheReadTokens,
+  };
+}
+
 export function convertOpenAIToAnthropicResponse(
   openaiResponse: ChatCompletion,
   originalAnthropicModelName: string,
@@ -381,6 +774,17 @@ export function convertOpenAIToAnthropicResponse(
 
     anthropicStopReason = stopReasonMap[finishReason || ''] || 'end_turn';
 
+    // DeepSeek/vLLM return reasoning as 'reasoning_content', OpenRouter as 'reasoning'
+    const reasoningFields = message as typeof message & OpenAIReasoningFields;
+    const reasoningText = reasoningFields.reasoning_content || reasoningFields.reasoning;
+    if (reasoningText) {
+      anthropicContent.push({
+        type: 'thinking',
+        thinking: reasoningText,
+        signature: PLACEHOLDER_THINKING_SIGNATURE,
+      } as ContentBlockThinking);
+    }
+
     if (message.content) {
       anthropicContent.push({
         type: 'text',
@@ -447,11 +851,7 @@ export function convertOpenAIToAnthropicResponse(
     } as ContentBlockText);
   }
 
-  const usage = openaiResponse.usage;
-  const anthropicUsage: Usage = {
-    input_tokens: usage?.prompt_tokens || 0,
-    output_tokens: usage?.completion_tokens || 0,
-  };
+  const anthropicUsage = convertOpenAIUsageToAnthropic(openaiResponse.usage);
 
   const responseId = openaiResponse.id 
     ? `msg_${openaiResponse.id}` 
@@ -0,0 +1,615 @@
+import { APIError } from 'openai';
+import type {
+  ChatCompletion,
+  ChatCompletionChunk,
+  ChatCompletionContentPart,
+  ChatCompletionCreateParams,
+  ChatCompletionMessageToolCall
+} from 'openai/resources/chat/completions';
+import { v4 as uuidv4 } from 'uuid';
+import { LogEvent, OpenAIReasoningFields, OpenAISamplingFields, ProviderConfig } from './types.js';
+import { Logger } from './logger.js';
+import { UpstreamClient, UpstreamModel } from './upstream.js';
+import { fetchUpstream, readLines, UpstreamHttpOptions } from './http.js';
+
+export interface GeminiPart {
+  text?: string;
+  thought?: boolean;
+  inlineData?: { mimeType: string; data: string };
+  functionCall?: { id?: string; name: string; args?: Record<string, unknown> };
+  functionResponse?: { name: string; response: Record<string, unknown> };
+  thoughtSignature?: string;
+}
+
+export interface GeminiContent {
+  role: 'user' | 'model';
+  parts: GeminiPart[];
+}
+
+export interface GeminiFunctionDeclaration {
+  name: string;
+  description?: string;
+  parameters?: Record<string, unknown>;
+}
+
+export interface GeminiGenerateContentRequest {
+  contents: GeminiContent[];
+  systemInstruction?: { parts: GeminiPart[] };
+  tools?: Array<{ functionDeclarations: GeminiFunctionDeclaration[] }>;
+  toolConfig?: { functionCallingConfig: { mode: 'AUTO' | 'ANY' | 'NONE'; allowedFunctionNames?: string[] } };
+  generationConfig?: Record<string, unknown>;
+}
+
+export interface GeminiUsageMetadata {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  thoughtsTokenCount?: number;
+  cachedContentTokenCount?: number;
+  totalTokenCount?: number;
+}
+
+export interface GeminiGenerateContentResponse {
+  candidates?: Array<{
+    content?: { role?: string; parts?: GeminiPart[] };
+    finishReason?: string;
+    index?: number;
+  }>;
+  promptFeedback?: { blockReason?: string };
+  usageMetadata?: GeminiUsageMetadata;
+  modelVersion?: string;
+  responseId?: string;
+  error?: { code?: number; message?: string; status?: string };
+}
+
+type ChatCompletionFinishReason = ChatCompletion.Choice['finish_reason'];
+
+const DATA_URL_PATTERN = /^data:([^;,]+);base64,(.*)$/s;
+
+// Gemini accepts an OpenAPI subset of JSON Schema and rejects requests containing anything else
+const GEMINI_SCHEMA_KEYWORDS = new Set([
+  'type', 'format', 'description', 'nullable', 'enum', 'items', 'minItems', 'maxItems',
+  'properties', 'required', 'minProperties', 'maxProperties', 'minLength', 'maxLength',
+  'pattern', 'minimum', 'maximum', 'anyOf', 'title', 'propertyOrdering',
+]);
+const GEMINI_STRING_FORMATS = new Set(['enum', 'date-time']);
+
+// Thinking models sign their function calls and expect the signature back on the next turn. Clients only echo
+// the tool_use id, so the signature travels inside it, base64url-encoded to stay a valid Anthropic tool ID
+const THOUGHT_SIGNATURE_ID_MARKER = '__sig_';
+
+// Local $refs are inlined, since Gemini has no $defs; a recursive schema is cut off at this nesting depth
+const MAX_SCHEMA_REF_DEPTH = 8;
+
+// Thinking budgets used when the request only carries an effort level
+const THINKING_BUDGET_BY_EFFORT: Record<string, number> = { low: 1024, medium: 8192, high: 24576 };
+
+interface SchemaCleaningContext {
+  root: Record<string, unknown>;
+  refDepth: number;
+  logger?: Logger;
+  requestId?: string;
+}
+
+// Resolves a JSON pointer such as #/$defs/Address against the root schema
+function resolveLocalSchemaRef(root: Record<string, unknown>, ref: string): unknown {
+  if (!ref.startsWith('#')) {
+    return undefined;
+  }
+  let node: unknown = root;
+  for (const token of ref.slice(1).split('/').filter(Boolean)) {
+    if (!node || typeof node !== 'object') {
+      return undefined;
+    }
+    node = (node as Record<string, unknown>)[token.replace(/~1/g, '/').replace(/~0/g, '~')];
+  }
+  return node;
+}
+
+export function cleanJsonSchemaForGemini(schema: unknown, logger?: Logger, requestId?: string): Record<string, unknown> {
+  const root = schema && typeof schema === 'object' && !Array.isArray(schema) ? schema as Record<string, unknown> : {};
+  return cleanSchemaNode(schema, { root, refDepth: 0, logger, requestId });
+}
+
+function cleanSchemaNode(schema: unknown, context: SchemaCleaningContext): Record<string, unknown> {
+  if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+    return {};
+  }
+  let source = schema as Record<string, unknown>;
+
+  if (typeof source.$ref === 'string') {
+    const { $ref: ref, ...siblings } = source;
+    const resolved = context.refDepth < MAX_SCHEMA_REF_DEPTH ? resolveLocalSchemaRef(context.root, ref) : undefined;
+    if (!resolved || typeof resolved !== 'object') {
+      if (context.logger) {
+        context.logger.warning({
+          event: LogEvent.PARAMETER_UNSUPPORTED,
+          message: `Tool schema reference '${ref}' could not be inlined for Gemini and was sent as an empty schema.`,
+          request_id: context.requestId,
+          data: { ref, ref_depth: context.refDepth },
+        });
+      }
+      return cleanSchemaNode(siblings, context);
+    }
+    source = { ...(resolved as Record<string, unknown>), ...siblings };
+    context = { ...context, refDepth: context.refDepth + 1 };
+  }
+  const cleanChild = (child: unknown) => cleanSchemaNode(child, context);
+  const cleaned: Record<string, unknown> = {};
+
+  for (const [keyword, value] of Object.entries(source)) {
+    if (!GEMINI_SCHEMA_KEYWORDS.has(keyword)) {
+      continue;
+    }
+    switch (keyword) {
+      case 'type':
+        if (Array.isArray(value)) {
+          // ["string", "null"] is written as a nullable single type
+          const types = value.filter(type => type !== 'null');
+          cleaned.type = types[0];
+          if (types.length < value.length) {
+            cleaned.nullable = true;
+          }
+        } else {
+          cleaned.type = value;
+        }
+        break;
+      case 'properties':
+        if (value && typeof value === 'object') {
+          cleaned.properties = Object.fromEntries(
+            Object.entries(value as Record<string, unknown>).map(([name, propertySchema]) => [name, cleanChild(propertySchema)])
+          );
+        }
+        break;
+      case 'items':
+        cleaned.items = cleanChild(value);
+        break;
+      case 'anyOf':
+        if (Array.isArray(value)) {
+          cleaned.anyOf = value.map(cleanChild);
+        }
+        break;
+      case 'format':
+        if (source.type !== 'string' || GEMINI_STRING_FORMATS.has(String(value))) {
+          cleaned.format = value;
+        }
+        break;
+      default:
+        cleaned[keyword] = value;
+        break;
+    }
+  }
+
+  if (source.const !== undefined && cleaned.enum === undefined) {
+    cleaned.enum = [source.const];
+  }
+  if (Array.isArray(cleaned.required) && cleaned.properties) {
+    // Gemini rejects required entries without a matching property
+    cleaned.required = cleaned.required.filter(name => name in (cleaned.properties as Record<string, unknown>));
+  }
+  return cleaned;
+}
+
+function getTextContent(content: string | Array<{ type: string; text?: string }> | null | undefined): string {
+  if (!content) {
+    return '';
+  }
+  if (typeof content === 'string') {
+    return content;
+  }
+  return content
+    .filter(part => part.type === 'text')
+    .map(part => part.text || '')
+    .join('\n');
+}
+
+function convertUserContentToGemini(
+  content: string | ChatCompletionContentPart[],
+  logger?: Logger,
+  requestId?: string
+): GeminiPart[] {
+  if (typeof content === 'string') {
+    return [{ text: content }];
+  }
+
+  const parts: GeminiPart[] = [];
+  for (const part of content) {
+    switch (part.type) {
+      case 'text':
+        parts.push({ text: part.text });
+        break;
+      case 'image_url': {
+        const match = part.image_url.url.match(DATA_URL_PATTERN);
+        if (match) {
+          parts.push({ inlineData: { mimeType: match[1], data: match[2] } });
+        } else if (logger) {
+          logger.warning({
+            event: LogEvent.IMAGE_FORMAT_UNSUPPORTED,
+            message: 'Image URL ignored: Gemini only accepts inline base64 image data.',
+            request_id: requestId,
+            data: { url: part.image_url.url },
+          });
+        }
+        break;
+      }
+      case 'file': {
+        const match = part.file.file_data?.match(DATA_URL_PATTERN);
+        if (match) {
+          parts.push({ inlineData: { mimeType: match[1], data: match[2] } });
+        } else if (logger) {
+          logger.warning({
+            event: LogEvent.DOCUMENT_FORMAT_UNSUPPORTED,
+            message: 'File content part ignored: Gemini only accepts inline base64 file data.',
+            request_id: requestId,
+            data: { filename: part.file.filename },
+          });
+        }
+        break;
+      }
+      default:
+        break;
+    }
+  }
+  return parts;
+}
+
+function parseToolArguments(argumentsJson: string, logger?: Logger, requestId?: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(argumentsJson || '{}');
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch (error) {
+    if (logger) {
+      logger.warning({
+        event: LogEvent.TOOL_ARGS_PARSE_FAILURE,
+        message: 'Tool call arguments are not valid JSON and were sent to Gemini as an empty object.',
+        request_id: requestId,
+        data: { arguments: argumentsJson },
+      }, error as Error);
+    }
+    return {};
+  }
+}
+
+function encodeToolCallId(id: string, thoughtSignature: string | undefined): string {
+  if (!thoughtSignature) {
+    return id;
+  }
+  return `${id}${THOUGHT_SIGNATURE_ID_MARKER}${Buffer.from(thoughtSignature, 'base64').toString('base64url')}`;
+}
+
+function decodeThoughtSignature(toolCallId: string): string | undefined {
+  const markerIndex = toolCallId.indexOf(THOUGHT_SIGNATURE_ID_MARKER);
+  if (markerIndex === -1) {
+    return undefined;
+  }
+  const encodedSignature = toolCallId.slice(markerIndex + THOUGHT_SIGNATURE_ID_MARKER.length);
+  return Buffer.from(encodedSignature, 'base64url').toString('base64');
+}
+
+function getThinkingBudget(params: ChatCompletionCreateParams): number | undefined {
+  // The OpenRouter reasoning format carries the exact Anthropic budget_tokens
+  const openrouterReasoning = (params as { reasoning?: { max_tokens?: number } }).reasoning;
+  if (openrouterReasoning?.max_tokens) {
+    return openrouterReasoning.max_tokens;
+  }
+  return params.reasoning_effort ? THINKING_BUDGET_BY_EFFORT[params.reasoning_effort] : undefined;
+}
+
+export function convertChatCompletionParamsToGemini(
+  params: ChatCompletionCreateParams,
+  logger?: Logger,
+  requestId?: string
+): GeminiGenerateContentRequest {
+  const systemParts: GeminiPart[] = [];
+  const contents: GeminiContent[] = [];
+  // Gemini matches function responses to calls by name rather than by ID
+  const toolNamesById: Map<string, string> = new Map();
+
+  // Consecutive messages of the same role (e.g. several tool results) form a single Gemini turn
+  const appendParts = (role: GeminiContent['role'], parts: GeminiPart[]) => {
+    const lastContent = contents[contents.length - 1];
+    if (lastContent && lastContent.role === role) {
+      lastContent.parts.push(...parts);
+    } else {
+      contents.push({ role, parts });
+    }
+  };
+
+  for (const message of params.messages) {
+    switch (message.role) {
+      case 'system':
+      case 'developer':
+        systemParts.push({ text: getTextContent(message.content) });
+        break;
+      case 'user':
+        appendParts('user', convertUserContentToGemini(message.content, logger, requestId));
+        break;
+      case 'assistant': {
+        const parts: GeminiPart[] = [];
+        const text = getTextContent(message.content);
+        if (text) {
+          parts.push({ text });
+        }
+        for (const toolCall of message.tool_calls || []) {
+          toolNamesById.set(toolCall.id, toolCall.function.name);
+          const thoughtSignature = decodeThoughtSignature(toolCall.id);
+          parts.push({
+            functionCall: {
+              name: toolCall.function.name,
+              args: parseToolArguments(toolCall.function.arguments, logger, requestId),
+            },
+            ...(thoughtSignature && { thoughtSignature }),
+          });
+        }
+        if (parts.length > 0) {
+          appendParts('model', parts);
+        }
+        break;
+      }
+      case 'tool':
+        appendParts('user', [{
+          functionResponse: {
+            name: toolNamesById.get(message.tool_call_id) || message.tool_call_id,
+            response: { content: getTextContent(message.content) },
+          },
+        }]);
+        break;
+      default:
+        break;
+    }
+  }
+
+  const geminiRequest: GeminiGenerateContentRequest = { contents };
+  if (systemParts.length > 0) {
+    geminiRequest.systemInstruction = { parts: systemParts };
+  }
+
+  if (params.tools && params.tools.length > 0) {
+    geminiRequest.tools = [{
+      functionDeclarations: params.tools.map(tool => {
+        const parameters = cleanJsonSchemaForGemini(tool.function.parameters, logger, requestId);
+        const hasProperties = Object.keys((parameters.properties as Record<string, unknown> | undefined) || {}).length > 0;
+        return {
+          name: tool.function.name,
+          ...(tool.function.description && { description: tool.function.description }),
+          // Gemini rejects object schemas without properties, so parameterless tools omit the schema
+          ...(hasProperties && { parameters }),
+        };
+      }),
+    }];
+  }
+  if (params.tool_choice !== undefined) {
+    if (params.tool_choice === 'none') {
+      geminiRequest.toolConfig = { functionCallingConfig: { mode: 'NONE' } };
+    } else if (params.tool_choice === 'required') {
+      geminiRequest.toolConfig = { functionCallingConfig: { mode: 'ANY' } };
+    } else if (typeof params.tool_choice === 'object') {
+      geminiRequest.toolConfig = {
+        functionCallingConfig: { mode: 'ANY', allowedFunctionNames: [params.tool_choice.function.name] },
+      };
+    }
+  }
+
+  const sampling = params as ChatCompletionCreateParams & OpenAISamplingFields;
+  const generationConfig: Record<string, unknown> = {
+    temperature: params.temperature ?? undefined,
+    topP: params.top_p ?? undefined,
+    topK: sampling.top_k,
+    maxOutputTokens: params.max_completion_tokens ?? params.max_tokens ?? undefined,
+    stopSequences: typeof params.stop === 'string' ? [params.stop] : params.stop ?? undefined,
+  };
+  const thinkingBudget = getThinkingBudget(params);
+  if (thinkingBudget !== undefined) {
+    generationConfig.thinkingConfig = { thinkingBudget, includeThoughts: true };
+  }
+  const definedGenerationConfig = Object.fromEntries(
+    Object.entries(generationConfig).filter(([, value]) => value !== undefined)
+  );
+  if (Object.keys(definedGenerationConfig).length > 0) {
+    geminiRequest.generationConfig = definedGenerationConfig;
+  }
+
+  return geminiRequest;
+}
+
+function getGeminiFinishReason(finishReason: string | undefined, hasToolCalls: boolean): ChatCompletionFinishReason {
+  if (hasToolCalls) {
+    return 'tool_calls';
+  }
+  switch (finishReason) {
+    case 'MAX_TOKENS':
+      return 'length';
+    case 'SAFETY':
+    case 'RECITATION':
+    case 'BLOCKLIST':
+    case 'PROHIBITED_CONTENT':
+    case 'SPII':
+      return 'content_filter';
+    default:
+      return 'stop';
+  }
+}
+
+function convertGeminiUsage(usage: GeminiUsageMetadata | undefined): NonNullable<ChatCompletion['usage']> {
+  const promptTokens = usage?.promptTokenCount || 0;
+  // Thinking tokens are billed as output
+  const completionTokens = (usage?.candidatesTokenCount || 0) + (usage?.thoughtsTokenCount || 0);
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: usage?.totalTokenCount || promptTokens + completionTokens,
+    prompt_tokens_details: { cached_tokens: usage?.cachedContentTokenCount || 0 },
+    completion_tokens_details: { reasoning_tokens: usage?.thoughtsTokenCount || 0 },
+  };
+}
+
+function convertGeminiFunctionCall(
+  functionCall: NonNullable<GeminiPart['functionCall']>,
+  thoughtSignature: string | undefined
+): ChatCompletionMessageToolCall {
+  return {
+    id: encodeToolCallId(functionCall.id || `call_${uuidv4().replace(/-/g, '').slice(0, 24)}`, thoughtSignature),
+    type: 'function',
+    function: { name: functionCall.name, arguments: JSON.stringify(functionCall.args ?? {}) },
+  };
+}
+
+function createGeminiError(message: string, status: number = 500): APIError {
+  return APIError.generate(status, { error: { message } }, message, {});
+}
+
+export function convertGeminiResponseToChatCompletion(response: GeminiGenerateContentResponse, model: string): ChatCompletion {
+  const candidate = response.candidates?.[0];
+  let text = '';
+  let thinking = '';
+  const toolCalls: ChatCompletionMessageToolCall[] = [];
+
+  for (const part of candidate?.content?.parts || []) {
+    if (part.functionCall) {
+      toolCalls.push(convertGeminiFunctionCall(part.functionCall, part.thoughtSignature));
+    } else if (part.text !== undefined) {
+      if (part.thought) {
+        thinking += part.text;
+      } else {
+        text += part.text;
+      }
+    }
+  }
+
+  const message: ChatCompletion.Choice['message'] & OpenAIReasoningFields = {
+    role: 'assistant',
+    content: text || null,
+    refusal: null,
+  };
+  if (toolCalls.length > 0) {
+    message.tool_calls = toolCalls;
+  }
+  if (thinking) {
+    message.reasoning_content = thinking;
+  }
+
+  // A blocked prompt comes back without candidates
+  const finishReason = candidate
+    ? getGeminiFinishReason(candidate.finishReason, toolCalls.length > 0)
+    : response.promptFeedback?.blockReason ? 'content_filter' : 'stop';
+
+  return {
+    id: response.responseId || `chatcmpl-${uuidv4()}`,
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model: response.modelVersion || model,
+    choices: [{ index: 0, message, finish_reason: finishReason, logprobs: null }],
+    usage: convertGeminiUsage(response.usageMetadata),
+  };
+}
+
+export async function* convertGeminiStreamToChatCompletionChunks(
+  responses: AsyncIterable<GeminiGenerateContentResponse>,
+  model: string
+): AsyncGenerator<ChatCompletionChunk> {
+  let id = `chatcmpl-${uuidv4()}`;
+  let responseModel = model;
+  const created = Math.floor(Date.now() / 1000);
+  let nextToolIndex = 0;
+  let usageMetadata: GeminiUsageMetadata | undefined;
+
+  const buildChunk = (
+    delta: ChatCompletionChunk.Choice.Delta & OpenAIReasoningFields,
+    finishReason: ChatCompletionFinishReason | null = null
+  ): ChatCompletionChunk => ({
+    id,
+    object: 'chat.completion.chunk',
+    created,
+    model: responseModel,
+    choices: [{ index: 0, delta, finish_reason: finishReason, logprobs: null }],
+  });
+
+  for await (const response of responses) {
+    if (response.error) {
+      throw createGeminiError(response.error.message || 'Gemini stream failed', response.error.code);
+    }
+    id = response.responseId || id;
+    responseModel = response.modelVersion || responseModel;
+    // Usage metadata is cumulative, so the last one seen is the total
+    usageMetadata = response.usageMetadata || usageMetadata;
+
+    const candidate = response.candidates?.[0];
+    for (const part of candidate?.content?.parts || []) {
+      if (part.functionCall) {
+        // Function calls arrive complete, never split across chunks
+        yield buildChunk({ tool_calls: [{ index: nextToolIndex++, ...convertGeminiFunctionCall(part.functionCall, part.thoughtSignature) }] });
+      } else if (part.text) {
+        yield buildChunk(part.thought ? { reasoning_content: part.text } : { content: part.text });
+      }
+    }
+
+    if (candidate?.finishReason) {
+      yield buildChunk({}, getGeminiFinishReason(candidate.finishReason, nextToolIndex > 0));
+    } else if (!candidate && response.promptFeedback?.blockReason) {
+      yield buildChunk({}, 'content_filter');
+    }
+  }
+
+  yield { ...buildChunk({}), choices: [], usage: convertGeminiUsage(usageMetadata) };
+}
+
+async function* parseServerSentEvents(body: AsyncIterable<Uint8Array>): AsyncGenerator<GeminiGenerateContentResponse> {
+  for await (const line of readLines(body)) {
+    if (line.startsWith('data:')) {
+      yield JSON.parse(line.slice('data:'.length)) as GeminiGenerateContentResponse;
+    }
+  }
+}
+
+export class GeminiClient implements UpstreamClient {
+  constructor(
+    private providerConfig: ProviderConfig,
+    private httpOptions: UpstreamHttpOptions,
+    private logger: Logger
+  ) {}
+
+  private url(path: string): string {
+    return `${this.providerConfig.baseUrl.replace(/\/+$/, '')}${path}`;
+  }
+
+  private modelUrl(model: string, method: string): string {
+    // Model names may be given with or without Gemini's 'models/' resource prefix
+    return this.url(`/${model.startsWith('models/') ? model : `models/${model}`}:${method}`);
+  }
+
+  async createChatCompletion(params: ChatCompletionCreateParams, requestId: string, signal?: AbortSignal): Promise<ChatCompletion> {
+    const response = await fetchUpstream(
+      this.modelUrl(params.model, 'generateContent'),
+      'POST',
+      convertChatCompletionParamsToGemini(params, this.logger, requestId),
+      this.httpOptions,
+      signal
+    );
+    return convertGeminiResponseToChatCompletion(await response.json() as GeminiGenerateContentResponse, params.model);
+  }
+
+  async createChatCompletionStream(
+    params: ChatCompletionCreateParams,
+    requestId: string,
+    signal?: AbortSignal
+  ): Promise<AsyncIterable<ChatCompletionChunk>> {
+    const response = await fetchUpstream(
+      `${this.modelUrl(params.model, 'streamGenerateContent')}?alt=sse`,
+      'POST',
+      convertChatCompletionParamsToGemini(params, this.logger, requestId),
+      this.httpOptions,
+      signal
+    );
+    if (!response.body) {
+      throw createGeminiError('Gemini returned an empty streaming response');
+    }
+    return convertGeminiStreamToChatCompletionChunks(parseServerSentEvents(response.body), params.model);
+  }
+
+  async listModels(): Promise<UpstreamModel[]> {
+    const response = await fetchUpstream(this.url('/models?pageSize=1000'), 'GET', undefined, this.httpOptions);
+    const { models } = await response.json() as { models?: Array<{ name: string; supportedGenerationMethods?: string[] }> };
+    return (models || [])
+      .filter(model => !model.supportedGenerationMethods || model.supportedGenerationMethods.includes('generateContent'))
+      .map(model => ({ id: model.name.replace(/^models\//, '') }));
+  }
+}
@@ -0,0 +1,97 @@
+import { APIError, APIConnectionError, APIConnectionTimeoutError, APIUserAbortError } from 'openai';
+import { getTraceHeaders } from './tracing.js';
+
+export interface UpstreamHttpOptions {
+  headers?: Record<string, string>;
+  timeoutMs: number;
+}
+
+function extractErrorMessage(body: unknown): string | undefined {
+  if (!body || typeof body !== 'object') {
+    return undefined;
+  }
+  const error = (body as { error?: unknown }).error;
+  if (typeof error === 'string') {
+    return error;
+  }
+  if (error && typeof error === 'object' && typeof (error as { message?: unknown }).message === 'string') {
+    return (error as { message: string }).message;
+  }
+  return undefined;
+}
+
+// Calls a non-OpenAI upstream and raises failures as OpenAI SDK errors, so retry, fallback and
+// error mapping treat every protocol alike. The timeout covers the wait for response headers only,
+// while the caller's signal also cancels reading the response body. The signals are combined with
+// AbortSignal.any rather than an abort listener, so a signal shared by many attempts collects no listeners.
+export async function fetchUpstream(
+  url: string,
+  method: 'GET' | 'POST',
+  body: unknown,
+  options: UpstreamHttpOptions,
+  signal?: AbortSignal
+): Promise<Response> {
+  if (signal?.aborted) {
+    throw new APIUserAbortError();
+  }
+  const timeoutController = new AbortController();
+  const timer = setTimeout(() => timeoutController.abort(), options.timeoutMs);
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json', ...options.headers, ...getTraceHeaders() },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: signal ? AbortSignal.any([signal, timeoutController.signal]) : timeoutController.signal,
+    });
+  } catch (error) {
+    if (signal?.aborted) {
+      throw new APIUserAbortError();
+    }
+    if (timeoutController.signal.aborted) {
+      throw new APIConnectionTimeoutError();
+    }
+    throw new APIConnectionError({ cause: error as Error });
+  } finally {
+    clearTimeout(timer);
+  }
+
+  if (!response.ok) {
+    const text = await response.text();
+    let errorBody: unknown;
+    try {
+      errorBody = JSON.parse(text);
+    } catch {
+      errorBody = undefined;
+    }
+    const message = extractErrorMessage(errorBody) || text || response.statusText;
+    throw APIError.generate(
+      response.status,
+      errorBody ?? { error: { message } },
+      message,
+      Object.fromEntries(response.headers.entries())
+    );
+  }
+
+  return response;
+}
+
+export async function* readLines(body: AsyncIterable<Uint8Array>): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for await (const bytes of body) {
+    buffer += decoder.decode(bytes, { stream: true });
+    let newlineIndex: number;
+    while ((newlineIndex = buffer.indexOf('\n')) >= 0) {
+      yield buffer.slice(0, newlineIndex).replace(/\r$/, '');
+      buffer = buffer.slice(newlineIndex + 1);
+    }
+  }
+
+  buffer += decoder.decode();
+  if (buffer) {
+    yield buffer;
+  }
+}
@@ -1,7 +1,28 @@
 export { startServer } from './server.js';
 export { createLogger, Logger } from './logger.js';
+export type { LogListener } from './logger.js';
 export * from './types.js';
 export * from './converter.js';
+export * from './routing.js';
+export { loadConfigFile } from './config.js';
+export { ProviderRegistry } from './providers.js';
+export * from './upstream.js';
+export * from './retry.js';
+export * from './responses.js';
+export * from './ollama.js';
+export * from './gemini.js';
+export * from './pipeline.js';
+export * from './batches.js';
+export * from './models.js';
+export * from './pagination.js';
+export * from './auth.js';
+export * from './ratelimit.js';
+export * from './usage.js';
+export * from './metrics.js';
+export * from './tracing.js';
+export * from './cache.js';
+export * from './cassette.js';
+export * from './mock.js';
 export * from './tokenizer.js';
 export * from './streaming.js';
 export * from './errors.js';
\ No newline at end of file
@@ -79,9 +79,18 @@ export function createLogger(config: Config): winston.Logger {
   return logger;
 }
 
+// Sees every record regardless of the configured log level, e.g. to count warnings as metrics
+export type LogListener = (level: string, record: LogRecord) => void;
+
 export class Logger {
+  private listeners: LogListener[] = [];
+
   constructor(private logger: winston.Logger) {}
 
+  addListener(listener: LogListener): void {
+    this.listeners.push(listener);
+  }
+
   private log(level: string, record: LogRecord, exc?: Error): void {
     if (exc) {
       record.error = {
@@ -98,6 +107,9 @@ export class Logger {
     }
 
     this.logger.log(level, record.message, { logRecord: record });
+    for (const listener of this.listeners) {
+      listener(level, record);
+    }
   }
 
   debug(record: LogRecord): void {
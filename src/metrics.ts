@@ -0,0 +1,167 @@
+import { LogEvent, LogRecord } from './types.js';
+
+type Labels = Record<string, string>;
+
+// Client model names outside the catalog share one label, so callers cannot create series at will
+export const OTHER_MODEL_LABEL = 'other';
+
+// LLM calls take seconds to minutes, far beyond the usual web latency buckets
+const LATENCY_BUCKETS_SECONDS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300];
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+interface Metric {
+  render(): string;
+}
+
+export class Counter implements Metric {
+  private values: Map<string, { labels: Labels; value: number }> = new Map();
+
+  constructor(readonly name: string, private help: string) {}
+
+  inc(labels: Labels = {}, value: number = 1): void {
+    const key = formatLabels(labels);
+    const entry = this.values.get(key) || { labels, value: 0 };
+    entry.value += value;
+    this.values.set(key, entry);
+  }
+
+  get(labels: Labels = {}): number {
+    return this.values.get(formatLabels(labels))?.value || 0;
+  }
+
+  render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+    for (const { labels, value } of this.values.values()) {
+      lines.push(`${this.name}${formatLabels(labels)} ${value}`);
+    }
+    return lines.join('\n');
+  }
+}
+
+export class Histogram implements Metric {
+  private series: Map<string, { labels: Labels; bucketCounts: number[]; sum: number; count: number }> = new Map();
+
+  constructor(readonly name: string, private help: string, private buckets: number[] = LATENCY_BUCKETS_SECONDS) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = formatLabels(labels);
+    const entry = this.series.get(key) || { labels, bucketCounts: this.buckets.map(() => 0), sum: 0, count: 0 };
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        entry.bucketCounts[index] += 1;
+      }
+    });
+    entry.sum += value;
+    entry.count += 1;
+    this.series.set(key, entry);
+  }
+
+  render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const { labels, bucketCounts, sum, count } of this.series.values()) {
+      this.buckets.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${bucketCounts[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines.join('\n');
+  }
+}
+
+export interface TokenUsageCounts {
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
+}
+
+// The proxy's metrics in the Prometheus text exposition format
+export class ProxyMetrics {
+  readonly requests = new Counter('anthropic_proxy_requests_total', 'HTTP requests by route, client model and status code.');
+  readonly requestDuration = new Histogram('anthropic_proxy_request_duration_seconds', 'HTTP request duration by route.');
+  readonly upstreamDuration = new Histogram(
+    'anthropic_proxy_upstream_duration_seconds',
+    'Duration of each upstream attempt until the response, or the stream, was returned.'
+  );
+  readonly timeToFirstToken = new Histogram(
+    'anthropic_proxy_time_to_first_token_seconds',
+    'Time from receiving a streaming request to the first content sent to the client.'
+  );
+  readonly tokens = new Counter('anthropic_proxy_tokens_total', 'Tokens of completed requests by target model and type.');
+  readonly retries = new Counter('anthropic_proxy_upstream_retries_total', 'Upstream attempts retried after a retryable error.');
+  readonly fallbacks = new Counter('anthropic_proxy_upstream_fallbacks_total', 'Requests moved on to the next fallback target.');
+  readonly warnings = new Counter('anthropic_proxy_warnings_total', 'Warnings logged, by log event (e.g. tool_args_parse_failure).');
+
+  private metrics: Metric[] = [
+    this.requests,
+    this.requestDuration,
+    this.upstreamDuration,
+    this.timeToFirstToken,
+    this.tokens,
+    this.retries,
+    this.fallbacks,
+    this.warnings,
+  ];
+
+  private knownModels: Set<string>;
+
+  constructor(knownModels: Iterable<string> = []) {
+    this.knownModels = new Set(knownModels);
+  }
+
+  // An empty model means the request named none
+  observeRequest(route: string, model: string, statusCode: number, durationMs: number): void {
+    const modelLabel = model === '' || this.knownModels.has(model) ? model : OTHER_MODEL_LABEL;
+    this.requests.inc({ route, model: modelLabel, status: String(statusCode) });
+    this.requestDuration.observe({ route }, durationMs / 1000);
+  }
+
+  observeUpstreamCall(provider: string, model: string, outcome: 'success' | 'error', durationMs: number): void {
+    this.upstreamDuration.observe({ provider, model, outcome }, durationMs / 1000);
+  }
+
+  observeTimeToFirstToken(provider: string, model: string, durationMs: number): void {
+    this.timeToFirstToken.observe({ provider, model }, durationMs / 1000);
+  }
+
+  observeTokens(provider: string, model: string, usage: TokenUsageCounts): void {
+    const counts: Record<string, number> = {
+      input: usage.input_tokens,
+      output: usage.output_tokens,
+      cache_creation: usage.cache_creation_input_tokens || 0,
+      cache_read: usage.cache_read_input_tokens || 0,
+    };
+    for (const [type, count] of Object.entries(counts)) {
+      this.tokens.inc({ provider, model, type }, count);
+    }
+  }
+
+  // Retries, fallbacks and translation problems are already logged as warnings, so they are counted from the log
+  observeLogRecord(level: string, record: LogRecord): void {
+    if (level !== 'warn') {
+      return;
+    }
+    this.warnings.inc({ event: record.event });
+
+    const data = record.data || {};
+    if (record.event === LogEvent.UPSTREAM_RETRY) {
+      this.retries.inc({ provider: String(data.provider ?? ''), model: String(data.target_model ?? '') });
+    } else if (record.event === LogEvent.UPSTREAM_FALLBACK) {
+      this.fallbacks.inc({ provider: String(data.failed_provider ?? ''), model: String(data.failed_model ?? '') });
+    }
+  }
+
+  render(): string {
+    return `${this.metrics.map(metric => metric.render()).join('\n')}\n`;
+  }
+}
@@ -0,0 +1,313 @@
+import express, { Request, Response } from 'express';
+import { Server } from 'http';
+import type {
+  ChatCompletion,
+  ChatCompletionChunk,
+  ChatCompletionCreateParams,
+  ChatCompletionMessageToolCall
+} from 'openai/resources/chat/completions';
+
+export const MOCK_SCENARIOS = [
+  'echo',
+  'text',
+  'tool-calls',
+  'late-tool-id',
+  'stream-error',
+  'rate-limit',
+  'slow',
+] as const;
+
+export type MockScenario = typeof MOCK_SCENARIOS[number];
+
+export interface MockUpstreamOptions {
+  scenario: MockScenario;
+  text: string;
+  // Pause before each streamed delta in the slow scenario
+  delayMs: number;
+  retryAfterSeconds: number;
+}
+
+export const DEFAULT_MOCK_UPSTREAM_OPTIONS: MockUpstreamOptions = {
+  scenario: 'echo',
+  text: 'Hello from the mock upstream!',
+  delayMs: 200,
+  retryAfterSeconds: 1,
+};
+
+const MOCK_MODEL_PREFIX = 'mock-';
+const TOOL_ARGUMENT_FRAGMENT_LENGTH = 4;
+// The stream-error scenario drops the connection after this many content deltas
+const STREAM_ERROR_AFTER_DELTAS = 3;
+
+interface MockReply {
+  deltas: ChatCompletionChunk.Choice.Delta[];
+  finishReason: 'stop' | 'tool_calls';
+  delayMs: number;
+  failAfterDeltas?: number;
+}
+
+export function isMockScenario(value: unknown): value is MockScenario {
+  return MOCK_SCENARIOS.includes(value as MockScenario);
+}
+
+// The x-mock-scenario header wins, then a mock-<scenario> model name, then the server's default scenario
+export function resolveMockScenario(req: Request, model: string | undefined, defaultScenario: MockScenario): MockScenario {
+  const header = req.get('x-mock-scenario');
+  if (isMockScenario(header)) {
+    return header;
+  }
+  const fromModel = model?.startsWith(MOCK_MODEL_PREFIX) ? model.slice(MOCK_MODEL_PREFIX.length) : undefined;
+  return isMockScenario(fromModel) ? fromModel : defaultScenario;
+}
+
+function getLastUserText(params: ChatCompletionCreateParams): string {
+  const lastUserMessage = [...params.messages].reverse().find(message => message.role === 'user');
+  if (!lastUserMessage) {
+    return '';
+  }
+  if (typeof lastUserMessage.content === 'string') {
+    return lastUserMessage.content;
+  }
+  return lastUserMessage.content
+    .map(part => (part.type === 'text' ? part.text : ''))
+    .join('');
+}
+
+// Words keep their trailing whitespace, so joining the deltas gives back the text
+function splitIntoWords(text: string): string[] {
+  return text.match(/\S+\s*|\s+/g) || [];
+}
+
+function splitIntoFragments(text: string): string[] {
+  const fragments: string[] = [];
+  for (let offset = 0; offset < text.length; offset += TOOL_ARGUMENT_FRAGMENT_LENGTH) {
+    fragments.push(text.slice(offset, offset + TOOL_ARGUMENT_FRAGMENT_LENGTH));
+  }
+  return fragments;
+}
+
+function buildMockArgumentValue(schema: Record<string, unknown>): unknown {
+  switch (schema.type) {
+    case 'string':
+      return Array.isArray(schema.enum) ? schema.enum[0] : 'mock';
+    case 'number':
+    case 'integer':
+      return 1;
+    case 'boolean':
+      return true;
+    case 'array':
+      return [];
+    case 'object':
+      return {};
+    default:
+      return null;
+  }
+}
+
+// One call per requested tool, with a value for each of its parameters; get_weather when no tools were sent
+function buildMockToolCalls(params: ChatCompletionCreateParams): Array<{ name: string; arguments: string }> {
+  const tools = (params.tools || []).filter(tool => tool.type === 'function');
+  if (tools.length === 0) {
+    return [{ name: 'get_weather', arguments: JSON.stringify({ city: 'Paris' }) }];
+  }
+  return tools.map(tool => {
+    const properties = (tool.function.parameters?.properties || {}) as Record<string, Record<string, unknown>>;
+    const args = Object.fromEntries(
+      Object.entries(properties).map(([name, schema]) => [name, buildMockArgumentValue(schema)])
+    );
+    return { name: tool.function.name, arguments: JSON.stringify(args) };
+  });
+}
+
+function buildToolCallDeltas(params: ChatCompletionCreateParams, lateIds: boolean): ChatCompletionChunk.Choice.Delta[] {
+  const deltas: ChatCompletionChunk.Choice.Delta[] = [];
+  buildMockToolCalls(params).forEach((call, index) => {
+    const id = `call_mock_${index}`;
+    const fragments = splitIntoFragments(call.arguments);
+    if (lateIds) {
+      // Name and first arguments come first; the id only arrives after the second fragment
+      fragments.forEach((fragment, fragmentIndex) => {
+        deltas.push({
+          tool_calls: [{
+            index,
+            ...(fragmentIndex === 0 ? { type: 'function' as const } : {}),
+            function: { ...(fragmentIndex === 0 ? { name: call.name } : {}), arguments: fragment },
+          }],
+        });
+        if (fragmentIndex === Math.min(1, fragments.length - 1)) {
+          deltas.push({ tool_calls: [{ index, id }] });
+        }
+      });
+      return;
+    }
+    deltas.push({ tool_calls: [{ index, id, type: 'function', function: { name: call.name, arguments: '' } }] });
+    for (const fragment of fragments) {
+      deltas.push({ tool_calls: [{ index, function: { arguments: fragment } }] });
+    }
+  });
+  return deltas;
+}
+
+function buildTextDeltas(text: string): ChatCompletionChunk.Choice.Delta[] {
+  return splitIntoWords(text).map(word => ({ content: word }));
+}
+
+function buildMockReply(scenario: MockScenario, params: ChatCompletionCreateParams, options: MockUpstreamOptions): MockReply {
+  switch (scenario) {
+    case 'echo':
+      return { deltas: buildTextDeltas(getLastUserText(params)), finishReason: 'stop', delayMs: 0 };
+    case 'tool-calls':
+    case 'late-tool-id':
+      return { deltas: buildToolCallDeltas(params, scenario === 'late-tool-id'), finishReason: 'tool_calls', delayMs: 0 };
+    case 'stream-error':
+      return { deltas: buildTextDeltas(options.text), finishReason: 'stop', delayMs: 0, failAfterDeltas: STREAM_ERROR_AFTER_DELTAS };
+    case 'slow':
+      return { deltas: buildTextDeltas(options.text), finishReason: 'stop', delayMs: options.delayMs };
+    default:
+      return { deltas: buildTextDeltas(options.text), finishReason: 'stop', delayMs: 0 };
+  }
+}
+
+// Rough usage at four characters per token, enough for the proxy's usage accounting to have numbers
+function estimateUsage(params: ChatCompletionCreateParams, deltas: ChatCompletionChunk.Choice.Delta[]) {
+  const prompt_tokens = Math.ceil(JSON.stringify(params.messages).length / 4);
+  const completion_tokens = Math.ceil(JSON.stringify(deltas).length / 4);
+  return { prompt_tokens, completion_tokens, total_tokens: prompt_tokens + completion_tokens };
+}
+
+function assembleMessage(deltas: ChatCompletionChunk.Choice.Delta[]): ChatCompletion.Choice['message'] {
+  const toolCalls: ChatCompletionMessageToolCall[] = [];
+  let content = '';
+  for (const delta of deltas) {
+    content += delta.content || '';
+    for (const toolDelta of delta.tool_calls || []) {
+      const toolCall = toolCalls[toolDelta.index] ||= { id: '', type: 'function', function: { name: '', arguments: '' } };
+      toolCall.id = toolDelta.id || toolCall.id;
+      toolCall.function.name = toolDelta.function?.name || toolCall.function.name;
+      toolCall.function.arguments += toolDelta.function?.arguments || '';
+    }
+  }
+  return {
+    role: 'assistant',
+    content: toolCalls.length > 0 ? null : content,
+    refusal: null,
+    ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+  };
+}
+
+function sendError(res: Response, status: number, message: string, type: string): void {
+  res.status(status).json({ error: { message, type, code: null } });
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function streamReply(
+  res: Response,
+  params: ChatCompletionCreateParams,
+  reply: MockReply,
+  completionId: string,
+  created: number
+): Promise<void> {
+  let clientGone = false;
+  res.on('close', () => {
+    clientGone = true;
+  });
+  const writeChunk = (chunk: Omit<ChatCompletionChunk, 'id' | 'object' | 'created' | 'model'>) => {
+    res.write(`data: ${JSON.stringify({ id: completionId, object: 'chat.completion.chunk', created, model: params.model, ...chunk })}\n\n`);
+  };
+
+  res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', 'Connection': 'keep-alive' });
+  writeChunk({ choices: [{ index: 0, delta: { role: 'assistant', content: '' }, finish_reason: null }] });
+
+  for (const [deltaIndex, delta] of reply.deltas.entries()) {
+    if (reply.failAfterDeltas !== undefined && deltaIndex === reply.failAfterDeltas) {
+      // Close the connection without a finish_reason, [DONE] or the final chunk, like a provider crashing mid-response.
+      // Ending the socket rather than destroying it lets the chunks written so far reach the client first.
+      res.socket?.end();
+      return;
+    }
+    if (reply.delayMs > 0) {
+      await sleep(reply.delayMs);
+    }
+    if (clientGone) {
+      return;
+    }
+    writeChunk({ choices: [{ index: 0, delta, finish_reason: null }] });
+  }
+
+  writeChunk({ choices: [{ index: 0, delta: {}, finish_reason: reply.finishReason }] });
+  if (params.stream_options?.include_usage) {
+    writeChunk({ choices: [], usage: estimateUsage(params, reply.deltas) });
+  }
+  res.write('data: [DONE]\n\n');
+  res.end();
+}
+
+// An OpenAI-compatible /v1/chat/completions server that plays scripted scenarios, for trying the proxy without a provider
+export function createMockUpstreamApp(options: MockUpstreamOptions = DEFAULT_MOCK_UPSTREAM_OPTIONS): express.Express {
+  const app = express();
+  app.use(express.json({ limit: '100mb' }));
+
+  app.get('/v1/models', (req: Request, res: Response) => {
+    res.json({
+      object: 'list',
+      data: MOCK_SCENARIOS.map(scenario => ({
+        id: `${MOCK_MODEL_PREFIX}${scenario}`,
+        object: 'model',
+        created: 1700000000,
+        owned_by: 'mock-upstream',
+      })),
+    });
+  });
+
+  app.post('/v1/chat/completions', async (req: Request, res: Response) => {
+    const params = req.body as ChatCompletionCreateParams;
+    if (!params?.model || !Array.isArray(params.messages)) {
+      sendError(res, 400, "'model' and 'messages' are required", 'invalid_request_error');
+      return;
+    }
+
+    const scenario = resolveMockScenario(req, params.model, options.scenario);
+    if (scenario === 'rate-limit') {
+      res.setHeader('retry-after', String(options.retryAfterSeconds));
+      sendError(res, 429, 'Rate limit reached for mock-upstream. Please try again later.', 'rate_limit_error');
+      return;
+    }
+
+    const reply = buildMockReply(scenario, params, options);
+    const completionId = `chatcmpl-mock-${Date.now()}`;
+    const created = Math.floor(Date.now() / 1000);
+    if (params.stream) {
+      await streamReply(res, params, reply, completionId, created);
+      return;
+    }
+
+    if (reply.failAfterDeltas !== undefined) {
+      sendError(res, 500, 'The mock upstream failed while generating the response.', 'server_error');
+      return;
+    }
+    if (reply.delayMs > 0) {
+      await sleep(reply.delayMs * reply.deltas.length);
+    }
+    const completion: ChatCompletion = {
+      id: completionId,
+      object: 'chat.completion',
+      created,
+      model: params.model,
+      choices: [{ index: 0, message: assembleMessage(reply.deltas), finish_reason: reply.finishReason, logprobs: null }],
+      usage: estimateUsage(params, reply.deltas),
+    };
+    res.json(completion);
+  });
+
+  return app;
+}
+
+export function startMockUpstream(options: MockUpstreamOptions, port: number, host: string): Promise<Server> {
+  return new Promise((resolve, reject) => {
+    const server = createMockUpstreamApp(options).listen(port, host, () => resolve(server));
+    server.on('error', reject);
+  });
+}
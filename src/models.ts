@@ -0,0 +1,135 @@
+import { AnthropicModel, Config, LogEvent } from './types.js';
+import { Logger } from './logger.js';
+import { resolveModelRoute, getRouteTargets, matchesModelRoute } from './routing.js';
+import { ProviderRegistry } from './providers.js';
+import { formatUpstreamTarget } from './upstream.js';
+
+interface ClaudeModelInfo {
+  id: string;
+  display_name: string;
+  created_at: string;
+}
+
+// Claude models listed by /v1/models, newest first
+export const KNOWN_CLAUDE_MODELS: ClaudeModelInfo[] = [
+  { id: 'claude-haiku-4-5-20251001', display_name: 'Claude Haiku 4.5', created_at: '2025-10-01T00:00:00Z' },
+  { id: 'claude-sonnet-4-5-20250929', display_name: 'Claude Sonnet 4.5', created_at: '2025-09-29T00:00:00Z' },
+  { id: 'claude-opus-4-1-20250805', display_name: 'Claude Opus 4.1', created_at: '2025-08-05T00:00:00Z' },
+  { id: 'claude-opus-4-20250514', display_name: 'Claude Opus 4', created_at: '2025-05-14T00:00:00Z' },
+  { id: 'claude-sonnet-4-20250514', display_name: 'Claude Sonnet 4', created_at: '2025-05-14T00:00:00Z' },
+  { id: 'claude-3-7-sonnet-20250219', display_name: 'Claude Sonnet 3.7', created_at: '2025-02-19T00:00:00Z' },
+  { id: 'claude-3-5-haiku-20241022', display_name: 'Claude Haiku 3.5', created_at: '2024-10-22T00:00:00Z' },
+  { id: 'claude-3-5-sonnet-20241022', display_name: 'Claude Sonnet 3.5 (New)', created_at: '2024-10-22T00:00:00Z' },
+  { id: 'claude-3-5-sonnet-20240620', display_name: 'Claude Sonnet 3.5 (Old)', created_at: '2024-06-20T00:00:00Z' },
+  { id: 'claude-3-haiku-20240307', display_name: 'Claude Haiku 3', created_at: '2024-03-07T00:00:00Z' },
+  { id: 'claude-3-opus-20240229', display_name: 'Claude Opus 3', created_at: '2024-02-29T00:00:00Z' },
+];
+
+// Routes configured by exact model ID have no release date of their own
+const ROUTED_MODEL_CREATED_AT = new Date(0).toISOString();
+
+// Known Claude models plus the IDs of exact-match routes, the models that can be listed without asking a provider
+function getClaudeModelInfos(config: Config): ClaudeModelInfo[] {
+  const knownIds = new Set(KNOWN_CLAUDE_MODELS.map(model => model.id));
+  const routedModels: ClaudeModelInfo[] = (config.routes || [])
+    .filter(route => route.matchType === 'exact' && !knownIds.has(route.match))
+    .map(route => ({ id: route.match, display_name: route.match, created_at: ROUTED_MODEL_CREATED_AT }));
+  return [...routedModels, ...KNOWN_CLAUDE_MODELS];
+}
+
+export function getCatalogModelIds(config: Config): string[] {
+  return getClaudeModelInfos(config).map(model => model.id);
+}
+
+interface UpstreamModelsCacheEntry {
+  models: AnthropicModel[];
+  fetchedAt: number;
+}
+
+export class ModelCatalog {
+  private upstreamModelsCache: Map<string, UpstreamModelsCacheEntry> = new Map();
+
+  constructor(
+    private config: Config,
+    private providers: ProviderRegistry,
+    private logger: Logger
+  ) {}
+
+  private describeModel(model: ClaudeModelInfo, requestId: string): AnthropicModel {
+    const targets = getRouteTargets(resolveModelRoute(model.id, this.config, this.logger, requestId));
+    return {
+      type: 'model',
+      id: model.id,
+      display_name: model.display_name,
+      created_at: model.created_at,
+      upstream_target: formatUpstreamTarget(targets[0]),
+      fallback_targets: targets.slice(1).map(formatUpstreamTarget),
+    };
+  }
+
+  private listClaudeModels(requestId: string): AnthropicModel[] {
+    return getClaudeModelInfos(this.config).map(model => this.describeModel(model, requestId));
+  }
+
+  private async listUpstreamModels(providerName: string, requestId: string): Promise<AnthropicModel[]> {
+    const cached = this.upstreamModelsCache.get(providerName);
+    const ttlMs = this.config.models?.upstreamCacheTtlMs ?? 0;
+    if (cached && Date.now() - cached.fetchedAt < ttlMs) {
+      return cached.models;
+    }
+
+    try {
+      const models: AnthropicModel[] = [];
+      for (const upstreamModel of await this.providers.getClient(providerName).listModels()) {
+        const target = { model: upstreamModel.id, providerName };
+        models.push({
+          type: 'model',
+          // The alias is accepted by /v1/messages and sent to this provider unchanged, see parseUpstreamModelAlias
+          id: formatUpstreamTarget(target),
+          display_name: `${upstreamModel.id} (${providerName})`,
+          created_at: new Date((upstreamModel.created || 0) * 1000).toISOString(),
+          upstream_target: formatUpstreamTarget(target),
+          fallback_targets: [],
+        });
+      }
+      this.upstreamModelsCache.set(providerName, { models, fetchedAt: Date.now() });
+      return models;
+    } catch (error) {
+      // A provider without a models endpoint should not break the listing for the others
+      this.logger.warning({
+        event: LogEvent.UPSTREAM_MODELS_FETCH_FAILED,
+        message: `Failed to list models from provider '${providerName}'; omitting them from /v1/models.`,
+        request_id: requestId,
+        data: { provider: providerName },
+      }, error as Error);
+      return cached?.models || [];
+    }
+  }
+
+  async list(requestId: string): Promise<AnthropicModel[]> {
+    const models = this.listClaudeModels(requestId);
+    if (!this.config.models?.includeUpstream) {
+      return models;
+    }
+
+    for (const providerName of this.providers.names()) {
+      models.push(...await this.listUpstreamModels(providerName, requestId));
+    }
+    return models;
+  }
+
+  async retrieve(modelId: string, requestId: string): Promise<AnthropicModel | undefined> {
+    const listed = (await this.list(requestId)).find(model => model.id === modelId);
+    if (listed) {
+      return listed;
+    }
+
+    // Glob and regex routes accept IDs that cannot be enumerated up front
+    const matchesPatternRoute = (this.config.routes || [])
+      .some(route => route.matchType !== 'exact' && matchesModelRoute(route, modelId));
+    if (matchesPatternRoute) {
+      return this.describeModel({ id: modelId, display_name: modelId, created_at: ROUTED_MODEL_CREATED_AT }, requestId);
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,373 @@
+import { APIError } from 'openai';
+import type {
+  ChatCompletion,
+  ChatCompletionChunk,
+  ChatCompletionContentPart,
+  ChatCompletionCreateParams,
+  ChatCompletionMessageToolCall
+} from 'openai/resources/chat/completions';
+import { v4 as uuidv4 } from 'uuid';
+import { LogEvent, OpenAIReasoningFields, OpenAISamplingFields, ProviderConfig } from './types.js';
+import { Logger } from './logger.js';
+import { UpstreamClient, UpstreamModel } from './upstream.js';
+import { fetchUpstream, readLines, UpstreamHttpOptions } from './http.js';
+
+export interface OllamaToolCall {
+  function: {
+    name: string;
+    arguments: Record<string, unknown>;
+  };
+}
+
+export interface OllamaMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  images?: string[];
+  thinking?: string;
+  tool_calls?: OllamaToolCall[];
+  tool_name?: string;
+}
+
+export interface OllamaChatRequest {
+  model: string;
+  messages: OllamaMessage[];
+  tools?: ChatCompletionCreateParams['tools'];
+  stream: boolean;
+  think?: boolean;
+  options?: Record<string, unknown>;
+  keep_alive?: string | number;
+}
+
+export interface OllamaChatResponse {
+  model: string;
+  created_at: string;
+  message?: OllamaMessage;
+  done: boolean;
+  done_reason?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+  error?: string;
+}
+
+type ChatCompletionFinishReason = ChatCompletion.Choice['finish_reason'];
+
+const DATA_URL_PATTERN = /^data:[^;,]+;base64,(.*)$/s;
+
+function getTextContent(content: string | Array<{ type: string; text?: string }> | null | undefined): string {
+  if (!content) {
+    return '';
+  }
+  if (typeof content === 'string') {
+    return content;
+  }
+  return content
+    .filter(part => part.type === 'text')
+    .map(part => part.text || '')
+    .join('\n');
+}
+
+// Ollama takes images as raw base64 next to the text, not as typed content parts
+function convertUserContentToOllama(
+  content: string | ChatCompletionContentPart[],
+  logger?: Logger,
+  requestId?: string
+): Pick<OllamaMessage, 'content' | 'images'> {
+  if (typeof content === 'string') {
+    return { content };
+  }
+
+  const images: string[] = [];
+  for (const part of content) {
+    if (part.type === 'image_url') {
+      const match = part.image_url.url.match(DATA_URL_PATTERN);
+      if (match) {
+        images.push(match[1]);
+      } else if (logger) {
+        logger.warning({
+          event: LogEvent.IMAGE_FORMAT_UNSUPPORTED,
+          message: 'Image URL ignored: Ollama only accepts inline base64 image data.',
+          request_id: requestId,
+          data: { url: part.image_url.url },
+        });
+      }
+    } else if (part.type === 'file' && logger) {
+      logger.warning({
+        event: LogEvent.DOCUMENT_FORMAT_UNSUPPORTED,
+        message: 'File content part ignored: Ollama does not accept file inputs.',
+        request_id: requestId,
+        data: { filename: part.file.filename },
+      });
+    }
+  }
+
+  return {
+    content: getTextContent(content),
+    ...(images.length > 0 && { images }),
+  };
+}
+
+function parseToolArguments(argumentsJson: string, logger?: Logger, requestId?: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(argumentsJson || '{}');
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch (error) {
+    if (logger) {
+      logger.warning({
+        event: LogEvent.TOOL_ARGS_PARSE_FAILURE,
+        message: 'Tool call arguments are not valid JSON and were sent to Ollama as an empty object.',
+        request_id: requestId,
+        data: { arguments: argumentsJson },
+      }, error as Error);
+    }
+    return {};
+  }
+}
+
+export function convertChatCompletionParamsToOllama(
+  params: ChatCompletionCreateParams,
+  providerConfig: ProviderConfig,
+  logger?: Logger,
+  requestId?: string
+): Omit<OllamaChatRequest, 'stream'> {
+  const messages: OllamaMessage[] = [];
+  // Ollama matches tool results to calls by function name rather than by ID
+  const toolNamesById: Map<string, string> = new Map();
+
+  for (const message of params.messages) {
+    switch (message.role) {
+      case 'system':
+      case 'developer':
+        messages.push({ role: 'system', content: getTextContent(message.content) });
+        break;
+      case 'user':
+        messages.push({ role: 'user', ...convertUserContentToOllama(message.content, logger, requestId) });
+        break;
+      case 'assistant': {
+        const ollamaMessage: OllamaMessage = { role: 'assistant', content: getTextContent(message.content) };
+        if (message.tool_calls && message.tool_calls.length > 0) {
+          ollamaMessage.tool_calls = message.tool_calls.map(toolCall => {
+            toolNamesById.set(toolCall.id, toolCall.function.name);
+            return {
+              function: {
+                name: toolCall.function.name,
+                arguments: parseToolArguments(toolCall.function.arguments, logger, requestId),
+              },
+            };
+          });
+        }
+        messages.push(ollamaMessage);
+        break;
+      }
+      case 'tool':
+        messages.push({
+          role: 'tool',
+          content: getTextContent(message.content),
+          ...(toolNamesById.has(message.tool_call_id) && { tool_name: toolNamesById.get(message.tool_call_id) }),
+        });
+        break;
+      default:
+        break;
+    }
+  }
+
+  const ollamaRequest: Omit<OllamaChatRequest, 'stream'> = {
+    model: params.model,
+    messages,
+  };
+
+  if (params.tools && params.tools.length > 0 && params.tool_choice !== 'none') {
+    ollamaRequest.tools = params.tools;
+    if ((params.tool_choice === 'required' || typeof params.tool_choice === 'object') && logger) {
+      logger.warning({
+        event: LogEvent.TOOL_CHOICE_UNSUPPORTED,
+        message: 'Ollama cannot force a tool call; the model will choose whether to call a tool.',
+        request_id: requestId,
+        data: { tool_choice: params.tool_choice },
+      });
+    }
+  }
+
+  const sampling = params as ChatCompletionCreateParams & OpenAISamplingFields;
+  const requestOptions: Record<string, unknown> = {
+    temperature: params.temperature ?? undefined,
+    top_p: params.top_p ?? undefined,
+    top_k: sampling.top_k,
+    num_predict: params.max_completion_tokens ?? params.max_tokens ?? undefined,
+    stop: params.stop ?? undefined,
+  };
+  const options: Record<string, unknown> = { ...providerConfig.options };
+  for (const [name, value] of Object.entries(requestOptions)) {
+    if (value !== undefined) {
+      options[name] = value;
+    }
+  }
+  if (Object.keys(options).length > 0) {
+    ollamaRequest.options = options;
+  }
+
+  if (params.reasoning_effort) {
+    ollamaRequest.think = true;
+  }
+  if (providerConfig.keepAlive !== undefined) {
+    ollamaRequest.keep_alive = providerConfig.keepAlive;
+  }
+
+  return ollamaRequest;
+}
+
+function convertOllamaToolCalls(toolCalls: OllamaToolCall[]): ChatCompletionMessageToolCall[] {
+  // Ollama does not assign tool call IDs
+  return toolCalls.map(toolCall => ({
+    id: `call_${uuidv4().replace(/-/g, '').slice(0, 24)}`,
+    type: 'function',
+    function: {
+      name: toolCall.function.name,
+      arguments: JSON.stringify(toolCall.function.arguments ?? {}),
+    },
+  }));
+}
+
+function getOllamaFinishReason(response: OllamaChatResponse, hasToolCalls: boolean): ChatCompletionFinishReason {
+  if (hasToolCalls) {
+    return 'tool_calls';
+  }
+  return response.done_reason === 'length' ? 'length' : 'stop';
+}
+
+function convertOllamaUsage(response: OllamaChatResponse): NonNullable<ChatCompletion['usage']> {
+  const promptTokens = response.prompt_eval_count || 0;
+  const completionTokens = response.eval_count || 0;
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: promptTokens + completionTokens,
+  };
+}
+
+function getCreatedSeconds(createdAt: string | undefined): number {
+  const createdMs = createdAt ? Date.parse(createdAt) : NaN;
+  return Math.floor((Number.isNaN(createdMs) ? Date.now() : createdMs) / 1000);
+}
+
+function createOllamaStreamError(message: string): APIError {
+  return APIError.generate(500, { error: { message } }, message, {});
+}
+
+export function convertOllamaResponseToChatCompletion(response: OllamaChatResponse): ChatCompletion {
+  const toolCalls = convertOllamaToolCalls(response.message?.tool_calls || []);
+
+  const message: ChatCompletion.Choice['message'] & OpenAIReasoningFields = {
+    role: 'assistant',
+    content: response.message?.content || null,
+    refusal: null,
+  };
+  if (toolCalls.length > 0) {
+    message.tool_calls = toolCalls;
+  }
+  if (response.message?.thinking) {
+    message.reasoning_content = response.message.thinking;
+  }
+
+  return {
+    id: `chatcmpl-${uuidv4()}`,
+    object: 'chat.completion',
+    created: getCreatedSeconds(response.created_at),
+    model: response.model,
+    choices: [{
+      index: 0,
+      message,
+      finish_reason: getOllamaFinishReason(response, toolCalls.length > 0),
+      logprobs: null,
+    }],
+    usage: convertOllamaUsage(response),
+  };
+}
+
+export async function* convertOllamaStreamToChatCompletionChunks(
+  responses: AsyncIterable<OllamaChatResponse>
+): AsyncGenerator<ChatCompletionChunk> {
+  const id = `chatcmpl-${uuidv4()}`;
+  let nextToolIndex = 0;
+
+  for await (const response of responses) {
+    if (response.error) {
+      throw createOllamaStreamError(response.error);
+    }
+
+    const buildChunk = (
+      delta: ChatCompletionChunk.Choice.Delta & OpenAIReasoningFields,
+      finishReason: ChatCompletionFinishReason | null = null
+    ): ChatCompletionChunk => ({
+      id,
+      object: 'chat.completion.chunk',
+      created: getCreatedSeconds(response.created_at),
+      model: response.model,
+      choices: [{ index: 0, delta, finish_reason: finishReason, logprobs: null }],
+    });
+
+    if (response.message?.thinking) {
+      yield buildChunk({ reasoning_content: response.message.thinking });
+    }
+    if (response.message?.content) {
+      yield buildChunk({ content: response.message.content });
+    }
+    // Ollama sends each tool call complete in a single chunk
+    for (const toolCall of convertOllamaToolCalls(response.message?.tool_calls || [])) {
+      yield buildChunk({ tool_calls: [{ index: nextToolIndex++, ...toolCall }] });
+    }
+
+    if (response.done) {
+      yield buildChunk({}, getOllamaFinishReason(response, nextToolIndex > 0));
+      yield { ...buildChunk({}), choices: [], usage: convertOllamaUsage(response) };
+    }
+  }
+}
+
+async function* parseNDJSON(body: AsyncIterable<Uint8Array>): AsyncGenerator<OllamaChatResponse> {
+  for await (const line of readLines(body)) {
+    if (line.trim()) {
+      yield JSON.parse(line) as OllamaChatResponse;
+    }
+  }
+}
+
+export class OllamaClient implements UpstreamClient {
+  constructor(
+    private providerConfig: ProviderConfig,
+    private httpOptions: UpstreamHttpOptions,
+    private logger: Logger
+  ) {}
+
+  private url(path: string): string {
+    return `${this.providerConfig.baseUrl.replace(/\/+$/, '')}${path}`;
+  }
+
+  async createChatCompletion(params: ChatCompletionCreateParams, requestId: string, signal?: AbortSignal): Promise<ChatCompletion> {
+    const response = await fetchUpstream(this.url('/api/chat'), 'POST', {
+      ...convertChatCompletionParamsToOllama(params, this.providerConfig, this.logger, requestId),
+      stream: false,
+    }, this.httpOptions, signal);
+    return convertOllamaResponseToChatCompletion(await response.json() as OllamaChatResponse);
+  }
+
+  async createChatCompletionStream(
+    params: ChatCompletionCreateParams,
+    requestId: string,
+    signal?: AbortSignal
+  ): Promise<AsyncIterable<ChatCompletionChunk>> {
+    const response = await fetchUpstream(this.url('/api/chat'), 'POST', {
+      ...convertChatCompletionParamsToOllama(params, this.providerConfig, this.logger, requestId),
+      stream: true,
+    }, this.httpOptions, signal);
+    if (!response.body) {
+      throw createOllamaStreamError('Ollama returned an empty streaming response');
+    }
+    return convertOllamaStreamToChatCompletionChunks(parseNDJSON(response.body));
+  }
+
+  async listModels(): Promise<UpstreamModel[]> {
+    const response = await fetchUpstream(this.url('/api/tags'), 'GET', undefined, this.httpOptions);
+    const { models } = await response.json() as { models?: Array<{ name: string; modified_at?: string }> };
+    return (models || []).map(model => ({ id: model.name, created: getCreatedSeconds(model.modified_at) }));
+  }
+}
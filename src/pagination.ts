@@ -0,0 +1,31 @@
+import { ListQuery } from './types.js';
+
+export interface Page<T> {
+  data: T[];
+  has_more: boolean;
+  first_id: string | null;
+  last_id: string | null;
+}
+
+// Pages through items that are already in list order, using Anthropic's before_id/after_id cursors
+export function paginate<T extends { id: string }>(items: T[], query: ListQuery): Page<T> {
+  let start = 0;
+  let end = items.length;
+  if (query.after_id) {
+    start = items.findIndex(item => item.id === query.after_id) + 1;
+    end = Math.min(items.length, start + query.limit);
+  } else if (query.before_id) {
+    end = Math.max(0, items.findIndex(item => item.id === query.before_id));
+    start = Math.max(0, end - query.limit);
+  } else {
+    end = Math.min(items.length, query.limit);
+  }
+
+  const data = items.slice(start, end);
+  return {
+    data,
+    has_more: query.before_id ? start > 0 : end < items.length,
+    first_id: data.length > 0 ? data[0].id : null,
+    last_id: data.length > 0 ? data[data.length - 1].id : null,
+  };
+}
@@ -0,0 +1,276 @@
+import type { ChatCompletion, ChatCompletionChunk, ChatCompletionCreateParams } from 'openai/resources/chat/completions';
+import { Config, LogEvent, MessagesRequest, MessagesResponse, RetryPolicy } from './types.js';
+import { Logger } from './logger.js';
+import {
+  convertAnthropicRequestToOpenAIParams,
+  convertOpenAIToAnthropicResponse,
+  checkToolChoiceHonored
+} from './converter.js';
+import { resolveModelRoute, applyRouteDefaults, getRouteTargets, ResolvedModelRoute, UpstreamTarget } from './routing.js';
+import { ProviderRegistry } from './providers.js';
+import { callUpstreamWithFallback, UpstreamCallResult } from './upstream.js';
+import { withRetry, DEFAULT_RETRY_POLICY } from './retry.js';
+import { countTokensForAnthropicRequest } from './tokenizer.js';
+import { ProxyMetrics } from './metrics.js';
+import { withSpan } from './tracing.js';
+import { ResponseCache, CacheStatus, computeCacheKey, replayChunks } from './cache.js';
+
+export interface PreparedMessagesRequest {
+  anthropicRequest: MessagesRequest;
+  resolvedRoute: ResolvedModelRoute;
+  upstreamTargets: UpstreamTarget[];
+  estimatedInputTokens: number;
+}
+
+// cacheStatus is only set when the response cache applies to the request
+export interface PipelineCallResult<T> extends UpstreamCallResult<T> {
+  cacheStatus?: CacheStatus;
+}
+
+export interface AnthropicMessageResult {
+  message: MessagesResponse;
+  target: UpstreamTarget;
+  targetIndex: number;
+  cacheStatus?: CacheStatus;
+}
+
+// Translation and upstream dispatch shared by /v1/messages and the batch processor
+export class MessagesPipeline {
+  readonly retryPolicy: RetryPolicy;
+
+  constructor(
+    readonly config: Config,
+    readonly providers: ProviderRegistry,
+    private logger: Logger,
+    private metrics?: ProxyMetrics,
+    private cache?: ResponseCache
+  ) {
+    this.retryPolicy = config.retry || DEFAULT_RETRY_POLICY;
+  }
+
+  prepare(anthropicRequest: MessagesRequest, requestId: string): PreparedMessagesRequest {
+    const resolvedRoute = resolveModelRoute(
+      anthropicRequest.model,
+      this.config,
+      this.logger,
+      requestId
+    );
+
+    const estimatedInputTokens = withSpan('estimate_input_tokens', {}, span => {
+      const tokenCount = countTokensForAnthropicRequest(
+        anthropicRequest.messages,
+        anthropicRequest.system,
+        anthropicRequest.model,
+        anthropicRequest.tools,
+        this.logger,
+        requestId
+      );
+      span.setAttribute('gen_ai.usage.input_tokens', tokenCount);
+      return tokenCount;
+    });
+
+    return {
+      anthropicRequest,
+      resolvedRoute,
+      upstreamTargets: getRouteTargets(resolvedRoute),
+      estimatedInputTokens,
+    };
+  }
+
+  // Converted per target, since capabilities differ between providers
+  buildOpenAIParams(
+    prepared: PreparedMessagesRequest,
+    target: UpstreamTarget,
+    requestId: string
+  ): ChatCompletionCreateParams {
+    const openaiParams = convertAnthropicRequestToOpenAIParams(
+      prepared.anthropicRequest,
+      target.model,
+      this.providers.getProviderConfig(target.providerName),
+      this.logger,
+      requestId
+    );
+    applyRouteDefaults(openaiParams, prepared.resolvedRoute.route, this.logger, requestId);
+
+    this.logger.debug({
+      event: LogEvent.OPENAI_REQUEST,
+      message: 'Prepared OpenAI request parameters',
+      request_id: requestId,
+      data: { params: openaiParams, provider: target.providerName },
+    });
+    return openaiParams;
+  }
+
+  // Params are built once per target, rather than again on every retry
+  private createParamsBuilder(
+    prepared: PreparedMessagesRequest,
+    requestId: string
+  ): (target: UpstreamTarget) => ChatCompletionCreateParams {
+    const builtParams: Map<UpstreamTarget, ChatCompletionCreateParams> = new Map();
+    return target => {
+      let params = builtParams.get(target);
+      if (!params) {
+        params = this.buildOpenAIParams(prepared, target, requestId);
+        builtParams.set(target, params);
+      }
+      return params;
+    };
+  }
+
+  // Keyed on the primary target's request; responses served by a fallback target are not cached
+  private getCacheKey(
+    prepared: PreparedMessagesRequest,
+    buildParams: (target: UpstreamTarget) => ChatCompletionCreateParams
+  ): string | undefined {
+    const primaryTarget = prepared.upstreamTargets[0];
+    const params = buildParams(primaryTarget);
+    if (!this.cache?.isCacheable(params)) {
+      return undefined;
+    }
+    return computeCacheKey(primaryTarget.providerName, params);
+  }
+
+  // One span and latency sample per attempt, so retries and fallbacks show up individually
+  private timeUpstreamCall<T>(target: UpstreamTarget, call: () => Promise<T>): Promise<T> {
+    const attributes = { 'proxy.upstream.provider': target.providerName, 'gen_ai.request.model': target.model };
+    return withSpan('upstream_call', attributes, async () => {
+      const startTime = Date.now();
+      try {
+        const result = await call();
+        this.metrics?.observeUpstreamCall(target.providerName, target.model, 'success', Date.now() - startTime);
+        return result;
+      } catch (error) {
+        this.metrics?.observeUpstreamCall(target.providerName, target.model, 'error', Date.now() - startTime);
+        throw error;
+      }
+    });
+  }
+
+  private callWithRetryAndFallback<T>(
+    prepared: PreparedMessagesRequest,
+    requestId: string,
+    signal: AbortSignal | undefined,
+    call: (target: UpstreamTarget) => Promise<T>
+  ): Promise<UpstreamCallResult<T>> {
+    return callUpstreamWithFallback(
+      prepared.upstreamTargets,
+      target => withRetry(
+        () => this.timeUpstreamCall(target, () => call(target)),
+        this.retryPolicy,
+        this.logger,
+        requestId,
+        { provider: target.providerName, target_model: target.model },
+        signal
+      ),
+      this.logger,
+      requestId
+    );
+  }
+
+  async createChatCompletionStream(
+    prepared: PreparedMessagesRequest,
+    requestId: string,
+    signal?: AbortSignal
+  ): Promise<PipelineCallResult<AsyncIterable<ChatCompletionChunk>>> {
+    const buildParams = this.createParamsBuilder(prepared, requestId);
+    const cacheKey = this.getCacheKey(prepared, buildParams);
+    const cached = cacheKey ? this.cache?.get(cacheKey, requestId) : undefined;
+    if (cached?.type === 'stream') {
+      return { result: replayChunks(cached.chunks), target: prepared.upstreamTargets[0], targetIndex: 0, cacheStatus: 'hit' };
+    }
+
+    this.logger.debug({
+      event: LogEvent.STREAMING_REQUEST,
+      message: 'Initiating streaming request to upstream API',
+      request_id: requestId,
+    });
+
+    const upstreamResult = await this.callWithRetryAndFallback(prepared, requestId, signal, target =>
+      this.providers.getClient(target.providerName).createChatCompletionStream(buildParams(target), requestId, signal)
+    );
+    if (!cacheKey || !this.cache) {
+      return upstreamResult;
+    }
+    return {
+      ...upstreamResult,
+      result: upstreamResult.targetIndex === 0
+        ? this.cache.recordStream(cacheKey, upstreamResult.result, requestId)
+        : upstreamResult.result,
+      cacheStatus: 'miss',
+    };
+  }
+
+  async createChatCompletion(
+    prepared: PreparedMessagesRequest,
+    requestId: string,
+    signal?: AbortSignal
+  ): Promise<PipelineCallResult<ChatCompletion>> {
+    const buildParams = this.createParamsBuilder(prepared, requestId);
+    const cacheKey = this.getCacheKey(prepared, buildParams);
+    const cached = cacheKey ? this.cache?.get(cacheKey, requestId) : undefined;
+    if (cached?.type === 'completion') {
+      return { result: cached.completion, target: prepared.upstreamTargets[0], targetIndex: 0, cacheStatus: 'hit' };
+    }
+
+    this.logger.debug({
+      event: LogEvent.OPENAI_REQUEST,
+      message: 'Sending non-streaming request to upstream API',
+      request_id: requestId,
+    });
+
+    const upstreamResult = await this.callWithRetryAndFallback(prepared, requestId, signal, target =>
+      this.providers.getClient(target.providerName).createChatCompletion(buildParams(target), requestId, signal)
+    );
+    if (!cacheKey || !this.cache) {
+      return upstreamResult;
+    }
+    if (upstreamResult.targetIndex === 0) {
+      this.cache.set(cacheKey, { type: 'completion', completion: upstreamResult.result }, requestId);
+    }
+    return { ...upstreamResult, cacheStatus: 'miss' };
+  }
+
+  async createMessage(
+    prepared: PreparedMessagesRequest,
+    requestId: string,
+    signal?: AbortSignal
+  ): Promise<AnthropicMessageResult> {
+    const { result: openaiResponseObj, target, targetIndex, cacheStatus } = await this.createChatCompletion(
+      prepared,
+      requestId,
+      signal
+    );
+
+    this.logger.debug({
+      event: LogEvent.OPENAI_RESPONSE,
+      message: 'Received OpenAI response',
+      request_id: requestId,
+      data: { response: openaiResponseObj },
+    });
+
+    const anthropicResponseObj = convertOpenAIToAnthropicResponse(
+      openaiResponseObj,
+      prepared.anthropicRequest.model,
+      this.logger,
+      requestId
+    );
+
+    checkToolChoiceHonored(
+      prepared.anthropicRequest.tool_choice,
+      anthropicResponseObj.content
+        .filter(block => block.type === 'tool_use')
+        .map(block => block.name),
+      this.logger,
+      requestId
+    );
+
+    this.logger.debug({
+      event: LogEvent.ANTHROPIC_RESPONSE,
+      message: 'Prepared Anthropic response',
+      request_id: requestId,
+      data: { response: anthropicResponseObj },
+    });
+
+    return { message: anthropicResponseObj, target, targetIndex, cacheStatus };
+  }
+}
@@ -0,0 +1,143 @@
+import OpenAI from 'openai';
+import type { ChatCompletion, ChatCompletionChunk, ChatCompletionCreateParams } from 'openai/resources/chat/completions';
+import { Config, ProviderConfig, DEFAULT_PROVIDER_NAME } from './types.js';
+import { Logger } from './logger.js';
+import { UpstreamClient, UpstreamModel, listOpenAIModels } from './upstream.js';
+import { ResponsesClient } from './responses.js';
+import { OllamaClient } from './ollama.js';
+import { GeminiClient } from './gemini.js';
+import { getTraceHeaders } from './tracing.js';
+import { RecordingClient, ReplayClient } from './cassette.js';
+
+const DEFAULT_UPSTREAM_TIMEOUT_MS = 180000;
+
+export class ChatCompletionsClient implements UpstreamClient {
+  constructor(private client: OpenAI) {}
+
+  createChatCompletion(params: ChatCompletionCreateParams, requestId: string, signal?: AbortSignal): Promise<ChatCompletion> {
+    return this.client.chat.completions.create({ ...params, stream: false }, { headers: getTraceHeaders(), signal });
+  }
+
+  createChatCompletionStream(
+    params: ChatCompletionCreateParams,
+    requestId: string,
+    signal?: AbortSignal
+  ): Promise<AsyncIterable<ChatCompletionChunk>> {
+    return this.client.chat.completions.create({
+      ...params,
+      stream: true,
+      stream_options: { include_usage: true },
+    }, { headers: getTraceHeaders(), signal });
+  }
+
+  listModels(): Promise<UpstreamModel[]> {
+    return listOpenAIModels(this.client);
+  }
+}
+
+export class ProviderRegistry {
+  private providers: Map<string, ProviderConfig> = new Map();
+  private clients: Map<string, UpstreamClient> = new Map();
+
+  constructor(private config: Config, private logger: Logger) {
+    // The CLI connection settings form the default provider unless the config file overrides it
+    this.providers.set(DEFAULT_PROVIDER_NAME, {
+      baseUrl: config.baseUrl,
+      apiKey: config.openaiApiKey,
+    });
+    for (const [name, providerConfig] of Object.entries(config.providers || {})) {
+      this.providers.set(name, providerConfig);
+    }
+
+    for (const [name, providerConfig] of this.providers) {
+      this.clients.set(name, this.createCassetteClient(name, providerConfig));
+    }
+  }
+
+  // Replay never creates the real clients, so it runs offline without provider API keys
+  private createCassetteClient(name: string, providerConfig: ProviderConfig): UpstreamClient {
+    const cassette = this.config.cassette;
+    if (cassette?.mode === 'replay') {
+      return new ReplayClient(name, cassette.directory, this.logger, cassette.delayScale);
+    }
+    const client = this.createClient(name, providerConfig);
+    if (cassette?.mode === 'record') {
+      return new RecordingClient(client, name, cassette.directory, this.logger);
+    }
+    return client;
+  }
+
+  private resolveApiKey(name: string, providerConfig: ProviderConfig): string | undefined {
+    if (providerConfig.apiKey || !providerConfig.apiKeyEnv) {
+      return providerConfig.apiKey;
+    }
+    const apiKey = process.env[providerConfig.apiKeyEnv];
+    if (!apiKey) {
+      throw new Error(`Environment variable '${providerConfig.apiKeyEnv}' for provider '${name}' is not set`);
+    }
+    return apiKey;
+  }
+
+  private createClient(name: string, providerConfig: ProviderConfig): UpstreamClient {
+    const apiKey = this.resolveApiKey(name, providerConfig);
+    const headers = {
+      'HTTP-Referer': this.config.referrerUrl,
+      'X-Title': this.config.appName,
+      ...providerConfig.headers,
+    };
+    const timeoutMs = providerConfig.timeoutMs || DEFAULT_UPSTREAM_TIMEOUT_MS;
+
+    if (providerConfig.protocol === 'ollama') {
+      return new OllamaClient(providerConfig, {
+        // Ollama itself has no auth, but it is often put behind an authenticating reverse proxy
+        headers: apiKey ? { Authorization: `Bearer ${apiKey}`, ...headers } : headers,
+        timeoutMs,
+      }, this.logger);
+    }
+    if (providerConfig.protocol === 'gemini') {
+      return new GeminiClient(providerConfig, {
+        headers: apiKey ? { 'x-goog-api-key': apiKey, ...headers } : headers,
+        timeoutMs,
+      }, this.logger);
+    }
+
+    const openaiClient = new OpenAI({
+      // Local servers (vLLM, LiteLLM without auth) accept any key, but the SDK requires one
+      apiKey: apiKey || 'not-needed',
+      baseURL: providerConfig.baseUrl,
+      defaultHeaders: headers,
+      timeout: timeoutMs,
+      // Retries are driven by the proxy's own retry policy, see retry.ts
+      maxRetries: 0,
+    });
+
+    if (providerConfig.protocol === 'responses') {
+      return new ResponsesClient(openaiClient, this.logger);
+    }
+    return new ChatCompletionsClient(openaiClient);
+  }
+
+  has(name: string): boolean {
+    return this.providers.has(name);
+  }
+
+  names(): string[] {
+    return Array.from(this.providers.keys());
+  }
+
+  getProviderConfig(name: string = DEFAULT_PROVIDER_NAME): ProviderConfig {
+    const providerConfig = this.providers.get(name);
+    if (!providerConfig) {
+      throw new Error(`Unknown provider '${name}'`);
+    }
+    return providerConfig;
+  }
+
+  getClient(name: string = DEFAULT_PROVIDER_NAME): UpstreamClient {
+    const client = this.clients.get(name);
+    if (!client) {
+      throw new Error(`Unknown provider '${name}'`);
+    }
+    return client;
+  }
+}
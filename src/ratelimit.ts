@@ -0,0 +1,222 @@
+import { Request, Response } from 'express';
+import { APIUserAbortError } from 'openai';
+import { ApiKeyConfig, RateLimitConfig } from './types.js';
+
+const MINUTE_MS = 60000;
+// Full buckets carry no state, so they are dropped once this many clients have been seen
+const MAX_TRACKED_CLIENTS = 10000;
+
+type LimitName = 'requests' | 'input-tokens' | 'output-tokens';
+
+export interface RateLimitClient {
+  id: string;
+  limits: RateLimitConfig;
+}
+
+export interface RateLimitBucketStatus {
+  limit: number;
+  remaining: number;
+  resetAt: Date;
+}
+
+export type RateLimitStatus = Partial<Record<LimitName, RateLimitBucketStatus>>;
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  status: RateLimitStatus;
+  limitedBy?: LimitName;
+  retryAfterSeconds?: number;
+}
+
+// Holds up to `capacity` tokens and refills continuously, reaching capacity again after a minute
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt: number;
+
+  constructor(readonly capacity: number, now: number) {
+    this.tokens = capacity;
+    this.updatedAt = now;
+  }
+
+  private get refillPerMs(): number {
+    return this.capacity / MINUTE_MS;
+  }
+
+  private refill(now: number): void {
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) * this.refillPerMs);
+    this.updatedAt = now;
+  }
+
+  available(now: number): number {
+    this.refill(now);
+    return this.tokens;
+  }
+
+  // A cost larger than the whole bucket is let through when the bucket is full, rather than never
+  canTake(amount: number, now: number): boolean {
+    const available = this.available(now);
+    return (available >= amount && available > 0) || available >= this.capacity;
+  }
+
+  // May drive the bucket negative: output tokens are only known after the fact and are repaid by waiting
+  take(amount: number, now: number): void {
+    this.refill(now);
+    this.tokens -= amount;
+  }
+
+  msUntilAvailable(amount: number, now: number): number {
+    const needed = Math.min(Math.max(amount, 1), this.capacity) - this.available(now);
+    return needed > 0 ? needed / this.refillPerMs : 0;
+  }
+
+  status(now: number): RateLimitBucketStatus {
+    const available = this.available(now);
+    return {
+      limit: this.capacity,
+      remaining: Math.max(0, Math.floor(available)),
+      resetAt: new Date(now + (this.capacity - available) / this.refillPerMs),
+    };
+  }
+}
+
+type ClientBuckets = Partial<Record<LimitName, TokenBucket>>;
+
+export class RateLimiter {
+  private clients: Map<string, ClientBuckets> = new Map();
+
+  constructor(private defaults: RateLimitConfig = {}, private now: () => number = Date.now) {}
+
+  // Authenticated clients are limited per key, anonymous ones per IP address
+  identify(req: Request): RateLimitClient {
+    const apiKey = (req as Request & { apiKey?: ApiKeyConfig }).apiKey;
+    return this.identifyKey(apiKey, `ip:${req.ip || req.socket?.remoteAddress || 'unknown'}`);
+  }
+
+  identifyKey(apiKey: ApiKeyConfig | undefined, anonymousId: string): RateLimitClient {
+    if (apiKey) {
+      return { id: `key:${apiKey.name}`, limits: { ...this.defaults, ...apiKey.rateLimits } };
+    }
+    return { id: anonymousId, limits: this.defaults };
+  }
+
+  private getBuckets(client: RateLimitClient, now: number): ClientBuckets {
+    let buckets = this.clients.get(client.id);
+    if (!buckets) {
+      if (this.clients.size >= MAX_TRACKED_CLIENTS) {
+        this.pruneFullBuckets(now);
+      }
+      buckets = {};
+      this.clients.set(client.id, buckets);
+    }
+
+    const capacities: Record<LimitName, number | undefined> = {
+      'requests': client.limits.requestsPerMinute,
+      'input-tokens': client.limits.inputTokensPerMinute,
+      'output-tokens': client.limits.outputTokensPerMinute,
+    };
+    for (const [name, capacity] of Object.entries(capacities) as Array<[LimitName, number | undefined]>) {
+      if (capacity === undefined) {
+        delete buckets[name];
+      } else if (buckets[name]?.capacity !== capacity) {
+        // Config changes (e.g. a different key policy) start from a fresh bucket
+        buckets[name] = new TokenBucket(capacity, now);
+      }
+    }
+    return buckets;
+  }
+
+  private pruneFullBuckets(now: number): void {
+    for (const [id, buckets] of this.clients) {
+      if (Object.values(buckets).every(bucket => bucket.available(now) >= bucket.capacity)) {
+        this.clients.delete(id);
+      }
+    }
+  }
+
+  private buildStatus(buckets: ClientBuckets, now: number): RateLimitStatus {
+    return Object.fromEntries(
+      Object.entries(buckets).map(([name, bucket]) => [name, bucket.status(now)])
+    ) as RateLimitStatus;
+  }
+
+  status(client: RateLimitClient): RateLimitStatus {
+    const now = this.now();
+    return this.buildStatus(this.getBuckets(client, now), now);
+  }
+
+  // Takes one request and the estimated input tokens; output tokens only need the bucket not to be in debt
+  acquire(client: RateLimitClient, estimatedInputTokens: number): RateLimitDecision {
+    const now = this.now();
+    const buckets = this.getBuckets(client, now);
+    const costs: Record<LimitName, number> = {
+      'requests': 1,
+      'input-tokens': estimatedInputTokens,
+      'output-tokens': 0,
+    };
+
+    for (const [name, bucket] of Object.entries(buckets) as Array<[LimitName, TokenBucket]>) {
+      if (!bucket.canTake(costs[name], now)) {
+        return {
+          allowed: false,
+          status: this.buildStatus(buckets, now),
+          limitedBy: name,
+          retryAfterSeconds: Math.max(1, Math.ceil(bucket.msUntilAvailable(costs[name], now) / 1000)),
+        };
+      }
+    }
+
+    buckets['requests']?.take(costs['requests'], now);
+    buckets['input-tokens']?.take(costs['input-tokens'], now);
+    return { allowed: true, status: this.buildStatus(buckets, now) };
+  }
+
+  // For callers with nobody to send a 429 to, such as batch requests: waits until the limits allow the request.
+  // Aborting the signal ends the wait with an APIUserAbortError, without charging the limits
+  async waitToAcquire(client: RateLimitClient, estimatedInputTokens: number, signal?: AbortSignal): Promise<void> {
+    for (;;) {
+      if (signal?.aborted) {
+        throw new APIUserAbortError();
+      }
+      const decision = this.acquire(client, estimatedInputTokens);
+      if (decision.allowed) {
+        return;
+      }
+      await new Promise<void>(resolve => {
+        const timer = setTimeout(done, decision.retryAfterSeconds! * 1000);
+        function done() {
+          clearTimeout(timer);
+          signal?.removeEventListener('abort', done);
+          resolve();
+        }
+        signal?.addEventListener('abort', done, { once: true });
+      });
+    }
+  }
+
+  // Charges the output tokens of a finished response, and corrects the input estimate with the upstream count
+  recordUsage(client: RateLimitClient, usage: { inputTokens: number; outputTokens: number }, estimatedInputTokens: number): void {
+    const now = this.now();
+    const buckets = this.getBuckets(client, now);
+    buckets['input-tokens']?.take(usage.inputTokens - estimatedInputTokens, now);
+    buckets['output-tokens']?.take(usage.outputTokens, now);
+  }
+}
+
+// Mirrors Anthropic's headers; "tokens" reports whichever token limit is most restrictive
+export function setRateLimitHeaders(res: Response, status: RateLimitStatus): void {
+  const tokenStatuses = [status['input-tokens'], status['output-tokens']]
+    .filter((bucketStatus): bucketStatus is RateLimitBucketStatus => bucketStatus !== undefined);
+  const entries: Array<[string, RateLimitBucketStatus | undefined]> = [
+    ...Object.entries(status),
+    ['tokens', tokenStatuses.sort((a, b) => a.remaining - b.remaining)[0]],
+  ];
+
+  for (const [name, bucketStatus] of entries) {
+    if (!bucketStatus) {
+      continue;
+    }
+    res.setHeader(`anthropic-ratelimit-${name}-limit`, bucketStatus.limit.toString());
+    res.setHeader(`anthropic-ratelimit-${name}-remaining`, bucketStatus.remaining.toString());
+    res.setHeader(`anthropic-ratelimit-${name}-reset`, bucketStatus.resetAt.toISOString());
+  }
+}
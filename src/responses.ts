@@ -0,0 +1,356 @@
+import OpenAI, { APIError } from 'openai';
+import type {
+  ChatCompletion,
+  ChatCompletionChunk,
+  ChatCompletionContentPart,
+  ChatCompletionCreateParams,
+  ChatCompletionMessageToolCall
+} from 'openai/resources/chat/completions';
+import type {
+  FunctionTool,
+  Response as ResponsesResponse,
+  ResponseCreateParamsNonStreaming,
+  ResponseInputContent,
+  ResponseInputItem,
+  ResponseStreamEvent,
+  ResponseUsage
+} from 'openai/resources/responses/responses';
+import { LogEvent, OpenAIReasoningFields } from './types.js';
+import { Logger } from './logger.js';
+import { UpstreamClient, UpstreamModel, listOpenAIModels } from './upstream.js';
+import { getTraceHeaders } from './tracing.js';
+
+type ResponsesRequestParams = Omit<ResponseCreateParamsNonStreaming, 'stream'>;
+type ChatCompletionFinishReason = ChatCompletion.Choice['finish_reason'];
+
+// Joins the text of a Chat Completions content value, ignoring non-text parts
+function getTextContent(content: string | Array<{ type: string; text?: string; refusal?: string }> | null | undefined): string {
+  if (!content) {
+    return '';
+  }
+  if (typeof content === 'string') {
+    return content;
+  }
+  return content
+    .map(part => part.text ?? part.refusal ?? '')
+    .join('');
+}
+
+function convertUserContentToResponses(content: string | ChatCompletionContentPart[]): string | ResponseInputContent[] {
+  if (typeof content === 'string') {
+    return content;
+  }
+
+  const inputContent: ResponseInputContent[] = [];
+  for (const part of content) {
+    switch (part.type) {
+      case 'text':
+        inputContent.push({ type: 'input_text', text: part.text });
+        break;
+      case 'image_url':
+        inputContent.push({ type: 'input_image', image_url: part.image_url.url, detail: part.image_url.detail ?? 'auto' });
+        break;
+      case 'file':
+        inputContent.push({
+          type: 'input_file',
+          ...(part.file.file_data !== undefined && { file_data: part.file.file_data }),
+          ...(part.file.file_id !== undefined && { file_id: part.file.file_id }),
+          ...(part.file.filename !== undefined && { filename: part.file.filename }),
+        });
+        break;
+      default:
+        break;
+    }
+  }
+  return inputContent;
+}
+
+export function convertChatCompletionParamsToResponses(
+  params: ChatCompletionCreateParams,
+  logger?: Logger,
+  requestId?: string
+): ResponsesRequestParams {
+  const instructions: string[] = [];
+  const input: ResponseInputItem[] = [];
+
+  for (const message of params.messages) {
+    switch (message.role) {
+      case 'system':
+      case 'developer':
+        instructions.push(getTextContent(message.content));
+        break;
+      case 'user':
+        input.push({ role: 'user', content: convertUserContentToResponses(message.content) });
+        break;
+      case 'assistant': {
+        const text = getTextContent(message.content);
+        if (text) {
+          input.push({ role: 'assistant', content: text });
+        }
+        for (const toolCall of message.tool_calls || []) {
+          input.push({
+            type: 'function_call',
+            call_id: toolCall.id,
+            name: toolCall.function.name,
+            arguments: toolCall.function.arguments,
+          });
+        }
+        break;
+      }
+      case 'tool':
+        input.push({
+          type: 'function_call_output',
+          call_id: message.tool_call_id,
+          output: getTextContent(message.content),
+        });
+        break;
+      default:
+        break;
+    }
+  }
+
+  const responsesParams: ResponsesRequestParams = {
+    model: params.model,
+    input,
+    // The proxy is stateless; every request carries the full conversation. Without stored responses, reasoning
+    // items could only be carried between turns as reasoning.encrypted_content, but the proxy drops replayed
+    // thinking blocks, so it is not requested: reasoning models start each turn, including after tool calls,
+    // without their earlier chain of thought
+    store: false,
+  };
+
+  if (instructions.length > 0) {
+    responsesParams.instructions = instructions.join('\n\n');
+  }
+  const maxOutputTokens = params.max_completion_tokens ?? params.max_tokens;
+  if (maxOutputTokens !== undefined && maxOutputTokens !== null) {
+    responsesParams.max_output_tokens = maxOutputTokens;
+  }
+  if (params.temperature !== undefined) {
+    responsesParams.temperature = params.temperature;
+  }
+  if (params.top_p !== undefined) {
+    responsesParams.top_p = params.top_p;
+  }
+  if (params.user !== undefined) {
+    responsesParams.user = params.user;
+  }
+  if (params.parallel_tool_calls !== undefined) {
+    responsesParams.parallel_tool_calls = params.parallel_tool_calls;
+  }
+  if (params.reasoning_effort) {
+    // Reasoning is only returned as text through summaries
+    responsesParams.reasoning = { effort: params.reasoning_effort, summary: 'auto' };
+  }
+
+  if (params.tools && params.tools.length > 0) {
+    responsesParams.tools = params.tools.map((tool): FunctionTool => ({
+      type: 'function',
+      name: tool.function.name,
+      description: tool.function.description,
+      parameters: tool.function.parameters ?? null,
+      // Anthropic tool schemas are not written for strict mode
+      strict: false,
+    }));
+  }
+  if (params.tool_choice !== undefined) {
+    responsesParams.tool_choice = typeof params.tool_choice === 'string'
+      ? params.tool_choice
+      : { type: 'function', name: params.tool_choice.function.name };
+  }
+
+  if (params.stop !== undefined && params.stop !== null && logger) {
+    logger.warning({
+      event: LogEvent.PARAMETER_UNSUPPORTED,
+      message: "Parameter 'stop_sequences' is not supported by the Responses API and will be ignored.",
+      request_id: requestId,
+      data: { parameter: 'stop_sequences', value: params.stop },
+    });
+  }
+
+  return responsesParams;
+}
+
+function convertResponsesUsage(usage: ResponseUsage): NonNullable<ChatCompletion['usage']> {
+  return {
+    prompt_tokens: usage.input_tokens,
+    completion_tokens: usage.output_tokens,
+    total_tokens: usage.total_tokens,
+    prompt_tokens_details: { cached_tokens: usage.input_tokens_details?.cached_tokens ?? 0 },
+    completion_tokens_details: { reasoning_tokens: usage.output_tokens_details?.reasoning_tokens ?? 0 },
+  };
+}
+
+function getResponsesFinishReason(response: ResponsesResponse, hasToolCalls: boolean): ChatCompletionFinishReason {
+  if (response.status === 'incomplete') {
+    return response.incomplete_details?.reason === 'content_filter' ? 'content_filter' : 'length';
+  }
+  return hasToolCalls ? 'tool_calls' : 'stop';
+}
+
+function createResponsesError(message: string, code?: string | null): APIError {
+  const status = code === 'rate_limit_exceeded' ? 429 : 500;
+  return APIError.generate(status, { error: { message, code } }, message, {});
+}
+
+export function convertResponseToChatCompletion(response: ResponsesResponse): ChatCompletion {
+  if (response.status === 'failed') {
+    throw createResponsesError(response.error?.message || 'Upstream response failed', response.error?.code);
+  }
+
+  let text = '';
+  const reasoningParts: string[] = [];
+  const toolCalls: ChatCompletionMessageToolCall[] = [];
+
+  for (const item of response.output) {
+    switch (item.type) {
+      case 'message':
+        text += getTextContent(item.content);
+        break;
+      case 'reasoning':
+        reasoningParts.push(...item.summary.map(summary => summary.text));
+        break;
+      case 'function_call':
+        toolCalls.push({
+          id: item.call_id,
+          type: 'function',
+          function: { name: item.name, arguments: item.arguments },
+        });
+        break;
+      default:
+        break;
+    }
+  }
+
+  const message: ChatCompletion.Choice['message'] & OpenAIReasoningFields = {
+    role: 'assistant',
+    content: text || null,
+    refusal: null,
+  };
+  if (toolCalls.length > 0) {
+    message.tool_calls = toolCalls;
+  }
+  if (reasoningParts.length > 0) {
+    message.reasoning_content = reasoningParts.join('\n\n');
+  }
+
+  return {
+    id: response.id,
+    object: 'chat.completion',
+    created: response.created_at,
+    model: response.model,
+    choices: [{
+      index: 0,
+      message,
+      finish_reason: getResponsesFinishReason(response, toolCalls.length > 0),
+      logprobs: null,
+    }],
+    ...(response.usage && { usage: convertResponsesUsage(response.usage) }),
+  };
+}
+
+export async function* convertResponsesStreamToChatCompletionChunks(
+  events: AsyncIterable<ResponseStreamEvent>
+): AsyncGenerator<ChatCompletionChunk> {
+  let id = '';
+  let model = '';
+  let created = Math.floor(Date.now() / 1000);
+  // Function call output items are numbered as tool call indexes in the order they appear
+  const toolIndexByOutputIndex: Map<number, number> = new Map();
+  let lastSummaryKey: string | null = null;
+
+  const buildChunk = (
+    delta: ChatCompletionChunk.Choice.Delta & OpenAIReasoningFields,
+    finishReason: ChatCompletionFinishReason | null = null
+  ): ChatCompletionChunk => ({
+    id,
+    object: 'chat.completion.chunk',
+    created,
+    model,
+    choices: [{ index: 0, delta, finish_reason: finishReason, logprobs: null }],
+  });
+
+  for await (const event of events) {
+    switch (event.type) {
+      case 'response.created':
+        id = event.response.id;
+        model = event.response.model;
+        created = event.response.created_at;
+        break;
+      case 'response.output_text.delta':
+      case 'response.refusal.delta':
+        yield buildChunk({ content: event.delta });
+        break;
+      case 'response.reasoning_summary_text.delta': {
+        // Separate consecutive summary parts the same way the non-streaming conversion does
+        const summaryKey = `${event.item_id}:${event.summary_index}`;
+        const separator = lastSummaryKey !== null && lastSummaryKey !== summaryKey ? '\n\n' : '';
+        lastSummaryKey = summaryKey;
+        yield buildChunk({ reasoning_content: separator + event.delta });
+        break;
+      }
+      case 'response.output_item.added':
+        if (event.item.type === 'function_call') {
+          const toolIndex = toolIndexByOutputIndex.size;
+          toolIndexByOutputIndex.set(event.output_index, toolIndex);
+          yield buildChunk({
+            tool_calls: [{
+              index: toolIndex,
+              id: event.item.call_id,
+              type: 'function',
+              function: { name: event.item.name, arguments: event.item.arguments || '' },
+            }],
+          });
+        }
+        break;
+      case 'response.function_call_arguments.delta': {
+        const toolIndex = toolIndexByOutputIndex.get(event.output_index);
+        if (toolIndex !== undefined) {
+          yield buildChunk({ tool_calls: [{ index: toolIndex, function: { arguments: event.delta } }] });
+        }
+        break;
+      }
+      case 'response.completed':
+      case 'response.incomplete':
+        yield buildChunk({}, getResponsesFinishReason(event.response, toolIndexByOutputIndex.size > 0));
+        if (event.response.usage) {
+          yield { ...buildChunk({}), choices: [], usage: convertResponsesUsage(event.response.usage) };
+        }
+        break;
+      case 'response.failed':
+        throw createResponsesError(event.response.error?.message || 'Upstream response failed', event.response.error?.code);
+      case 'error':
+        throw createResponsesError(event.message, event.code);
+      default:
+        break;
+    }
+  }
+}
+
+export class ResponsesClient implements UpstreamClient {
+  constructor(private client: OpenAI, private logger: Logger) {}
+
+  async createChatCompletion(params: ChatCompletionCreateParams, requestId: string, signal?: AbortSignal): Promise<ChatCompletion> {
+    const response = await this.client.responses.create({
+      ...convertChatCompletionParamsToResponses(params, this.logger, requestId),
+      stream: false,
+    }, { headers: getTraceHeaders(), signal });
+    return convertResponseToChatCompletion(response);
+  }
+
+  async createChatCompletionStream(
+    params: ChatCompletionCreateParams,
+    requestId: string,
+    signal?: AbortSignal
+  ): Promise<AsyncIterable<ChatCompletionChunk>> {
+    const events = await this.client.responses.create({
+      ...convertChatCompletionParamsToResponses(params, this.logger, requestId),
+      stream: true,
+    }, { headers: getTraceHeaders(), signal });
+    return convertResponsesStreamToChatCompletionChunks(events);
+  }
+
+  listModels(): Promise<UpstreamModel[]> {
+    return listOpenAIModels(this.client);
+  }
+}
@@ -0,0 +1,157 @@
+import { APIError, APIConnectionError, APIUserAbortError } from 'openai';
+import { LogEvent, RetryPolicy, RetryPolicySchema } from './types.js';
+import { Logger } from './logger.js';
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = RetryPolicySchema.parse({});
+
+const RETRY_AFTER_HEADERS = [
+  'retry-after-ms',
+  'retry-after',
+  'x-ratelimit-reset',
+  'x-ratelimit-reset-requests',
+  'x-ratelimit-reset-tokens',
+];
+
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof APIUserAbortError) {
+    return false;
+  }
+  if (error instanceof APIConnectionError) {
+    return true;
+  }
+  if (error instanceof APIError && error.status !== undefined) {
+    return error.status === 408 || error.status === 409 || error.status === 429 || error.status >= 500;
+  }
+  return false;
+}
+
+// Parses durations such as "1s", "6m0s" or "250ms" as sent in OpenAI x-ratelimit-reset-* headers
+function parseDurationMs(value: string): number | undefined {
+  const parts = value.match(/(\d+(?:\.\d+)?)(ms|h|m|s)/g);
+  if (!parts || parts.join('') !== value) {
+    return undefined;
+  }
+  const unitMs: Record<string, number> = { ms: 1, s: 1000, m: 60000, h: 3600000 };
+  return parts.reduce((total, part) => {
+    const [, amount, unit] = part.match(/(\d+(?:\.\d+)?)(ms|h|m|s)/)!;
+    return total + parseFloat(amount) * unitMs[unit];
+  }, 0);
+}
+
+function parseRetryAfterHeaderMs(name: string, value: string, now: number): number | undefined {
+  const trimmed = value.trim();
+
+  if (name === 'retry-after-ms') {
+    const ms = parseFloat(trimmed);
+    return Number.isFinite(ms) ? ms : undefined;
+  }
+
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    const numeric = parseFloat(trimmed);
+    // Reset headers are sent as epoch timestamps by some providers and as relative seconds by others
+    if (numeric > 1e12) {
+      return numeric - now;
+    }
+    if (numeric > 1e9) {
+      return numeric * 1000 - now;
+    }
+    return numeric * 1000;
+  }
+
+  const durationMs = parseDurationMs(trimmed);
+  if (durationMs !== undefined) {
+    return durationMs;
+  }
+
+  const dateMs = Date.parse(trimmed);
+  return Number.isNaN(dateMs) ? undefined : dateMs - now;
+}
+
+export function getRetryAfterMs(error: unknown, now: number = Date.now()): number | undefined {
+  if (!(error instanceof APIError) || !error.headers) {
+    return undefined;
+  }
+  const headers = error.headers as Record<string, string | undefined>;
+
+  for (const name of RETRY_AFTER_HEADERS) {
+    const value = headers[name];
+    if (value) {
+      const retryAfterMs = parseRetryAfterHeaderMs(name, value, now);
+      if (retryAfterMs !== undefined) {
+        return Math.max(0, retryAfterMs);
+      }
+    }
+  }
+  return undefined;
+}
+
+export function computeBackoffDelayMs(
+  attempt: number,
+  policy: RetryPolicy,
+  random: () => number = Math.random
+): number {
+  // Full jitter: a random delay between zero and the exponential ceiling for this attempt
+  const ceiling = Math.min(policy.maxDelayMs, policy.initialDelayMs * 2 ** (attempt - 1));
+  return Math.round(random() * ceiling);
+}
+
+// Aborting the signal ends the wait early with an APIUserAbortError, like an aborted upstream call
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new APIUserAbortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new APIUserAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export async function withRetry<T>(
+  call: (attempt: number) => Promise<T>,
+  policy: RetryPolicy,
+  logger: Logger,
+  requestId: string,
+  logContext?: Record<string, unknown>,
+  signal?: AbortSignal
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await call(attempt);
+    } catch (error) {
+      if (attempt >= policy.maxAttempts || !isRetryableError(error)) {
+        throw error;
+      }
+
+      const retryAfterMs = getRetryAfterMs(error);
+      if (retryAfterMs !== undefined && retryAfterMs > policy.maxDelayMs) {
+        // Waiting longer than the policy allows would stall the client, so let the caller fall back instead
+        throw error;
+      }
+      const delayMs = retryAfterMs ?? computeBackoffDelayMs(attempt, policy);
+
+      logger.warning({
+        event: LogEvent.UPSTREAM_RETRY,
+        message: `Upstream request failed on attempt ${attempt}/${policy.maxAttempts}, retrying in ${delayMs}ms.`,
+        request_id: requestId,
+        data: {
+          ...logContext,
+          attempt,
+          max_attempts: policy.maxAttempts,
+          delay_ms: delayMs,
+          retry_after_ms: retryAfterMs,
+          status_code: error instanceof APIError ? error.status : undefined,
+        },
+      }, error as Error);
+
+      await sleep(delayMs, signal);
+    }
+  }
+}
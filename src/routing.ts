@@ -0,0 +1,166 @@
+import type { ChatCompletionCreateParams } from 'openai/resources/chat/completions';
+import { Config, LogEvent, ModelRoute, DEFAULT_PROVIDER_NAME } from './types.js';
+import { Logger } from './logger.js';
+import { selectTargetModel } from './converter.js';
+
+export interface UpstreamTarget {
+  model: string;
+  providerName: string;
+}
+
+export interface ResolvedModelRoute {
+  targetModel: string;
+  providerName: string;
+  route?: ModelRoute;
+  routeIndex?: number;
+}
+
+export function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern
+    .split('')
+    .map(char => {
+      if (char === '*') {
+        return '.*';
+      }
+      if (char === '?') {
+        return '.';
+      }
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${escaped}$`, 'i');
+}
+
+export function matchesModelRoute(route: ModelRoute, clientModelName: string): boolean {
+  switch (route.matchType) {
+    case 'exact':
+      return route.match.toLowerCase() === clientModelName.toLowerCase();
+    case 'glob':
+      return globToRegExp(route.match).test(clientModelName);
+    case 'regex':
+      return new RegExp(route.match, 'i').test(clientModelName);
+    default:
+      return false;
+  }
+}
+
+// Upstream models merged into /v1/models are addressed as "<provider>/<upstream model id>"
+export function parseUpstreamModelAlias(clientModelName: string, config: Config): UpstreamTarget | undefined {
+  if (!config.models?.includeUpstream) {
+    return undefined;
+  }
+  const separatorIndex = clientModelName.indexOf('/');
+  if (separatorIndex <= 0 || separatorIndex === clientModelName.length - 1) {
+    return undefined;
+  }
+
+  const providerName = clientModelName.slice(0, separatorIndex);
+  const providerNames = [DEFAULT_PROVIDER_NAME, ...Object.keys(config.providers || {})];
+  if (!providerNames.includes(providerName)) {
+    return undefined;
+  }
+  return { model: clientModelName.slice(separatorIndex + 1), providerName };
+}
+
+export function resolveModelRoute(
+  clientModelName: string,
+  config: Config,
+  logger: Logger,
+  requestId: string
+): ResolvedModelRoute {
+  const routes = config.routes || [];
+
+  for (let routeIndex = 0; routeIndex < routes.length; routeIndex++) {
+    const route = routes[routeIndex];
+    if (matchesModelRoute(route, clientModelName)) {
+      const providerName = route.provider || DEFAULT_PROVIDER_NAME;
+      logger.debug({
+        event: LogEvent.MODEL_SELECTION,
+        message: `Client model '${clientModelName}' matched route ${routeIndex} ('${route.match}') -> target model '${route.target}'.`,
+        request_id: requestId,
+        data: {
+          client_model: clientModelName,
+          target_model: route.target,
+          provider: providerName,
+          route_index: routeIndex,
+          route_match: route.match,
+          route_match_type: route.matchType,
+        },
+      });
+      return { targetModel: route.target, providerName, route, routeIndex };
+    }
+  }
+
+  const aliasTarget = parseUpstreamModelAlias(clientModelName, config);
+  if (aliasTarget) {
+    logger.debug({
+      event: LogEvent.MODEL_SELECTION,
+      message: `Client model '${clientModelName}' is an upstream model alias -> target model '${aliasTarget.model}'.`,
+      request_id: requestId,
+      data: {
+        client_model: clientModelName,
+        target_model: aliasTarget.model,
+        provider: aliasTarget.providerName,
+      },
+    });
+    return { targetModel: aliasTarget.model, providerName: aliasTarget.providerName };
+  }
+
+  // No routing table entry matched, fall back to the big/small keyword mapping
+  const targetModel = selectTargetModel(
+    clientModelName,
+    config.bigModelName,
+    config.smallModelName,
+    logger,
+    requestId
+  );
+  return { targetModel, providerName: DEFAULT_PROVIDER_NAME };
+}
+
+export function getRouteTargets(resolvedRoute: ResolvedModelRoute): UpstreamTarget[] {
+  const targets: UpstreamTarget[] = [
+    { model: resolvedRoute.targetModel, providerName: resolvedRoute.providerName },
+  ];
+  for (const fallback of resolvedRoute.route?.fallbacks || []) {
+    targets.push({
+      model: fallback.target,
+      providerName: fallback.provider || resolvedRoute.providerName,
+    });
+  }
+  return targets;
+}
+
+export function applyRouteDefaults(
+  openaiParams: ChatCompletionCreateParams,
+  route: ModelRoute | undefined,
+  logger: Logger,
+  requestId: string
+): void {
+  if (!route) {
+    return;
+  }
+
+  const applied: Record<string, unknown> = {};
+
+  if (route.maxTokensCap !== undefined && (openaiParams.max_tokens ?? Infinity) > route.maxTokensCap) {
+    applied.max_tokens = { requested: openaiParams.max_tokens, capped: route.maxTokensCap };
+    openaiParams.max_tokens = route.maxTokensCap;
+  }
+  if (route.temperature !== undefined) {
+    applied.temperature = { requested: openaiParams.temperature, override: route.temperature };
+    openaiParams.temperature = route.temperature;
+  }
+  if (route.topP !== undefined) {
+    applied.top_p = { requested: openaiParams.top_p, override: route.topP };
+    openaiParams.top_p = route.topP;
+  }
+
+  if (Object.keys(applied).length > 0) {
+    logger.debug({
+      event: LogEvent.ROUTE_DEFAULTS_APPLIED,
+      message: `Applied route defaults for '${route.match}' to OpenAI request parameters.`,
+      request_id: requestId,
+      data: applied,
+    });
+  }
+}
@@ -1,24 +1,43 @@
 import express, { Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import OpenAI from 'openai';
-import type { ChatCompletionCreateParams } from 'openai/resources/chat/completions';
 import { 
   Config, 
   MessagesRequestSchema, 
   TokenCountRequestSchema,
+  MessageBatchCreateRequestSchema,
+  ListQuerySchema,
+  MessageBatch,
+  MessagesRequest,
+  UsageQuerySchema,
+  Usage,
+  StopReasonType,
+  ApiKeyConfig,
   LogEvent,
   AnthropicErrorType 
 } from './types.js';
 import { Logger } from './logger.js';
+import { UpstreamTarget } from './routing.js';
+import { ProviderRegistry } from './providers.js';
+import { formatUpstreamTarget } from './upstream.js';
+import { MessagesPipeline } from './pipeline.js';
+import { ModelCatalog, getCatalogModelIds } from './models.js';
+import { paginate } from './pagination.js';
 import {
-  selectTargetModel,
-  convertAnthropicToOpenAIMessages,
-  convertAnthropicToolsToOpenAI,
-  convertAnthropicToolChoiceToOpenAI,
-  convertOpenAIToAnthropicResponse
-} from './converter.js';
+  MessageBatchStore,
+  MessageBatchProcessor,
+  BatchOwner,
+  DEFAULT_BATCH_DIRECTORY,
+  DEFAULT_BATCH_CONCURRENCY
+} from './batches.js';
+import { ApiKeyStore, createApiKeyAuthMiddleware, createAdminKeyMiddleware, isModelAllowed } from './auth.js';
+import { RateLimiter, setRateLimitHeaders } from './ratelimit.js';
+import { createUsageLedger, DEFAULT_USAGE_FILE } from './usage.js';
+import { ProxyMetrics } from './metrics.js';
+import { startTracing, createTracingMiddleware, withSpan } from './tracing.js';
+import { createResponseCache, CacheStatus } from './cache.js';
 import { countTokensForAnthropicRequest } from './tokenizer.js';
-import { handleAnthropicStreamingResponseFromOpenAIStream } from './streaming.js';
+import { handleAnthropicStreamingResponseFromOpenAIStream, DEFAULT_STREAMING_CONFIG } from './streaming.js';
 import {
   logAndReturnErrorResponse,
   getAnthropicErrorDetailsFromException,
@@ -28,21 +47,55 @@ import {
   createGenericErrorHandler
 } from './errors.js';
 
+function setUpstreamTargetHeaders(res: Response, target: UpstreamTarget, targetIndex: number): void {
+  res.setHeader('X-Proxy-Upstream-Target', formatUpstreamTarget(target));
+  res.setHeader('X-Proxy-Fallback-Index', targetIndex.toString());
+}
+
+// Absent when the response cache is disabled or the request is not cacheable
+function setCacheStatusHeader(res: Response, cacheStatus: CacheStatus | undefined): void {
+  if (cacheStatus) {
+    res.setHeader('X-Proxy-Cache', cacheStatus);
+  }
+}
+
+// Who made a request and when it started, for the usage ledger
+interface UsageSource {
+  requestId: string;
+  keyName: string | null;
+  startTimeMono: number;
+}
+
+function getUsageSource(req: Request): UsageSource {
+  return {
+    requestId: (req as Request & { requestId: string }).requestId,
+    keyName: (req as Request & { apiKey?: ApiKeyConfig }).apiKey?.name ?? null,
+    startTimeMono: (req as Request & { startTimeMonotonic: number }).startTimeMonotonic,
+  };
+}
+
+// Batches belong to the API key that created them
+function getBatchOwner(req: Request): BatchOwner {
+  return (req as Request & { apiKey?: ApiKeyConfig }).apiKey?.name ?? null;
+}
+
+// Results are served by this proxy, so the URL is built from the host the client used to reach it
+function withResultsUrl(req: Request, batch: MessageBatch): MessageBatch {
+  return {
+    ...batch,
+    results_url: batch.processing_status === 'ended'
+      ? `${req.protocol}://${req.get('host')}/v1/messages/batches/${batch.id}/results`
+      : null,
+  };
+}
+
 export async function startServer(config: Config, logger: Logger): Promise<void> {
   const app = express();
   
-  // Initialize OpenAI client
-  let openaiClient: OpenAI;
+  // Initialize OpenAI clients for each configured provider
+  let providers: ProviderRegistry;
   try {
-    openaiClient = new OpenAI({
-      apiKey: config.openaiApiKey,
-      baseURL: config.baseUrl,
-      defaultHeaders: {
-        'HTTP-Referer': config.referrerUrl,
-        'X-Title': config.appName,
-      },
-      timeout: 180000,
-    });
+    providers = new ProviderRegistry(config, logger);
   } catch (error) {
     logger.critical({
       event: 'openai_client_init_failed',
@@ -51,6 +104,15 @@ export async function startServer(config: Config, logger: Logger): Promise<void>
     process.exit(1);
   }
 
+  const tracerProvider = startTracing(config.tracing, config.appVersion);
+  const metrics = new ProxyMetrics(getCatalogModelIds(config));
+  logger.addListener((level, record) => metrics.observeLogRecord(level, record));
+
+  const responseCache = createResponseCache(config.cache, logger);
+  const pipeline = new MessagesPipeline(config, providers, logger, metrics, responseCache);
+  const streamingConfig = config.streaming || DEFAULT_STREAMING_CONFIG;
+  const modelCatalog = new ModelCatalog(config, providers, logger);
+
   // Middleware
   app.use(express.json({ limit: '100mb' }));
   
@@ -61,6 +123,18 @@ export async function startServer(config: Config, logger: Logger): Promise<void>
     
     res.setHeader('X-Request-ID', (req as Request & { requestId: string }).requestId);
     
+    // Routes are labelled by their pattern, not the concrete path, and models outside the catalog as "other",
+    // to keep the metric's cardinality bounded. Requests that failed authentication are not counted.
+    res.on('finish', () => {
+      if (res.statusCode === 401) {
+        return;
+      }
+      const route = req.route ? `${req.baseUrl}${req.route.path}` : 'unmatched';
+      const model = typeof req.body?.model === 'string' ? req.body.model : '';
+      const durationMs = Date.now() - (req as Request & { startTimeMonotonic: number }).startTimeMonotonic;
+      metrics.observeRequest(route, model, res.statusCode, durationMs);
+    });
+    
     const originalSend = res.send;
     res.send = function(body) {
       const durationMs = Date.now() - (req as Request & { startTimeMonotonic: number }).startTimeMonotonic;
@@ -71,6 +145,109 @@ export async function startServer(config: Config, logger: Logger): Promise<void>
     next();
   });
 
+  if (tracerProvider) {
+    app.use(createTracingMiddleware());
+  }
+
+  // API key authentication for every /v1 route; without configured keys the proxy stays open
+  const apiKeyStore = config.auth ? new ApiKeyStore(config.auth) : undefined;
+  if (apiKeyStore) {
+    const apiKeyAuthMiddleware = createApiKeyAuthMiddleware(apiKeyStore, logger);
+    app.use('/v1', apiKeyAuthMiddleware);
+    if (apiKeyStore.hasAdminKeys) {
+      const adminKeyMiddleware = createAdminKeyMiddleware(logger);
+      app.use('/admin', apiKeyAuthMiddleware, adminKeyMiddleware);
+      // Metrics reveal per-model traffic, token totals and error rates, so they get the same protection as /admin
+      app.use('/metrics', apiKeyAuthMiddleware, adminKeyMiddleware);
+    }
+  }
+  // Admin endpoints expose every key's usage, so they do not exist unless an admin key could protect them
+  if (!apiKeyStore?.hasAdminKeys) {
+    app.use('/admin', async (req: Request, res: Response) => {
+      await logAndReturnErrorResponse(
+        req,
+        res,
+        404,
+        AnthropicErrorType.NOT_FOUND,
+        'Admin endpoints are disabled; configure an API key with "admin": true to use them.',
+        logger
+      );
+    });
+  }
+
+  // Completed requests, including those of batches, feed the token metrics and the usage ledger
+  const usageLedger = createUsageLedger(config.usage, logger);
+  const recordUsage = (
+    source: UsageSource,
+    anthropicRequest: MessagesRequest,
+    target: UpstreamTarget,
+    usage: Usage,
+    stopReason: StopReasonType
+  ) => {
+    metrics.observeTokens(target.providerName, target.model, usage);
+    usageLedger?.record({
+      request_id: source.requestId,
+      key: source.keyName,
+      client_model: anthropicRequest.model,
+      target_model: target.model,
+      provider: target.providerName,
+      stream: anthropicRequest.stream || false,
+      input_tokens: usage.input_tokens,
+      output_tokens: usage.output_tokens,
+      cache_creation_input_tokens: usage.cache_creation_input_tokens || 0,
+      cache_read_input_tokens: usage.cache_read_input_tokens || 0,
+      latency_ms: Date.now() - source.startTimeMono,
+      stop_reason: stopReason,
+    });
+  };
+
+  // Every /v1 response reports the client's current limits; /v1/messages consumes them
+  const rateLimiter = new RateLimiter(config.rateLimits);
+  app.use('/v1', (req: Request, res: Response, next) => {
+    setRateLimitHeaders(res, rateLimiter.status(rateLimiter.identify(req)));
+    next();
+  });
+
+  // Batch requests run through the same pipeline as /v1/messages, as non-streaming requests. Their usage
+  // and rate limits are charged to the key that created the batch; over the limit, they wait rather than fail
+  const batchProcessor = new MessageBatchProcessor(
+    new MessageBatchStore(config.batches?.directory || DEFAULT_BATCH_DIRECTORY),
+    async (params, requestId, owner, signal) => {
+      const prepared = pipeline.prepare(params, requestId);
+      const rateLimitClient = rateLimiter.identifyKey(owner === null ? undefined : apiKeyStore?.getByName(owner), 'batches');
+      // Rejects instead of acquiring once the batch is canceled, so a canceled request never reaches upstream
+      await rateLimiter.waitToAcquire(rateLimitClient, prepared.estimatedInputTokens, signal);
+
+      const startTimeMono = Date.now();
+      const { message, target, cacheStatus } = await pipeline.createMessage(prepared, requestId);
+      rateLimiter.recordUsage(
+        rateLimitClient,
+        { inputTokens: message.usage.input_tokens, outputTokens: message.usage.output_tokens },
+        prepared.estimatedInputTokens
+      );
+      if (cacheStatus !== 'hit') {
+        recordUsage({ requestId, keyName: owner, startTimeMono }, params, target, message.usage, message.stop_reason ?? null);
+      }
+      return message;
+    },
+    logger,
+    config.batches?.concurrency
+  );
+  try {
+    batchProcessor.resume();
+  } catch (error) {
+    logger.error({
+      event: 'batch_resume_failed',
+      message: 'Failed to resume unfinished message batches',
+    }, error as Error);
+  }
+
+  // Prometheus scrape endpoint
+  app.get('/metrics', (req: Request, res: Response) => {
+    res.setHeader('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+    res.send(metrics.render());
+  });
+
   // Health check endpoint
   app.get('/', (req: Request, res: Response) => {
     logger.debug({
@@ -143,10 +320,89 @@ export async function startServer(config: Config, logger: Logger): Promise<void>
     }
   });
 
+  // Models endpoints
+  app.get('/v1/models', async (req: Request, res: Response) => {
+    const requestId = (req as Request & { requestId: string }).requestId;
+    const apiKey = (req as Request & { apiKey?: ApiKeyConfig }).apiKey;
+
+    try {
+      const query = ListQuerySchema.parse(req.query);
+      const models = (await modelCatalog.list(requestId)).filter(model => isModelAllowed(apiKey, model.id));
+      res.json(paginate(models, query));
+    } catch (error) {
+      if (error instanceof Error && error.name === 'ZodError') {
+        await logAndReturnErrorResponse(
+          req,
+          res,
+          422,
+          AnthropicErrorType.INVALID_REQUEST,
+          `Invalid query parameters: ${error.message}`,
+          logger,
+          undefined,
+          error
+        );
+      } else {
+        await logAndReturnErrorResponse(
+          req,
+          res,
+          500,
+          AnthropicErrorType.API_ERROR,
+          'An unexpected error occurred while listing models.',
+          logger,
+          undefined,
+          error as Error
+        );
+      }
+    }
+  });
+
+  // Upstream model aliases contain slashes, so the ID is matched with a wildcard
+  app.get('/v1/models/*', async (req: Request, res: Response) => {
+    const requestId = (req as Request & { requestId: string }).requestId;
+    const modelId = req.params[0];
+    const apiKey = (req as Request & { apiKey?: ApiKeyConfig }).apiKey;
+
+    try {
+      // Models outside the key's policy are reported as missing, as they are left out of the list
+      const model = isModelAllowed(apiKey, modelId) ? await modelCatalog.retrieve(modelId, requestId) : undefined;
+      if (!model) {
+        await logAndReturnErrorResponse(
+          req,
+          res,
+          404,
+          AnthropicErrorType.NOT_FOUND,
+          `Model '${modelId}' not found.`,
+          logger
+        );
+        return;
+      }
+      res.json(model);
+    } catch (error) {
+      await logAndReturnErrorResponse(
+        req,
+        res,
+        500,
+        AnthropicErrorType.API_ERROR,
+        'An unexpected error occurred while retrieving the model.',
+        logger,
+        undefined,
+        error as Error
+      );
+    }
+  });
+
   // Main messages endpoint
   app.post('/v1/messages', async (req: Request, res: Response) => {
     const requestId = (req as Request & { requestId: string }).requestId;
     const startTimeMono = (req as Request & { startTimeMonotonic: number }).startTimeMonotonic;
+
+    // A connection closed before the response was finished (e.g. Esc in Claude Code) cancels the upstream call
+    const clientAbortController = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) {
+        clientAbortController.abort();
+      }
+    });
     
     try {
       logger.debug({
@@ -156,36 +412,38 @@ export async function startServer(config: Config, logger: Logger): Promise<void>
         data: { body: req.body },
       });
 
-      const anthropicRequest = MessagesRequestSchema.parse(req.body);
-      
-      // Validate top_k parameter
-      if (anthropicRequest.top_k !== undefined) {
+      const anthropicRequest = withSpan('validate_request', {}, () => MessagesRequestSchema.parse(req.body));
+      const isStream = anthropicRequest.stream || false;
+      const prepared = pipeline.prepare(anthropicRequest, requestId);
+      const { targetModel: targetModelName, providerName } = prepared.resolvedRoute;
+
+      const rateLimitClient = rateLimiter.identify(req);
+      const rateLimitDecision = rateLimiter.acquire(rateLimitClient, prepared.estimatedInputTokens);
+      setRateLimitHeaders(res, rateLimitDecision.status);
+      if (!rateLimitDecision.allowed) {
         logger.warning({
-          event: LogEvent.PARAMETER_UNSUPPORTED,
-          message: "Parameter 'top_k' provided by client but is not directly supported by the OpenAI Chat Completions API and will be ignored.",
+          event: LogEvent.RATE_LIMITED,
+          message: `Rate limit exceeded for ${rateLimitClient.id} (${rateLimitDecision.limitedBy} per minute)`,
           request_id: requestId,
-          data: { parameter: 'top_k', value: anthropicRequest.top_k },
+          data: {
+            client: rateLimitClient.id,
+            limited_by: rateLimitDecision.limitedBy,
+            retry_after_seconds: rateLimitDecision.retryAfterSeconds,
+            estimated_input_tokens: prepared.estimatedInputTokens,
+          },
         });
+        res.setHeader('retry-after', String(rateLimitDecision.retryAfterSeconds));
+        await logAndReturnErrorResponse(
+          req,
+          res,
+          429,
+          AnthropicErrorType.RATE_LIMIT,
+          `This request would exceed your rate limit of ${rateLimitDecision.limitedBy} per minute. Please retry after ${rateLimitDecision.retryAfterSeconds} seconds.`,
+          logger
+        );
+        return;
       }
       
-      const isStream = anthropicRequest.stream || false;
-      const targetModelName = selectTargetModel(
-        anthropicRequest.model,
-        config.bigModelName,
-        config.smallModelName,
-        logger,
-        requestId
-      );
-      
-      const estimatedInputTokens = countTokensForAnthropicRequest(
-        anthropicRequest.messages,
-        anthropicRequest.system,
-        anthropicRequest.model,
-        anthropicRequest.tools,
-        logger,
-        requestId
-      );
-      
       logger.info({
         event: LogEvent.REQUEST_START,
         message: 'Processing new message request',
@@ -193,102 +451,83 @@ export async function startServer(config: Config, logger: Logger): Promise<void>
         data: {
           client_model: anthropicRequest.model,
           target_model: targetModelName,
+          provider: providerName,
+          fallback_targets: prepared.upstreamTargets.slice(1).map(formatUpstreamTarget),
           stream: isStream,
-          estimated_input_tokens: estimatedInputTokens,
+          estimated_input_tokens: prepared.estimatedInputTokens,
           client_ip: req.ip || req.connection.remoteAddress || 'unknown',
           user_agent: req.get('user-agent') || 'unknown',
         },
       });
       
-      // Convert request
-      const openaiMessages = convertAnthropicToOpenAIMessages(
-        anthropicRequest.messages,
-        anthropicRequest.system,
-        logger,
-        requestId
-      );
-      const openaiTools = convertAnthropicToolsToOpenAI(anthropicRequest.tools);
-      const openaiToolChoice = convertAnthropicToolChoiceToOpenAI(
-        anthropicRequest.tool_choice,
-        logger,
-        requestId
-      );
-      
-      const openaiParams: ChatCompletionCreateParams = {
-        model: targetModelName,
-        messages: openaiMessages,
-        max_tokens: anthropicRequest.max_tokens,
-        stream: isStream,
-      };
-      
-      if (anthropicRequest.temperature !== undefined) {
-        openaiParams.temperature = anthropicRequest.temperature;
-      }
-      if (anthropicRequest.top_p !== undefined) {
-        openaiParams.top_p = anthropicRequest.top_p;
-      }
-      if (anthropicRequest.stop_sequences) {
-        openaiParams.stop = anthropicRequest.stop_sequences;
-      }
-      if (openaiTools) {
-        openaiParams.tools = openaiTools;
-      }
-      if (openaiToolChoice) {
-        openaiParams.tool_choice = openaiToolChoice;
-      }
-      if (anthropicRequest.metadata?.user_id) {
-        openaiParams.user = String(anthropicRequest.metadata.user_id);
-      }
-      
-      logger.debug({
-        event: LogEvent.OPENAI_REQUEST,
-        message: 'Prepared OpenAI request parameters',
-        request_id: requestId,
-        data: { params: openaiParams },
-      });
-      
       if (isStream) {
-        logger.debug({
-          event: LogEvent.STREAMING_REQUEST,
-          message: 'Initiating streaming request to OpenAI-compatible API',
-          request_id: requestId,
-        });
-        
-        const streamParams: ChatCompletionCreateParams = { ...openaiParams, stream: true };
-        const openaiStreamResponse = await openaiClient.chat.completions.create(streamParams);
-        
-        await handleAnthropicStreamingResponseFromOpenAIStream(
-          openaiStreamResponse,
-          anthropicRequest.model,
-          estimatedInputTokens,
+        const { result: openaiStreamResponse, target, targetIndex, cacheStatus } = await pipeline.createChatCompletionStream(
+          prepared,
           requestId,
-          startTimeMono,
-          res,
-          logger
+          clientAbortController.signal
         );
-      } else {
-        logger.debug({
-          event: LogEvent.OPENAI_REQUEST,
-          message: 'Sending non-streaming request to OpenAI-compatible API',
-          request_id: requestId,
-        });
-        
-        const nonStreamParams: ChatCompletionCreateParams = { ...openaiParams, stream: false };
-        const openaiResponseObj = await openaiClient.chat.completions.create(nonStreamParams);
+        setUpstreamTargetHeaders(res, target, targetIndex);
+        setCacheStatusHeader(res, cacheStatus);
         
-        logger.debug({
-          event: LogEvent.OPENAI_RESPONSE,
-          message: 'Received OpenAI response',
-          request_id: requestId,
-          data: { response: openaiResponseObj },
-        });
-        
-        const anthropicResponseObj = convertOpenAIToAnthropicResponse(
-          openaiResponseObj,
-          anthropicRequest.model,
-          logger,
-          requestId
+        const { usage, stopReason, timeToFirstTokenMs } = await withSpan(
+          'stream_translation',
+          { 'proxy.upstream.provider': target.providerName, 'gen_ai.request.model': target.model },
+          async span => {
+            const result = await handleAnthropicStreamingResponseFromOpenAIStream(
+              openaiStreamResponse,
+              anthropicRequest.model,
+              prepared.estimatedInputTokens,
+              requestId,
+              startTimeMono,
+              res,
+              logger,
+              {
+                toolChoice: anthropicRequest.tool_choice,
+                signal: clientAbortController.signal,
+                streaming: streamingConfig,
+                // A stream that timed out is cancelled the same way as one the client left
+                cancelUpstream: () => clientAbortController.abort(),
+              }
+            );
+            span.setAttributes({
+              'proxy.time_to_first_token_ms': result.timeToFirstTokenMs ?? undefined,
+              'proxy.content_block_count': result.contentBlockCount,
+              'proxy.client_disconnected': result.clientDisconnected,
+              'gen_ai.usage.input_tokens': result.usage.input_tokens,
+              'gen_ai.usage.output_tokens': result.usage.output_tokens,
+              'gen_ai.response.finish_reasons': result.stopReason ? [result.stopReason] : [],
+            });
+            return result;
+          }
         );
+        rateLimiter.recordUsage(
+          rateLimitClient,
+          { inputTokens: usage.input_tokens, outputTokens: usage.output_tokens },
+          prepared.estimatedInputTokens
+        );
+        // Cache hits cost no upstream tokens and replay instantly, so they are left out of usage and latency
+        if (cacheStatus !== 'hit') {
+          recordUsage(getUsageSource(req), anthropicRequest, target, usage, stopReason);
+          if (timeToFirstTokenMs !== null) {
+            metrics.observeTimeToFirstToken(target.providerName, target.model, timeToFirstTokenMs);
+          }
+        }
+      } else {
+        const { message: anthropicResponseObj, target, targetIndex, cacheStatus } = await pipeline.createMessage(
+          prepared,
+          requestId,
+          clientAbortController.signal
+        );
+        setUpstreamTargetHeaders(res, target, targetIndex);
+        setCacheStatusHeader(res, cacheStatus);
+        rateLimiter.recordUsage(
+          rateLimitClient,
+          { inputTokens: anthropicResponseObj.usage.input_tokens, outputTokens: anthropicResponseObj.usage.output_tokens },
+          prepared.estimatedInputTokens
+        );
+        if (cacheStatus !== 'hit') {
+          recordUsage(getUsageSource(req), anthropicRequest, target, anthropicResponseObj.usage, anthropicResponseObj.stop_reason ?? null);
+        }
         
         const durationMs = Date.now() - startTimeMono;
         logger.info({
@@ -298,22 +537,28 @@ export async function startServer(config: Config, logger: Logger): Promise<void>
           data: {
             status_code: 200,
             duration_ms: durationMs,
+            upstream_target: formatUpstreamTarget(target),
             input_tokens: anthropicResponseObj.usage.input_tokens,
             output_tokens: anthropicResponseObj.usage.output_tokens,
+            cache_creation_input_tokens: anthropicResponseObj.usage.cache_creation_input_tokens,
+            cache_read_input_tokens: anthropicResponseObj.usage.cache_read_input_tokens,
             stop_reason: anthropicResponseObj.stop_reason,
           },
         });
         
-        logger.debug({
-          event: LogEvent.ANTHROPIC_RESPONSE,
-          message: 'Prepared Anthropic response',
-          request_id: requestId,
-          data: { response: anthropicResponseObj },
-        });
-        
         res.json(anthropicResponseObj);
       }
     } catch (error) {
+      // Nobody is left to answer; the upstream request was cancelled through the signal
+      if (clientAbortController.signal.aborted) {
+        logger.info({
+          event: LogEvent.CLIENT_DISCONNECTED,
+          message: 'Client disconnected before the response was ready; the upstream request was cancelled.',
+          request_id: requestId,
+          data: { status_code: 499, duration_ms: Date.now() - startTimeMono },
+        });
+        return;
+      }
       if (error instanceof Error && error.name === 'ZodError') {
         await logAndReturnErrorResponse(
           req,
@@ -363,6 +608,154 @@ export async function startServer(config: Config, logger: Logger): Promise<void>
     }
   });
 
+  // Message Batches API
+  const returnBatchNotFound = (req: Request, res: Response, batchId: string) => logAndReturnErrorResponse(
+    req,
+    res,
+    404,
+    AnthropicErrorType.NOT_FOUND,
+    `Message batch '${batchId}' not found.`,
+    logger
+  );
+
+  const handleBatchRouteError = async (req: Request, res: Response, error: unknown) => {
+    if (error instanceof Error && error.name === 'ZodError') {
+      await logAndReturnErrorResponse(
+        req,
+        res,
+        422,
+        AnthropicErrorType.INVALID_REQUEST,
+        `Invalid request: ${error.message}`,
+        logger,
+        undefined,
+        error
+      );
+    } else {
+      await logAndReturnErrorResponse(
+        req,
+        res,
+        500,
+        AnthropicErrorType.API_ERROR,
+        'An unexpected error occurred while processing the batch request.',
+        logger,
+        undefined,
+        error as Error
+      );
+    }
+  };
+
+  app.post('/v1/messages/batches', async (req: Request, res: Response) => {
+    try {
+      const { requests } = MessageBatchCreateRequestSchema.parse(req.body);
+      res.json(withResultsUrl(req, batchProcessor.create(requests, getBatchOwner(req))));
+    } catch (error) {
+      await handleBatchRouteError(req, res, error);
+    }
+  });
+
+  app.get('/v1/messages/batches', async (req: Request, res: Response) => {
+    try {
+      const page = batchProcessor.list(ListQuerySchema.parse(req.query), getBatchOwner(req));
+      res.json({ ...page, data: page.data.map(batch => withResultsUrl(req, batch)) });
+    } catch (error) {
+      await handleBatchRouteError(req, res, error);
+    }
+  });
+
+  app.get('/v1/messages/batches/:batchId', async (req: Request, res: Response) => {
+    try {
+      const batch = batchProcessor.get(req.params.batchId, getBatchOwner(req));
+      if (!batch) {
+        await returnBatchNotFound(req, res, req.params.batchId);
+        return;
+      }
+      res.json(withResultsUrl(req, batch));
+    } catch (error) {
+      await handleBatchRouteError(req, res, error);
+    }
+  });
+
+  app.post('/v1/messages/batches/:batchId/cancel', async (req: Request, res: Response) => {
+    try {
+      const batch = batchProcessor.cancel(req.params.batchId, getBatchOwner(req));
+      if (!batch) {
+        await returnBatchNotFound(req, res, req.params.batchId);
+        return;
+      }
+      res.json(withResultsUrl(req, batch));
+    } catch (error) {
+      await handleBatchRouteError(req, res, error);
+    }
+  });
+
+  app.get('/v1/messages/batches/:batchId/results', async (req: Request, res: Response) => {
+    try {
+      const batch = batchProcessor.get(req.params.batchId, getBatchOwner(req));
+      if (!batch) {
+        await returnBatchNotFound(req, res, req.params.batchId);
+        return;
+      }
+      if (batch.processing_status !== 'ended') {
+        await logAndReturnErrorResponse(
+          req,
+          res,
+          400,
+          AnthropicErrorType.INVALID_REQUEST,
+          `Message batch '${batch.id}' is still processing; results are available once it has ended.`,
+          logger
+        );
+        return;
+      }
+
+      res.setHeader('Content-Type', 'application/x-jsonl');
+      res.send(batchProcessor.getResults(batch.id).map(result => `${JSON.stringify(result)}\n`).join(''));
+    } catch (error) {
+      await handleBatchRouteError(req, res, error);
+    }
+  });
+
+  // Usage ledger aggregates, e.g. /admin/usage?group_by=day,key&start_date=2025-01-01
+  app.get('/admin/usage', async (req: Request, res: Response) => {
+    try {
+      if (!usageLedger) {
+        await logAndReturnErrorResponse(
+          req,
+          res,
+          404,
+          AnthropicErrorType.NOT_FOUND,
+          'The usage ledger is disabled.',
+          logger
+        );
+        return;
+      }
+      res.json(usageLedger.aggregate(UsageQuerySchema.parse(req.query)));
+    } catch (error) {
+      if (error instanceof Error && error.name === 'ZodError') {
+        await logAndReturnErrorResponse(
+          req,
+          res,
+          422,
+          AnthropicErrorType.INVALID_REQUEST,
+          `Invalid query parameters: ${error.message}`,
+          logger,
+          undefined,
+          error
+        );
+      } else {
+        await logAndReturnErrorResponse(
+          req,
+          res,
+          500,
+          AnthropicErrorType.API_ERROR,
+          'An unexpected error occurred while reading the usage ledger.',
+          logger,
+          undefined,
+          error as Error
+        );
+      }
+    }
+  });
+
   // Error handlers
   app.use(createOpenAIAPIErrorHandler(logger));
   app.use(createValidationErrorHandler(logger));
@@ -389,9 +782,19 @@ export async function startServer(config: Config, logger: Logger): Promise<void>
       console.log('\n📊 \x1b[36m%s\x1b[0m', 'Anthropic Proxy Configuration');
       console.log('   Version       :', `\x1b[96mv${config.appVersion}\x1b[0m`);
       console.log('   Listening on  :', `\x1b[33mhttp://${config.host}:${config.port}\x1b[0m`);
-      console.log('   Forwarding to :', `\x1b[94m${config.baseUrl}\x1b[0m`);
+      console.log('   Forwarding to :', `\x1b[94m${providers.getProviderConfig().baseUrl}\x1b[0m`);
+      console.log('   Providers     :', `\x1b[94m${providers.names().join(', ')}\x1b[0m`);
       console.log('   Big Model     :', `\x1b[95m${config.bigModelName}\x1b[0m`);
       console.log('   Small Model   :', `\x1b[92m${config.smallModelName}\x1b[0m`);
+      console.log('   Model Routes  :', `\x1b[95m${config.routes?.length || 0}\x1b[0m`);
+      console.log('   Max Attempts  :', `\x1b[93m${pipeline.retryPolicy.maxAttempts}\x1b[0m`);
+      console.log('   API Keys      :', apiKeyStore ? `\x1b[93m${apiKeyStore.size}\x1b[0m` : '\x1b[91mDisabled (open access)\x1b[0m');
+      console.log('   Tracing       :', tracerProvider ? `\x1b[93m${config.tracing?.exporter}\x1b[0m` : '\x1b[90mDisabled\x1b[0m');
+      console.log('   Cassette      :', config.cassette ? `\x1b[91m${config.cassette.mode} ${config.cassette.directory}\x1b[0m` : '\x1b[90mDisabled\x1b[0m');
+      console.log('   Stream Pings  :', streamingConfig.pingIntervalSeconds > 0 ? `\x1b[93mevery ${streamingConfig.pingIntervalSeconds}s\x1b[0m` : '\x1b[90mDisabled\x1b[0m');
+      console.log('   Response Cache:', responseCache ? `\x1b[93m${config.cache?.store}\x1b[0m` : '\x1b[90mDisabled\x1b[0m');
+      console.log('   Usage Ledger  :', `\x1b[90m${usageLedger ? config.usage?.file || DEFAULT_USAGE_FILE : 'Disabled'}\x1b[0m`);
+      console.log('   Batch Workers :', `\x1b[93m${config.batches?.concurrency || DEFAULT_BATCH_CONCURRENCY}\x1b[0m`);
       console.log('   Log Level     :', `\x1b[93m${config.logLevel.toUpperCase()}\x1b[0m`);
       console.log('   Log File      :', `\x1b[90m${config.logFilePath || 'Disabled'}\x1b[0m`);
       console.log('   Reload        :', config.reload ? '\x1b[91mEnabled\x1b[0m' : '\x1b[90mDisabled\x1b[0m');
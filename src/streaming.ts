@@ -1,10 +1,42 @@
 import { Response } from 'express';
+import { APIUserAbortError } from 'openai';
 import { ChatCompletionChunk } from 'openai/resources/chat/completions';
-import { Stream } from 'openai/streaming';
 import { v4 as uuidv4 } from 'uuid';
 import { getTokenEncoder } from './tokenizer.js';
 import { Logger } from './logger.js';
-import { LogEvent, StopReasonType, AnthropicErrorType } from './types.js';
+import { convertOpenAIUsageToAnthropic, checkToolChoiceHonored, PLACEHOLDER_THINKING_SIGNATURE } from './converter.js';
+import {
+  LogEvent,
+  StopReasonType,
+  AnthropicErrorType,
+  OpenAIReasoningFields,
+  Usage,
+  ToolChoice,
+  StreamingConfig,
+  StreamingConfigSchema,
+} from './types.js';
+
+export const DEFAULT_STREAMING_CONFIG: StreamingConfig = StreamingConfigSchema.parse({});
+
+export interface StreamingOptions {
+  toolChoice?: ToolChoice;
+  // Aborted when the client disconnects: reading stops, which cancels the upstream stream
+  signal?: AbortSignal;
+  // Ping interval and timeouts; DEFAULT_STREAMING_CONFIG when omitted
+  streaming?: StreamingConfig;
+  // Called when a timeout gives up on the upstream. A stalled stream never yields again,
+  // so it can only be cancelled through the signal its request was made with
+  cancelUpstream?: () => void;
+}
+
+export interface StreamingResult {
+  usage: Usage;
+  stopReason: StopReasonType;
+  // Measured from the start of the request to the first content block; null when none was sent
+  timeToFirstTokenMs: number | null;
+  contentBlockCount: number;
+  clientDisconnected: boolean;
+}
 
 interface ToolState {
   id: string;
@@ -12,24 +44,67 @@ interface ToolState {
   arguments_buffer: string;
 }
 
+class StreamTimeoutError extends Error {}
+
+// Yields the stream's chunks, throwing a StreamTimeoutError when the next one takes longer than getTimeout allows
+async function* withChunkTimeout(
+  stream: AsyncIterable<ChatCompletionChunk>,
+  getTimeout: () => { ms: number; message: string } | null
+): AsyncIterable<ChatCompletionChunk> {
+  const iterator = stream[Symbol.asyncIterator]();
+  let timedOut = false;
+  try {
+    while (true) {
+      const timeout = getTimeout();
+      let timer: NodeJS.Timeout | undefined;
+      const next = timeout
+        ? Promise.race([
+          iterator.next(),
+          new Promise<never>((_, reject) => {
+            timer = setTimeout(() => reject(new StreamTimeoutError(timeout.message)), Math.max(0, timeout.ms));
+          }),
+        ])
+        : iterator.next();
+      const result = await next.catch(error => {
+        timedOut = error instanceof StreamTimeoutError;
+        throw error;
+      }).finally(() => clearTimeout(timer));
+      if (result.done) {
+        return;
+      }
+      yield result.value;
+    }
+  } finally {
+    // Returning a stalled iterator would wait behind its pending next() forever
+    if (!timedOut) {
+      await iterator.return?.();
+    }
+  }
+}
+
 export async function handleAnthropicStreamingResponseFromOpenAIStream(
-  openaiStream: Stream<ChatCompletionChunk>,
+  openaiStream: AsyncIterable<ChatCompletionChunk>,
   originalAnthropicModelName: string,
   estimatedInputTokens: number,
   requestId: string,
   startTimeMono: number,
   res: Response,
-  logger: Logger
-): Promise<void> {
+  logger: Logger,
+  options: StreamingOptions = {}
+): Promise<StreamingResult> {
   const anthropicMessageId = `msg_stream_${requestId}_${uuidv4().slice(0, 8)}`;
   
   let nextAnthropicBlockIdx = 0;
+  let thinkingBlockAnthropicIdx: number | null = null;
+  // Set once text or tool output has begun; reasoning arriving after that is dropped rather than interleaved
+  let answerStarted = false;
   let textBlockAnthropicIdx: number | null = null;
   const openaiToolIdxToAnthropicBlockIdx: Map<number, number> = new Map();
   const toolStates: Map<number, ToolState> = new Map();
   const sentToolBlockStarts = new Set<number>();
   
   let outputTokenCount = 0;
+  let upstreamUsage: Usage | null = null;
   let finalAnthropicStopReason: StopReasonType = null;
   
   const encoder = getTokenEncoder(logger, requestId);
@@ -42,6 +117,10 @@ export async function handleAnthropicStreamingResponseFromOpenAIStream(
     content_filter: 'stop_sequence',
   };
   
+  const streamingConfig = options.streaming || DEFAULT_STREAMING_CONFIG;
+  const streamStartTime = Date.now();
+  let pingTimer: NodeJS.Timeout | undefined;
+
   let streamStatusCode = 200;
   let streamFinalMessage = 'Streaming request completed successfully.';
   let streamLogEvent = LogEvent.REQUEST_COMPLETED;
@@ -54,8 +133,80 @@ export async function handleAnthropicStreamingResponseFromOpenAIStream(
     'X-Request-ID': requestId,
   });
   
+  let timeToFirstTokenMs: number | null = null;
+  let contentBlockCount = 0;
+  let clientDisconnected = false;
+  
   function writeSSE(event: string, data: unknown): void {
+    if (event === 'content_block_start') {
+      contentBlockCount += 1;
+      if (timeToFirstTokenMs === null) {
+        timeToFirstTokenMs = Date.now() - startTimeMono;
+      }
+    }
     res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    schedulePing();
+  }
+
+  // Proxies and load balancers drop connections that stay idle, e.g. while a reasoning model thinks
+  function schedulePing(): void {
+    clearTimeout(pingTimer);
+    if (streamingConfig.pingIntervalSeconds > 0) {
+      pingTimer = setTimeout(() => {
+        if (!options.signal?.aborted) {
+          writeSSE('ping', { type: 'ping' });
+        }
+      }, streamingConfig.pingIntervalSeconds * 1000);
+    }
+  }
+
+  // Before the first content block only the first-token timeout applies, then the stall timeout
+  function getChunkTimeout(): { ms: number; message: string } | null {
+    const { firstTokenTimeoutSeconds, stallTimeoutSeconds } = streamingConfig;
+    if (timeToFirstTokenMs === null) {
+      return firstTokenTimeoutSeconds > 0
+        ? {
+          ms: streamStartTime + firstTokenTimeoutSeconds * 1000 - Date.now(),
+          message: `The upstream sent no content within ${firstTokenTimeoutSeconds}s of the stream starting.`,
+        }
+        : null;
+    }
+    return stallTimeoutSeconds > 0
+      ? {
+        ms: stallTimeoutSeconds * 1000,
+        message: `The upstream stream stalled: nothing was received for ${stallTimeoutSeconds}s.`,
+      }
+      : null;
+  }
+  
+  // Upstream usage when the provider reported it, otherwise the local estimates
+  function getStreamUsage(): Usage {
+    return {
+      input_tokens: upstreamUsage ? upstreamUsage.input_tokens : estimatedInputTokens,
+      output_tokens: upstreamUsage ? upstreamUsage.output_tokens : outputTokenCount,
+      cache_creation_input_tokens: upstreamUsage?.cache_creation_input_tokens,
+      cache_read_input_tokens: upstreamUsage?.cache_read_input_tokens,
+    };
+  }
+
+  function throwIfClientDisconnected(): void {
+    if (options.signal?.aborted) {
+      throw new APIUserAbortError();
+    }
+  }
+
+  // A thinking block always precedes the answer, so close it, signed, once text or tool output begins
+  function closeThinkingBlock(): void {
+    answerStarted = true;
+    if (thinkingBlockAnthropicIdx !== null) {
+      writeSSE('content_block_delta', {
+        type: 'content_block_delta',
+        index: thinkingBlockAnthropicIdx,
+        delta: { type: 'signature_delta', signature: PLACEHOLDER_THINKING_SIGNATURE },
+      });
+      writeSSE('content_block_stop', { type: 'content_block_stop', index: thinkingBlockAnthropicIdx });
+      thinkingBlockAnthropicIdx = null;
+    }
   }
   
   try {
@@ -70,13 +221,23 @@ export async function handleAnthropicStreamingResponseFromOpenAIStream(
         content: [],
         stop_reason: null,
         stop_sequence: null,
-        usage: { input_tokens: estimatedInputTokens, output_tokens: 0 },
+        usage: {
+          input_tokens: estimatedInputTokens,
+          output_tokens: 0,
+          cache_creation_input_tokens: 0,
+          cache_read_input_tokens: 0,
+        },
       },
     };
     writeSSE('message_start', messageStartEventData);
     writeSSE('ping', { type: 'ping' });
     
-    for await (const chunk of openaiStream) {
+    for await (const chunk of withChunkTimeout(openaiStream, getChunkTimeout)) {
+      // Leaving the loop returns the iterator, which also stops upstreams that ignore the signal
+      throwIfClientDisconnected();
+      if (chunk.usage) {
+        upstreamUsage = convertOpenAIUsageToAnthropic(chunk.usage);
+      }
       if (!chunk.choices || chunk.choices.length === 0) {
         continue;
       }
@@ -84,9 +245,43 @@ export async function handleAnthropicStreamingResponseFromOpenAIStream(
       const delta = chunk.choices[0].delta;
       const openaiFinishReason = chunk.choices[0].finish_reason;
       
+      // Handle reasoning delta
+      const reasoningFields = delta as typeof delta & OpenAIReasoningFields;
+      const reasoningText = reasoningFields.reasoning_content || reasoningFields.reasoning;
+      if (reasoningText && answerStarted) {
+        outputTokenCount += encoder.encode(reasoningText).length;
+        logger.debug({
+          event: LogEvent.THINKING_BLOCK_DROPPED,
+          message: 'Dropped reasoning that arrived after the answer had started.',
+          request_id: requestId,
+        });
+      } else if (reasoningText) {
+        outputTokenCount += encoder.encode(reasoningText).length;
+        
+        if (thinkingBlockAnthropicIdx === null) {
+          thinkingBlockAnthropicIdx = nextAnthropicBlockIdx;
+          nextAnthropicBlockIdx += 1;
+          
+          const startThinkingEvent = {
+            type: 'content_block_start',
+            index: thinkingBlockAnthropicIdx,
+            content_block: { type: 'thinking', thinking: '', signature: '' },
+          };
+          writeSSE('content_block_start', startThinkingEvent);
+        }
+        
+        const thinkingDeltaEvent = {
+          type: 'content_block_delta',
+          index: thinkingBlockAnthropicIdx,
+          delta: { type: 'thinking_delta', thinking: reasoningText },
+        };
+        writeSSE('content_block_delta', thinkingDeltaEvent);
+      }
+      
       // Handle content delta
       if (delta.content) {
         outputTokenCount += encoder.encode(delta.content).length;
+        closeThinkingBlock();
         
         if (textBlockAnthropicIdx === null) {
           textBlockAnthropicIdx = nextAnthropicBlockIdx;
@@ -110,6 +305,7 @@ export async function handleAnthropicStreamingResponseFromOpenAIStream(
       
       // Handle tool calls delta
       if (delta.tool_calls) {
+        closeThinkingBlock();
         for (const toolDelta of delta.tool_calls) {
           const openaiTcIdx = toolDelta.index!;
           
@@ -156,6 +352,7 @@ export async function handleAnthropicStreamingResponseFromOpenAIStream(
           }
           
           // Send content_block_start for tool if ready
+          let argumentsToSend = toolDelta.function?.arguments;
           if (
             !sentToolBlockStarts.has(currentAnthropicToolBlockIdx) &&
             toolState.id &&
@@ -174,11 +371,13 @@ export async function handleAnthropicStreamingResponseFromOpenAIStream(
             };
             writeSSE('content_block_start', startToolEvent);
             sentToolBlockStarts.add(currentAnthropicToolBlockIdx);
+            // Arguments may have arrived before the tool id; they were buffered and go out together now
+            argumentsToSend = toolState.arguments_buffer;
           }
           
           // Send tool arguments delta
           if (
-            toolDelta.function?.arguments &&
+            argumentsToSend &&
             sentToolBlockStarts.has(currentAnthropicToolBlockIdx)
           ) {
             const argsDeltaEvent = {
@@ -186,7 +385,7 @@ export async function handleAnthropicStreamingResponseFromOpenAIStream(
               index: currentAnthropicToolBlockIdx,
               delta: {
                 type: 'input_json_delta',
-                partial_json: toolDelta.function.arguments,
+                partial_json: argumentsToSend,
               },
             };
             writeSSE('content_block_delta', argsDeltaEvent);
@@ -200,11 +399,15 @@ export async function handleAnthropicStreamingResponseFromOpenAIStream(
         if (openaiFinishReason === 'tool_calls') {
           finalAnthropicStopReason = 'tool_use';
         }
-        break;
+        // Keep reading: with stream_options.include_usage the usage chunk follows the finish_reason chunk
       }
     }
     
+    // The OpenAI SDK ends an aborted stream quietly rather than throwing
+    throwIfClientDisconnected();
+    
     // Send content_block_stop events
+    closeThinkingBlock();
     if (textBlockAnthropicIdx !== null) {
       writeSSE('content_block_stop', { type: 'content_block_stop', index: textBlockAnthropicIdx });
     }
@@ -232,6 +435,13 @@ export async function handleAnthropicStreamingResponseFromOpenAIStream(
       finalAnthropicStopReason = 'end_turn';
     }
     
+    checkToolChoiceHonored(
+      options.toolChoice,
+      Array.from(sentToolBlockStarts).map(idx => toolStates.get(idx)?.name || ''),
+      logger,
+      requestId
+    );
+    
     // Send final events
     const messageDeltaEvent = {
       type: 'message_delta',
@@ -239,47 +449,75 @@ export async function handleAnthropicStreamingResponseFromOpenAIStream(
         stop_reason: finalAnthropicStopReason,
         stop_sequence: null,
       },
-      usage: { output_tokens: outputTokenCount },
+      usage: upstreamUsage
+        ? { ...upstreamUsage }
+        : { output_tokens: outputTokenCount },
     };
     writeSSE('message_delta', messageDeltaEvent);
     writeSSE('message_stop', { type: 'message_stop' });
     
   } catch (error) {
-    streamStatusCode = 500;
-    streamLogEvent = LogEvent.REQUEST_FAILURE;
-    const errorType = AnthropicErrorType.API_ERROR;
-    const errorMsgStr = error instanceof Error ? error.message : String(error);
-    streamFinalMessage = `Error during OpenAI stream conversion: ${errorMsgStr}`;
-    finalAnthropicStopReason = 'error';
+    if (options.signal?.aborted) {
+      // Nothing more can reach the client; the partial usage is logged below
+      clientDisconnected = true;
+      streamStatusCode = 499;
+      streamLogEvent = LogEvent.CLIENT_DISCONNECTED;
+      streamFinalMessage = 'Client disconnected; the upstream stream was cancelled.';
+    } else if (error instanceof StreamTimeoutError) {
+      options.cancelUpstream?.();
+      streamStatusCode = 504;
+      streamLogEvent = LogEvent.REQUEST_FAILURE;
+      streamFinalMessage = `Streaming request timed out: ${error.message}`;
+      finalAnthropicStopReason = 'error';
+
+      logger.warning({
+        event: LogEvent.STREAM_TIMEOUT,
+        message: `${error.message} The upstream stream was cancelled.`,
+        request_id: requestId,
+        data: {
+          content_block_count: contentBlockCount,
+          first_token_timeout_seconds: streamingConfig.firstTokenTimeoutSeconds,
+          stall_timeout_seconds: streamingConfig.stallTimeoutSeconds,
+        },
+      });
+      writeSSE('error', { type: 'error', error: { type: AnthropicErrorType.API_ERROR, message: error.message } });
+    } else {
+      streamStatusCode = 500;
+      streamLogEvent = LogEvent.REQUEST_FAILURE;
+      const errorType = AnthropicErrorType.API_ERROR;
+      const errorMsgStr = error instanceof Error ? error.message : String(error);
+      streamFinalMessage = `Error during OpenAI stream conversion: ${errorMsgStr}`;
+      finalAnthropicStopReason = 'error';
     
-    logger.error({
-      event: LogEvent.STREAM_INTERRUPTED,
-      message: streamFinalMessage,
-      request_id: requestId,
-      data: {
-        error_type: errorType,
-      },
-    }, error as Error);
+      logger.error({
+        event: LogEvent.STREAM_INTERRUPTED,
+        message: streamFinalMessage,
+        request_id: requestId,
+        data: {
+          error_type: errorType,
+        },
+      }, error as Error);
     
-    const errorResponse = {
-      type: 'error',
-      error: {
-        type: errorType,
-        message: errorMsgStr,
-      },
-    };
-    writeSSE('error', errorResponse);
+      const errorResponse = {
+        type: 'error',
+        error: {
+          type: errorType,
+          message: errorMsgStr,
+        },
+      };
+      writeSSE('error', errorResponse);
+    }
   } finally {
+    clearTimeout(pingTimer);
     const durationMs = (Date.now() - startTimeMono);
     const logData = {
       status_code: streamStatusCode,
       duration_ms: durationMs,
-      input_tokens: estimatedInputTokens,
-      output_tokens: outputTokenCount,
+      ...getStreamUsage(),
       stop_reason: finalAnthropicStopReason,
     };
     
-    if (streamLogEvent === LogEvent.REQUEST_COMPLETED) {
+    if (streamLogEvent !== LogEvent.REQUEST_FAILURE) {
       logger.info({
         event: streamLogEvent,
         message: streamFinalMessage,
@@ -297,4 +535,12 @@ export async function handleAnthropicStreamingResponseFromOpenAIStream(
     
     res.end();
   }
+
+  return {
+    usage: getStreamUsage(),
+    stopReason: finalAnthropicStopReason,
+    timeToFirstTokenMs,
+    contentBlockCount,
+    clientDisconnected,
+  };
 }
\ No newline at end of file
@@ -1,9 +1,14 @@
 import { Tiktoken, encoding_for_model, get_encoding } from 'tiktoken';
-import { Message, SystemContent, Tool, ContentBlock, LogEvent } from './types.js';
+import { Message, SystemContent, Tool, ContentBlock, ContentBlockDocument, ContentBlockDocumentSchema, LogEvent } from './types.js';
 import { Logger } from './logger.js';
 
 const tokenEncoderCache: Map<string, Tiktoken> = new Map();
 
+// Anthropic bills roughly 1,500-3,000 tokens per PDF page (text plus page image)
+const PDF_TOKENS_PER_PAGE = 1500;
+const PDF_BYTES_PER_PAGE_ESTIMATE = 50000;
+const IMAGE_TOKENS_ESTIMATE = 768;
+
 export function getTokenEncoder(logger?: Logger, requestId?: string): Tiktoken {
   const cacheKey = 'gpt-4';
   
@@ -138,7 +143,10 @@ function countContentBlockTokens(
       return encoder.encode(block.text).length;
       
     case 'image':
-      return 768; // Standard image token count
+      return IMAGE_TOKENS_ESTIMATE; // Standard image token count
+
+    case 'document':
+      return countDocumentTokens(block, encoder);
       
     case 'tool_use': {
       let tokens = encoder.encode(block.name).length;
@@ -161,12 +169,18 @@ function countContentBlockTokens(
     case 'tool_result':
       try {
         let contentStr = '';
+        let attachmentTokens = 0;
         if (typeof block.content === 'string') {
           contentStr = block.content;
         } else if (Array.isArray(block.content)) {
           for (const item of block.content) {
+            const document = ContentBlockDocumentSchema.safeParse(item);
             if (typeof item === 'object' && item !== null && 'type' in item && item.type === 'text') {
               contentStr += (item as { text?: string }).text || '';
+            } else if (typeof item === 'object' && item !== null && 'type' in item && item.type === 'image') {
+              attachmentTokens += IMAGE_TOKENS_ESTIMATE;
+            } else if (document.success) {
+              attachmentTokens += countDocumentTokens(document.data, encoder);
             } else {
               contentStr += JSON.stringify(item);
             }
@@ -174,7 +188,7 @@ function countContentBlockTokens(
         } else {
           contentStr = JSON.stringify(block.content);
         }
-        return encoder.encode(contentStr).length;
+        return encoder.encode(contentStr).length + attachmentTokens;
       } catch {
         if (logger) {
           logger.warning({
@@ -189,4 +203,44 @@ function countContentBlockTokens(
     default:
       return 0;
   }
-}
\ No newline at end of file
+}
+
+function estimatePdfPageCount(base64Data: string): number {
+  const pdfContent = Buffer.from(base64Data, 'base64').toString('latin1');
+  const pageObjects = pdfContent.match(/\/Type\s*\/Page(?!s)/g);
+  if (pageObjects && pageObjects.length > 0) {
+    return pageObjects.length;
+  }
+  // Page objects hidden in compressed object streams, fall back to the file size
+  return Math.max(1, Math.ceil(pdfContent.length / PDF_BYTES_PER_PAGE_ESTIMATE));
+}
+
+function countDocumentTokens(block: ContentBlockDocument, encoder: Tiktoken): number {
+  let tokens = 0;
+  if (block.title) {
+    tokens += encoder.encode(block.title).length;
+  }
+  if (block.context) {
+    tokens += encoder.encode(block.context).length;
+  }
+
+  const { source } = block;
+  switch (source.type) {
+    case 'text':
+      return tokens + encoder.encode(source.data).length;
+    case 'content':
+      if (typeof source.content === 'string') {
+        return tokens + encoder.encode(source.content).length;
+      }
+      for (const item of source.content) {
+        tokens += item.type === 'text' ? encoder.encode(item.text).length : IMAGE_TOKENS_ESTIMATE;
+      }
+      return tokens;
+    case 'base64':
+      return tokens + estimatePdfPageCount(source.data) * PDF_TOKENS_PER_PAGE;
+    case 'url':
+      return tokens + encoder.encode(source.url).length;
+    default:
+      return tokens;
+  }
+}
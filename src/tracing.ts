@@ -0,0 +1,123 @@
+import { Request, Response, NextFunction } from 'express';
+import { Attributes, context, propagation, Span, SpanKind, SpanStatusCode, trace } from '@opentelemetry/api';
+import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks';
+import { W3CTraceContextPropagator } from '@opentelemetry/core';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import {
+  BasicTracerProvider,
+  BatchSpanProcessor,
+  ConsoleSpanExporter,
+  ParentBasedSampler,
+  SpanExporter,
+  TraceIdRatioBasedSampler
+} from '@opentelemetry/sdk-trace-base';
+import { TracingConfig } from './types.js';
+
+// Spans are created through the OpenTelemetry API everywhere; they are no-ops until startTracing registers a provider
+const TRACER_NAME = 'anthropic-proxy-nextgen';
+
+function createSpanExporter(tracingConfig: TracingConfig): SpanExporter {
+  if (tracingConfig.exporter === 'console') {
+    return new ConsoleSpanExporter();
+  }
+  // Without an endpoint the exporter honours OTEL_EXPORTER_OTLP_* variables, defaulting to localhost:4318
+  return new OTLPTraceExporter({ url: tracingConfig.endpoint, headers: tracingConfig.headers });
+}
+
+export function startTracing(tracingConfig: TracingConfig | undefined, serviceVersion: string): BasicTracerProvider | undefined {
+  if (!tracingConfig?.enabled) {
+    return undefined;
+  }
+
+  const provider = new BasicTracerProvider({
+    resource: resourceFromAttributes({
+      'service.name': tracingConfig.serviceName,
+      'service.version': serviceVersion,
+    }),
+    // An incoming traceparent decides whether a trace is sampled; the ratio applies to traces started here
+    sampler: new ParentBasedSampler({ root: new TraceIdRatioBasedSampler(tracingConfig.sampleRatio) }),
+    spanProcessors: [new BatchSpanProcessor(createSpanExporter(tracingConfig))],
+  });
+
+  context.setGlobalContextManager(new AsyncLocalStorageContextManager().enable());
+  propagation.setGlobalPropagator(new W3CTraceContextPropagator());
+  trace.setGlobalTracerProvider(provider);
+  return provider;
+}
+
+function endSpanWithError(span: Span, error: unknown): void {
+  span.recordException(error instanceof Error ? error : new Error(String(error)));
+  span.setStatus({ code: SpanStatusCode.ERROR, message: error instanceof Error ? error.message : String(error) });
+  span.end();
+}
+
+// Runs fn inside a child span of the active one; works for both synchronous and async functions
+export function withSpan<T>(name: string, attributes: Attributes, fn: (span: Span) => T): T {
+  return trace.getTracer(TRACER_NAME).startActiveSpan(name, { attributes }, span => {
+    try {
+      const result = fn(span);
+      if (result instanceof Promise) {
+        return result.then(
+          value => {
+            span.end();
+            return value;
+          },
+          error => {
+            endSpanWithError(span, error);
+            throw error;
+          }
+        ) as T;
+      }
+      span.end();
+      return result;
+    } catch (error) {
+      endSpanWithError(span, error);
+      throw error;
+    }
+  });
+}
+
+// W3C trace context headers (traceparent, tracestate) for the active span, to continue the trace upstream
+export function getTraceHeaders(): Record<string, string> {
+  const headers: Record<string, string> = {};
+  propagation.inject(context.active(), headers);
+  return headers;
+}
+
+// Opens the server span for each request, continuing the client's traceparent when one is sent
+export function createTracingMiddleware() {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const parentContext = propagation.extract(context.active(), req.headers);
+    const span = trace.getTracer(TRACER_NAME).startSpan(`${req.method} ${req.path}`, {
+      kind: SpanKind.SERVER,
+      attributes: {
+        'http.request.method': req.method,
+        'url.path': req.path,
+        'proxy.request_id': (req as Request & { requestId?: string }).requestId,
+      },
+    }, parentContext);
+
+    let ended = false;
+    const endSpan = () => {
+      if (ended) {
+        return;
+      }
+      ended = true;
+      if (req.route) {
+        const route = `${req.baseUrl}${req.route.path}`;
+        span.updateName(`${req.method} ${route}`);
+        span.setAttribute('http.route', route);
+      }
+      span.setAttribute('http.response.status_code', res.statusCode);
+      if (res.statusCode >= 500) {
+        span.setStatus({ code: SpanStatusCode.ERROR });
+      }
+      span.end();
+    };
+    res.on('finish', endSpan);
+    res.on('close', endSpan);
+
+    context.with(trace.setSpan(parentContext, span), next);
+  };
+}
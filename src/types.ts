@@ -15,23 +15,248 @@ export interface Config {
   appName: string;
   appVersion: string;
   claudeCodeVersion?: string;
+  configFilePath?: string;
+  routes?: ModelRoute[];
+  providers?: Record<string, ProviderConfig>;
+  retry?: RetryPolicy;
+  batches?: BatchConfig;
+  models?: ModelsConfig;
+  auth?: AuthConfig;
+  rateLimits?: RateLimitConfig;
+  usage?: UsageConfig;
+  tracing?: TracingConfig;
+  cache?: CacheConfig;
+  streaming?: StreamingConfig;
+  cassette?: CassetteOptions;
 }
 
+// Set from --record/--replay: upstream traffic is saved to, or served from, fixture files in the directory
+export interface CassetteOptions {
+  mode: 'record' | 'replay';
+  directory: string;
+  // Replay only: multiplies the recorded delays between stream chunks; 0 replays without them
+  delayScale?: number;
+}
+
+// Proxy configuration file types
+export const DEFAULT_PROVIDER_NAME = 'default';
+
+export const ReasoningFormatSchema = z.enum(['reasoning_effort', 'openrouter', 'none']);
+
+// Wire protocol spoken to the provider; requests are always built as Chat Completions first
+export const UpstreamProtocolSchema = z.enum(['chat_completions', 'responses', 'ollama', 'gemini']);
+
+export const ProviderConfigSchema = z.object({
+  baseUrl: z.string().url(),
+  protocol: UpstreamProtocolSchema.optional(),
+  apiKey: z.string().optional(),
+  apiKeyEnv: z.string().optional(),
+  headers: z.record(z.string()).optional(),
+  timeoutMs: z.number().int().positive().optional(),
+  reasoningFormat: ReasoningFormatSchema.optional(),
+  promptCaching: z.boolean().optional(),
+  fileParts: z.boolean().optional(),
+  toolResultImages: z.enum(['user_message', 'placeholder']).optional(),
+  requiredToolChoice: z.boolean().optional(),
+  // Ollama only: model options such as num_ctx, and how long the model stays loaded
+  options: z.record(z.unknown()).optional(),
+  keepAlive: z.union([z.string(), z.number()]).optional(),
+});
+
+export const RetryPolicySchema = z.object({
+  maxAttempts: z.number().int().min(1).default(3),
+  initialDelayMs: z.number().int().min(0).default(500),
+  maxDelayMs: z.number().int().min(0).default(30000),
+});
+
+export const BatchConfigSchema = z.object({
+  directory: z.string().min(1).optional(),
+  concurrency: z.number().int().min(1).default(4),
+});
+
+export const ModelsConfigSchema = z.object({
+  includeUpstream: z.boolean().default(false),
+  upstreamCacheTtlMs: z.number().int().min(0).default(300000),
+});
+
+// Token-bucket limits per client; an omitted limit is not enforced
+export const RateLimitConfigSchema = z.object({
+  requestsPerMinute: z.number().int().positive().optional(),
+  inputTokensPerMinute: z.number().int().positive().optional(),
+  outputTokensPerMinute: z.number().int().positive().optional(),
+});
+
+// Inbound client keys are stored as SHA-256 hashes; routes and models are glob patterns
+export const ApiKeyConfigSchema = z.object({
+  name: z.string().min(1),
+  keyHash: z.string().regex(/^sha256:[0-9a-f]{64}$/, 'Key hash must be "sha256:" followed by 64 lowercase hex digits'),
+  routes: z.array(z.string().min(1)).optional(),
+  models: z.array(z.string().min(1)).optional(),
+  // Overrides the global rate limits for this key
+  rateLimits: RateLimitConfigSchema.optional(),
+  // Admin keys may use the /admin endpoints
+  admin: z.boolean().default(false),
+});
+
+export const AuthConfigSchema = z.object({
+  keys: z.array(ApiKeyConfigSchema).min(1),
+}).superRefine((authConfig, ctx) => {
+  const seenNames = new Set<string>();
+  const seenHashes = new Set<string>();
+  authConfig.keys.forEach((key, keyIndex) => {
+    if (seenNames.has(key.name)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Duplicate key name '${key.name}'`, path: ['keys', keyIndex, 'name'] });
+    }
+    if (seenHashes.has(key.keyHash)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Duplicate key hash', path: ['keys', keyIndex, 'keyHash'] });
+    }
+    seenNames.add(key.name);
+    seenHashes.add(key.keyHash);
+  });
+});
+
+// Prices in USD per million tokens; cache prices default to the input price
+export const ModelPriceSchema = z.object({
+  input: z.number().min(0),
+  output: z.number().min(0),
+  cacheRead: z.number().min(0).optional(),
+  cacheWrite: z.number().min(0).optional(),
+});
+
+export const UsageConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  file: z.string().min(1).optional(),
+  // Keyed by upstream model name or glob pattern
+  prices: z.record(ModelPriceSchema).default({}),
+});
+
+export const TracingConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  exporter: z.enum(['otlp', 'console']).default('otlp'),
+  // OTLP/HTTP traces URL, e.g. http://localhost:4318/v1/traces
+  endpoint: z.string().url().optional(),
+  headers: z.record(z.string()).optional(),
+  serviceName: z.string().min(1).default('anthropic-proxy'),
+  sampleRatio: z.number().min(0).max(1).default(1),
+});
+
+export const CacheConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  store: z.enum(['memory', 'disk']).default('memory'),
+  directory: z.string().min(1).optional(),
+  ttlSeconds: z.number().int().positive().default(3600),
+  maxEntries: z.number().int().positive().default(1000),
+  maxSizeMb: z.number().positive().default(100),
+  // Sampled responses are meant to vary, so by default only temperature 0 requests are cached
+  deterministicOnly: z.boolean().default(true),
+});
+
+// Seconds; 0 turns the ping or timeout off. The first-token timeout counts from the start of the stream
+// to the first content block, the stall timeout is the longest wait between upstream chunks after that
+export const StreamingConfigSchema = z.object({
+  pingIntervalSeconds: z.number().min(0).default(15),
+  firstTokenTimeoutSeconds: z.number().min(0).default(300),
+  stallTimeoutSeconds: z.number().min(0).default(120),
+});
+
+export const RouteFallbackSchema = z.object({
+  target: z.string().min(1),
+  provider: z.string().optional(),
+});
+
+export const ModelRouteSchema = z.object({
+  match: z.string().min(1),
+  matchType: z.enum(['exact', 'glob', 'regex']).default('exact'),
+  target: z.string().min(1),
+  provider: z.string().optional(),
+  fallbacks: z.array(RouteFallbackSchema).optional(),
+  maxTokensCap: z.number().int().positive().optional(),
+  temperature: z.number().min(0).optional(),
+  topP: z.number().min(0).max(1).optional(),
+}).refine(route => {
+  if (route.matchType !== 'regex') {
+    return true;
+  }
+  try {
+    new RegExp(route.match);
+    return true;
+  } catch {
+    return false;
+  }
+}, { message: 'Route match is not a valid regular expression', path: ['match'] });
+
+export const ProxyConfigFileSchema = z.object({
+  providers: z.record(ProviderConfigSchema).optional(),
+  retry: RetryPolicySchema.optional(),
+  routes: z.array(ModelRouteSchema).optional(),
+  batches: BatchConfigSchema.optional(),
+  models: ModelsConfigSchema.optional(),
+  auth: AuthConfigSchema.optional(),
+  rateLimits: RateLimitConfigSchema.optional(),
+  usage: UsageConfigSchema.optional(),
+  tracing: TracingConfigSchema.optional(),
+  cache: CacheConfigSchema.optional(),
+  streaming: StreamingConfigSchema.optional(),
+}).superRefine((configFile, ctx) => {
+  const providerNames = new Set([DEFAULT_PROVIDER_NAME, ...Object.keys(configFile.providers || {})]);
+  (configFile.routes || []).forEach((route, routeIndex) => {
+    if (route.provider && !providerNames.has(route.provider)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Unknown provider '${route.provider}'`,
+        path: ['routes', routeIndex, 'provider'],
+      });
+    }
+    (route.fallbacks || []).forEach((fallback, fallbackIndex) => {
+      if (fallback.provider && !providerNames.has(fallback.provider)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Unknown provider '${fallback.provider}'`,
+          path: ['routes', routeIndex, 'fallbacks', fallbackIndex, 'provider'],
+        });
+      }
+    });
+  });
+});
+
 // Anthropic API types
+export const CacheControlSchema = z.object({
+  type: z.literal('ephemeral'),
+  ttl: z.enum(['5m', '1h']).optional(),
+});
+
 export const ContentBlockTextSchema = z.object({
   type: z.literal('text'),
   text: z.string(),
+  cache_control: CacheControlSchema.optional(),
 });
 
-export const ContentBlockImageSourceSchema = z.object({
-  type: z.string(),
+export const ContentBlockImageBase64SourceSchema = z.object({
+  type: z.literal('base64'),
   media_type: z.string(),
   data: z.string(),
 });
 
+export const ContentBlockImageUrlSourceSchema = z.object({
+  type: z.literal('url'),
+  url: z.string(),
+});
+
+export const ContentBlockFileSourceSchema = z.object({
+  type: z.literal('file'),
+  file_id: z.string(),
+});
+
+export const ContentBlockImageSourceSchema = z.union([
+  ContentBlockImageBase64SourceSchema,
+  ContentBlockImageUrlSourceSchema,
+  ContentBlockFileSourceSchema,
+]);
+
 export const ContentBlockImageSchema = z.object({
   type: z.literal('image'),
   source: ContentBlockImageSourceSchema,
+  cache_control: CacheControlSchema.optional(),
 });
 
 export const ContentBlockToolUseSchema = z.object({
@@ -39,6 +264,7 @@ export const ContentBlockToolUseSchema = z.object({
   id: z.string(),
   name: z.string(),
   input: z.record(z.any()),
+  cache_control: CacheControlSchema.optional(),
 });
 
 export const ContentBlockToolResultSchema = z.object({
@@ -46,6 +272,52 @@ export const ContentBlockToolResultSchema = z.object({
   tool_use_id: z.string(),
   content: z.union([z.string(), z.array(z.record(z.any())), z.array(z.any())]),
   is_error: z.boolean().optional(),
+  cache_control: CacheControlSchema.optional(),
+});
+
+export const ContentBlockDocumentBase64SourceSchema = z.object({
+  type: z.literal('base64'),
+  media_type: z.literal('application/pdf'),
+  data: z.string(),
+});
+
+export const ContentBlockDocumentTextSourceSchema = z.object({
+  type: z.literal('text'),
+  media_type: z.literal('text/plain'),
+  data: z.string(),
+});
+
+export const ContentBlockDocumentContentSourceSchema = z.object({
+  type: z.literal('content'),
+  content: z.union([z.string(), z.array(z.union([ContentBlockTextSchema, ContentBlockImageSchema]))]),
+});
+
+export const ContentBlockDocumentSourceSchema = z.union([
+  ContentBlockDocumentBase64SourceSchema,
+  ContentBlockDocumentTextSourceSchema,
+  ContentBlockImageUrlSourceSchema,
+  ContentBlockDocumentContentSourceSchema,
+  ContentBlockFileSourceSchema,
+]);
+
+export const ContentBlockDocumentSchema = z.object({
+  type: z.literal('document'),
+  source: ContentBlockDocumentSourceSchema,
+  title: z.string().nullable().optional(),
+  context: z.string().nullable().optional(),
+  citations: z.object({ enabled: z.boolean() }).optional(),
+  cache_control: CacheControlSchema.optional(),
+});
+
+export const ContentBlockThinkingSchema = z.object({
+  type: z.literal('thinking'),
+  thinking: z.string(),
+  signature: z.string().optional(),
+});
+
+export const ContentBlockRedactedThinkingSchema = z.object({
+  type: z.literal('redacted_thinking'),
+  data: z.string(),
 });
 
 export const ContentBlockSchema = z.union([
@@ -53,11 +325,15 @@ export const ContentBlockSchema = z.union([
   ContentBlockImageSchema,
   ContentBlockToolUseSchema,
   ContentBlockToolResultSchema,
+  ContentBlockDocumentSchema,
+  ContentBlockThinkingSchema,
+  ContentBlockRedactedThinkingSchema,
 ]);
 
 export const SystemContentSchema = z.object({
   type: z.literal('text'),
   text: z.string(),
+  cache_control: CacheControlSchema.optional(),
 });
 
 export const MessageSchema = z.object({
@@ -69,13 +345,25 @@ export const ToolSchema = z.object({
   name: z.string(),
   description: z.string().optional(),
   input_schema: z.record(z.any()),
+  cache_control: CacheControlSchema.optional(),
 });
 
 export const ToolChoiceSchema = z.object({
-  type: z.enum(['auto', 'any', 'tool']),
+  type: z.enum(['auto', 'any', 'tool', 'none']),
   name: z.string().optional(),
+  disable_parallel_tool_use: z.boolean().optional(),
 });
 
+export const ThinkingConfigSchema = z.union([
+  z.object({
+    type: z.literal('enabled'),
+    budget_tokens: z.number().int().positive(),
+  }),
+  z.object({
+    type: z.literal('disabled'),
+  }),
+]);
+
 export const MessagesRequestSchema = z.object({
   model: z.string(),
   max_tokens: z.number(),
@@ -89,6 +377,7 @@ export const MessagesRequestSchema = z.object({
   metadata: z.record(z.any()).optional(),
   tools: z.array(ToolSchema).optional(),
   tool_choice: ToolChoiceSchema.optional(),
+  thinking: ThinkingConfigSchema.optional(),
 });
 
 export const TokenCountRequestSchema = z.object({
@@ -96,11 +385,14 @@ export const TokenCountRequestSchema = z.object({
   messages: z.array(MessageSchema),
   system: z.union([z.string(), z.array(SystemContentSchema)]).optional(),
   tools: z.array(ToolSchema).optional(),
+  thinking: ThinkingConfigSchema.optional(),
 });
 
 export const UsageSchema = z.object({
   input_tokens: z.number(),
   output_tokens: z.number(),
+  cache_creation_input_tokens: z.number().optional(),
+  cache_read_input_tokens: z.number().optional(),
 });
 
 export const MessagesResponseSchema = z.object({
@@ -118,6 +410,42 @@ export const TokenCountResponseSchema = z.object({
   input_tokens: z.number(),
 });
 
+// Message Batches API
+export const MessageBatchRequestSchema = z.object({
+  custom_id: z.string().regex(/^[a-zA-Z0-9_-]{1,64}$/, 'custom_id must be 1-64 letters, digits, hyphens or underscores'),
+  params: MessagesRequestSchema,
+});
+
+export const MessageBatchCreateRequestSchema = z.object({
+  requests: z.array(MessageBatchRequestSchema).min(1).max(100000),
+}).refine(
+  body => new Set(body.requests.map(request => request.custom_id)).size === body.requests.length,
+  { message: 'custom_id values must be unique within a batch', path: ['requests'] }
+);
+
+// Cursor pagination query shared by the list endpoints
+export const ListQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(1000).default(20),
+  before_id: z.string().optional(),
+  after_id: z.string().optional(),
+});
+
+// Usage ledger query
+export const UsageGroupBySchema = z.enum(['day', 'key', 'model', 'client_model']);
+
+const DateParamSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a date as YYYY-MM-DD');
+
+export const UsageQuerySchema = z.object({
+  group_by: z.string()
+    .default('day,model,key')
+    .transform(groupBy => groupBy.split(',').map(field => field.trim()).filter(Boolean))
+    .pipe(z.array(UsageGroupBySchema)),
+  start_date: DateParamSchema.optional(),
+  end_date: DateParamSchema.optional(),
+  key: z.string().optional(),
+  model: z.string().optional(),
+});
+
 // Error types
 export enum AnthropicErrorType {
   INVALID_REQUEST = 'invalid_request_error',
@@ -146,6 +474,8 @@ export const AnthropicErrorResponseSchema = z.object({
 // Logging types
 export enum LogEvent {
   MODEL_SELECTION = 'model_selection',
+  ROUTE_DEFAULTS_APPLIED = 'route_defaults_applied',
+  CONFIG_FILE_LOADED = 'config_file_loaded',
   REQUEST_START = 'request_start',
   REQUEST_COMPLETED = 'request_completed',
   REQUEST_FAILURE = 'request_failure',
@@ -155,23 +485,48 @@ export enum LogEvent {
   ANTHROPIC_RESPONSE = 'anthropic_response',
   STREAMING_REQUEST = 'streaming_request',
   STREAM_INTERRUPTED = 'stream_interrupted',
+  CLIENT_DISCONNECTED = 'client_disconnected',
+  STREAM_TIMEOUT = 'stream_timeout',
   TOKEN_COUNT = 'token_count',
   TOKEN_ENCODER_LOAD_FAILED = 'token_encoder_load_failed',
   SYSTEM_PROMPT_ADJUSTED = 'system_prompt_adjusted',
   TOOL_INPUT_SERIALIZATION_FAILURE = 'tool_input_serialization_failure',
   IMAGE_FORMAT_UNSUPPORTED = 'image_format_unsupported',
+  DOCUMENT_FORMAT_UNSUPPORTED = 'document_format_unsupported',
   MESSAGE_FORMAT_NORMALIZED = 'message_format_normalized',
   TOOL_RESULT_SERIALIZATION_FAILURE = 'tool_result_serialization_failure',
   TOOL_RESULT_PROCESSING = 'tool_result_processing',
   TOOL_CHOICE_UNSUPPORTED = 'tool_choice_unsupported',
+  TOOL_CHOICE_NOT_HONORED = 'tool_choice_not_honored',
   TOOL_ARGS_TYPE_MISMATCH = 'tool_args_type_mismatch',
   TOOL_ARGS_PARSE_FAILURE = 'tool_args_parse_failure',
   TOOL_ARGS_UNEXPECTED = 'tool_args_unexpected',
   TOOL_ID_PLACEHOLDER = 'tool_id_placeholder',
   TOOL_ID_UPDATED = 'tool_id_updated',
   PARAMETER_UNSUPPORTED = 'parameter_unsupported',
+  THINKING_MAPPED = 'thinking_mapped',
+  THINKING_BLOCK_DROPPED = 'thinking_block_dropped',
   HEALTH_CHECK = 'health_check',
   PROVIDER_ERROR_DETAILS = 'provider_error_details',
+  UPSTREAM_RETRY = 'upstream_retry',
+  UPSTREAM_FALLBACK = 'upstream_fallback',
+  UPSTREAM_TARGET_SELECTED = 'upstream_target_selected',
+  BATCH_CREATED = 'batch_created',
+  BATCH_RESUMED = 'batch_resumed',
+  BATCH_CANCEL_REQUESTED = 'batch_cancel_requested',
+  BATCH_REQUEST_FAILED = 'batch_request_failed',
+  BATCH_ENDED = 'batch_ended',
+  BATCH_STORE_FAILED = 'batch_store_failed',
+  UPSTREAM_MODELS_FETCH_FAILED = 'upstream_models_fetch_failed',
+  AUTH_FAILED = 'auth_failed',
+  PERMISSION_DENIED = 'permission_denied',
+  RATE_LIMITED = 'rate_limited',
+  USAGE_RECORD_FAILED = 'usage_record_failed',
+  CACHE_HIT = 'cache_hit',
+  CACHE_WRITE_FAILED = 'cache_write_failed',
+  CASSETTE_RECORDED = 'cassette_recorded',
+  CASSETTE_RECORD_FAILED = 'cassette_record_failed',
+  CASSETTE_MISS = 'cassette_miss',
 }
 
 export interface LogError {
@@ -195,24 +550,146 @@ export interface ProviderErrorMetadata {
 }
 
 // Type exports for Zod schemas
+export type ReasoningFormat = z.infer<typeof ReasoningFormatSchema>;
+export type UpstreamProtocol = z.infer<typeof UpstreamProtocolSchema>;
+export type ProviderConfig = z.infer<typeof ProviderConfigSchema>;
+export type RetryPolicy = z.infer<typeof RetryPolicySchema>;
+export type BatchConfig = z.infer<typeof BatchConfigSchema>;
+export type ModelsConfig = z.infer<typeof ModelsConfigSchema>;
+export type ApiKeyConfig = z.infer<typeof ApiKeyConfigSchema>;
+export type AuthConfig = z.infer<typeof AuthConfigSchema>;
+export type RateLimitConfig = z.infer<typeof RateLimitConfigSchema>;
+export type ModelPrice = z.infer<typeof ModelPriceSchema>;
+export type UsageConfig = z.infer<typeof UsageConfigSchema>;
+export type TracingConfig = z.infer<typeof TracingConfigSchema>;
+export type CacheConfig = z.infer<typeof CacheConfigSchema>;
+export type StreamingConfig = z.infer<typeof StreamingConfigSchema>;
+export type RouteFallback = z.infer<typeof RouteFallbackSchema>;
+export type ModelRoute = z.infer<typeof ModelRouteSchema>;
+export type ProxyConfigFile = z.infer<typeof ProxyConfigFileSchema>;
+export type CacheControl = z.infer<typeof CacheControlSchema>;
 export type ContentBlockText = z.infer<typeof ContentBlockTextSchema>;
+export type ContentBlockImageSource = z.infer<typeof ContentBlockImageSourceSchema>;
 export type ContentBlockImage = z.infer<typeof ContentBlockImageSchema>;
 export type ContentBlockToolUse = z.infer<typeof ContentBlockToolUseSchema>;
 export type ContentBlockToolResult = z.infer<typeof ContentBlockToolResultSchema>;
+export type ContentBlockDocumentSource = z.infer<typeof ContentBlockDocumentSourceSchema>;
+export type ContentBlockDocument = z.infer<typeof ContentBlockDocumentSchema>;
+export type ContentBlockThinking = z.infer<typeof ContentBlockThinkingSchema>;
+export type ContentBlockRedactedThinking = z.infer<typeof ContentBlockRedactedThinkingSchema>;
 export type ContentBlock = z.infer<typeof ContentBlockSchema>;
 export type SystemContent = z.infer<typeof SystemContentSchema>;
 export type Message = z.infer<typeof MessageSchema>;
 export type Tool = z.infer<typeof ToolSchema>;
 export type ToolChoice = z.infer<typeof ToolChoiceSchema>;
+export type ThinkingConfig = z.infer<typeof ThinkingConfigSchema>;
 export type MessagesRequest = z.infer<typeof MessagesRequestSchema>;
 export type TokenCountRequest = z.infer<typeof TokenCountRequestSchema>;
 export type Usage = z.infer<typeof UsageSchema>;
 export type MessagesResponse = z.infer<typeof MessagesResponseSchema>;
 export type TokenCountResponse = z.infer<typeof TokenCountResponseSchema>;
+export type MessageBatchRequest = z.infer<typeof MessageBatchRequestSchema>;
+export type MessageBatchCreateRequest = z.infer<typeof MessageBatchCreateRequestSchema>;
+export type ListQuery = z.infer<typeof ListQuerySchema>;
+export type UsageGroupBy = z.infer<typeof UsageGroupBySchema>;
+export type UsageQuery = z.infer<typeof UsageQuerySchema>;
 export type AnthropicErrorDetail = z.infer<typeof AnthropicErrorDetailSchema>;
 export type AnthropicErrorResponse = z.infer<typeof AnthropicErrorResponseSchema>;
 
+// Model objects returned by /v1/models, annotated with where the proxy sends them
+export interface AnthropicModel {
+  type: 'model';
+  id: string;
+  display_name: string;
+  created_at: string;
+  upstream_target: string;
+  fallback_targets: string[];
+}
+
+// Message batch objects, as returned by the Message Batches API
+export interface MessageBatchRequestCounts {
+  processing: number;
+  succeeded: number;
+  errored: number;
+  canceled: number;
+  expired: number;
+}
+
+export interface MessageBatch {
+  id: string;
+  type: 'message_batch';
+  processing_status: 'in_progress' | 'canceling' | 'ended';
+  request_counts: MessageBatchRequestCounts;
+  created_at: string;
+  expires_at: string;
+  ended_at: string | null;
+  cancel_initiated_at: string | null;
+  archived_at: string | null;
+  results_url: string | null;
+}
+
+export type MessageBatchResultBody =
+  | { type: 'succeeded'; message: MessagesResponse }
+  | { type: 'errored'; error: AnthropicErrorResponse }
+  | { type: 'canceled' }
+  | { type: 'expired' };
+
+export interface MessageBatchResult {
+  custom_id: string;
+  result: MessageBatchResultBody;
+}
+
+// Usage ledger
+export interface UsageRecord {
+  timestamp: string;
+  request_id: string;
+  key: string | null;
+  client_model: string;
+  target_model: string;
+  provider: string;
+  stream: boolean;
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_input_tokens: number;
+  cache_read_input_tokens: number;
+  latency_ms: number;
+  stop_reason: StopReasonType;
+  // null when no price is configured for the target model
+  cost_usd: number | null;
+}
+
+export interface UsageTotals {
+  requests: number;
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_input_tokens: number;
+  cache_read_input_tokens: number;
+  cost_usd: number;
+  unpriced_requests: number;
+}
+
+export type UsageAggregate = Partial<Record<UsageGroupBy, string | null>> & UsageTotals;
+
 // OpenAI types
+export interface OpenAIReasoningFields {
+  reasoning_content?: string | null;
+  reasoning?: string | null;
+}
+
+// Sampling parameters without a Chat Completions equivalent, read by the native upstream adapters
+export interface OpenAISamplingFields {
+  top_k?: number;
+}
+
+// Cache accounting fields reported by Anthropic-backed OpenAI-compatible upstreams (LiteLLM, OpenRouter)
+export interface OpenAICacheUsageFields {
+  cache_creation_input_tokens?: number | null;
+  prompt_tokens_details?: {
+    cached_tokens?: number | null;
+    cache_write_tokens?: number | null;
+  } | null;
+}
+
 export interface OpenAIMessage {
   role: 'system' | 'user' | 'assistant' | 'function' | 'tool';
   content?: string | null;
@@ -0,0 +1,112 @@
+import OpenAI, { APIError, APIConnectionError, APIUserAbortError } from 'openai';
+import type { ChatCompletion, ChatCompletionChunk, ChatCompletionCreateParams } from 'openai/resources/chat/completions';
+import { LogEvent } from './types.js';
+import { Logger } from './logger.js';
+import { UpstreamTarget } from './routing.js';
+
+export interface UpstreamModel {
+  id: string;
+  created?: number;
+}
+
+// Every upstream protocol is driven with Chat Completions parameters and reports back in Chat Completions shapes,
+// so translation from and to Anthropic stays in one place. Errors are raised as OpenAI APIErrors for retry and fallback.
+// Aborting the signal cancels the request, or the stream being read, with an APIUserAbortError.
+export interface UpstreamClient {
+  createChatCompletion(params: ChatCompletionCreateParams, requestId: string, signal?: AbortSignal): Promise<ChatCompletion>;
+  // Resolves once the upstream has accepted the request, so HTTP errors surface before any SSE is written
+  createChatCompletionStream(
+    params: ChatCompletionCreateParams,
+    requestId: string,
+    signal?: AbortSignal
+  ): Promise<AsyncIterable<ChatCompletionChunk>>;
+  listModels(): Promise<UpstreamModel[]>;
+}
+
+export async function listOpenAIModels(client: OpenAI): Promise<UpstreamModel[]> {
+  const models: UpstreamModel[] = [];
+  for await (const model of client.models.list()) {
+    models.push({ id: model.id, created: model.created });
+  }
+  return models;
+}
+
+export interface UpstreamCallResult<T> {
+  result: T;
+  target: UpstreamTarget;
+  targetIndex: number;
+}
+
+export function formatUpstreamTarget(target: UpstreamTarget): string {
+  return `${target.providerName}/${target.model}`;
+}
+
+// Rate limits, overload and server-side failures are worth trying elsewhere; client errors are not
+export function isFallbackEligibleError(error: unknown): boolean {
+  if (error instanceof APIUserAbortError) {
+    return false;
+  }
+  if (error instanceof APIConnectionError) {
+    return true;
+  }
+  if (error instanceof APIError && error.status !== undefined) {
+    return error.status === 429 || error.status >= 500;
+  }
+  return false;
+}
+
+export async function callUpstreamWithFallback<T>(
+  targets: UpstreamTarget[],
+  call: (target: UpstreamTarget) => Promise<T>,
+  logger: Logger,
+  requestId: string
+): Promise<UpstreamCallResult<T>> {
+  let lastError: unknown;
+
+  for (let targetIndex = 0; targetIndex < targets.length; targetIndex++) {
+    const target = targets[targetIndex];
+    try {
+      const result = await call(target);
+
+      const selectedRecord = {
+        event: LogEvent.UPSTREAM_TARGET_SELECTED,
+        message: `Upstream target '${formatUpstreamTarget(target)}' accepted the request.`,
+        request_id: requestId,
+        data: {
+          provider: target.providerName,
+          target_model: target.model,
+          fallback_index: targetIndex,
+        },
+      };
+      if (targetIndex > 0) {
+        logger.info(selectedRecord);
+      } else {
+        logger.debug(selectedRecord);
+      }
+
+      return { result, target, targetIndex };
+    } catch (error) {
+      lastError = error;
+      const nextTarget = targets[targetIndex + 1];
+      if (!nextTarget || !isFallbackEligibleError(error)) {
+        throw error;
+      }
+
+      logger.warning({
+        event: LogEvent.UPSTREAM_FALLBACK,
+        message: `Upstream target '${formatUpstreamTarget(target)}' failed, falling back to '${formatUpstreamTarget(nextTarget)}'.`,
+        request_id: requestId,
+        data: {
+          failed_provider: target.providerName,
+          failed_model: target.model,
+          status_code: error instanceof APIError ? error.status : undefined,
+          next_provider: nextTarget.providerName,
+          next_model: nextTarget.model,
+          fallback_index: targetIndex + 1,
+        },
+      }, error as Error);
+    }
+  }
+
+  throw lastError;
+}
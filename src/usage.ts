@@ -0,0 +1,169 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  LogEvent,
+  ModelPrice,
+  UsageAggregate,
+  UsageConfig,
+  UsageGroupBy,
+  UsageQuery,
+  UsageRecord,
+  UsageTotals
+} from './types.js';
+import { Logger } from './logger.js';
+import { globToRegExp } from './routing.js';
+
+export const DEFAULT_USAGE_FILE = path.join('.anthropic-proxy', 'usage.jsonl');
+
+const TOKENS_PER_PRICE_UNIT = 1000000;
+
+export type UsageEntry = Omit<UsageRecord, 'timestamp' | 'cost_usd'>;
+
+// Exact model names take precedence over glob patterns
+export function findModelPrice(prices: Record<string, ModelPrice>, targetModel: string): ModelPrice | undefined {
+  if (prices[targetModel]) {
+    return prices[targetModel];
+  }
+  const pattern = Object.keys(prices).find(pattern => pattern.includes('*') && globToRegExp(pattern).test(targetModel));
+  return pattern ? prices[pattern] : undefined;
+}
+
+export function calculateCost(price: ModelPrice, entry: UsageEntry): number {
+  return (
+    entry.input_tokens * price.input
+    + entry.output_tokens * price.output
+    + entry.cache_read_input_tokens * (price.cacheRead ?? price.input)
+    + entry.cache_creation_input_tokens * (price.cacheWrite ?? price.input)
+  ) / TOKENS_PER_PRICE_UNIT;
+}
+
+function emptyTotals(): UsageTotals {
+  return {
+    requests: 0,
+    input_tokens: 0,
+    output_tokens: 0,
+    cache_creation_input_tokens: 0,
+    cache_read_input_tokens: 0,
+    cost_usd: 0,
+    unpriced_requests: 0,
+  };
+}
+
+function addToTotals(totals: UsageTotals, record: UsageRecord): void {
+  totals.requests += 1;
+  totals.input_tokens += record.input_tokens;
+  totals.output_tokens += record.output_tokens;
+  totals.cache_creation_input_tokens += record.cache_creation_input_tokens;
+  totals.cache_read_input_tokens += record.cache_read_input_tokens;
+  if (record.cost_usd === null) {
+    totals.unpriced_requests += 1;
+  } else {
+    totals.cost_usd += record.cost_usd;
+  }
+}
+
+function getGroupValue(record: UsageRecord, field: UsageGroupBy): string | null {
+  switch (field) {
+    case 'day':
+      return record.timestamp.slice(0, 10);
+    case 'key':
+      return record.key;
+    case 'model':
+      return record.target_model;
+    case 'client_model':
+      return record.client_model;
+  }
+}
+
+// Completed requests are appended to a JSONL file, one record per line; queries scan the whole file
+export class UsageLedger {
+  constructor(
+    private filePath: string,
+    private prices: Record<string, ModelPrice>,
+    private logger: Logger
+  ) {}
+
+  record(entry: UsageEntry): UsageRecord {
+    const price = findModelPrice(this.prices, entry.target_model);
+    const record: UsageRecord = {
+      timestamp: new Date().toISOString(),
+      ...entry,
+      cost_usd: price ? calculateCost(price, entry) : null,
+    };
+
+    // A failed write must not fail the request that has already been answered
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.appendFileSync(this.filePath, `${JSON.stringify(record)}\n`);
+    } catch (error) {
+      this.logger.error({
+        event: LogEvent.USAGE_RECORD_FAILED,
+        message: `Failed to append usage record to '${this.filePath}'`,
+        request_id: entry.request_id,
+      }, error as Error);
+    }
+    return record;
+  }
+
+  readRecords(): UsageRecord[] {
+    if (!fs.existsSync(this.filePath)) {
+      return [];
+    }
+    const records: UsageRecord[] = [];
+    for (const line of fs.readFileSync(this.filePath, 'utf-8').split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        records.push(JSON.parse(line) as UsageRecord);
+      } catch {
+        // A line cut short by a crash mid-write is skipped
+      }
+    }
+    return records;
+  }
+
+  aggregate(query: UsageQuery): { data: UsageAggregate[]; totals: UsageTotals } {
+    const groups: Map<string, UsageAggregate> = new Map();
+    const totals = emptyTotals();
+
+    for (const record of this.readRecords()) {
+      const day = record.timestamp.slice(0, 10);
+      if ((query.start_date && day < query.start_date)
+        || (query.end_date && day > query.end_date)
+        || (query.key !== undefined && record.key !== query.key)
+        || (query.model !== undefined && record.target_model !== query.model && record.client_model !== query.model)) {
+        continue;
+      }
+
+      const groupFields = Object.fromEntries(query.group_by.map(field => [field, getGroupValue(record, field)]));
+      const groupKey = JSON.stringify(groupFields);
+      let group = groups.get(groupKey);
+      if (!group) {
+        group = { ...groupFields, ...emptyTotals() };
+        groups.set(groupKey, group);
+      }
+      addToTotals(group, record);
+      addToTotals(totals, record);
+    }
+
+    const data = Array.from(groups.values()).sort((a, b) => {
+      for (const field of query.group_by) {
+        const comparison = String(a[field] ?? '').localeCompare(String(b[field] ?? ''));
+        if (comparison !== 0) {
+          return comparison;
+        }
+      }
+      return 0;
+    });
+    return { data, totals };
+  }
+}
+
+// The ledger writes to disk on every request, so it is only kept when the config file has a usage section
+export function createUsageLedger(usageConfig: UsageConfig | undefined, logger: Logger): UsageLedger | undefined {
+  if (!usageConfig?.enabled) {
+    return undefined;
+  }
+  return new UsageLedger(usageConfig.file || DEFAULT_USAGE_FILE, usageConfig.prices, logger);
+}